@@ -3,6 +3,7 @@ import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import { existsSync, mkdirSync, createReadStream } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
@@ -27,6 +28,11 @@ const CONFIG = {
   thumbnailSize: 400,
   maxFileSize: 50 * 1024 * 1024, // 50MB
   allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'],
+  sessionTtl: 12 * 60 * 60, // 12h, in seconds
+  ownerPassword: process.env.GALLERY_OWNER_PASSWORD || '',
+  guestPassword: process.env.GALLERY_GUEST_PASSWORD || '',
+  authSecret: process.env.GALLERY_AUTH_SECRET || '',
+  downloadVariants: ['light', 'max', 'both'],
 };
 
 // Ensure directories exist
@@ -193,6 +199,135 @@ async function generateThumbnail(imagePath, albumId, filename) {
   return thumbnailPath;
 }
 
+// Returns null for an unknown variant; a missing one means both folders
+function readDownloadVariant(value) {
+  if (value === undefined || value === null || value === '') return 'both';
+  const variant = String(value).toLowerCase();
+  return CONFIG.downloadVariants.includes(variant) ? variant : null;
+}
+
+async function folderSize(folderPath) {
+  if (!existsSync(folderPath)) return 0;
+  let size = 0;
+  for (const entry of await fs.readdir(folderPath, { withFileTypes: true })) {
+    const entryPath = path.join(folderPath, entry.name);
+    size += entry.isDirectory() ? await folderSize(entryPath) : (await fs.stat(entryPath)).size;
+  }
+  return size;
+}
+
+// Estimated ZIP payload per variant, worked out whenever the album's files change
+async function albumDownloadSizes(album) {
+  const albumPath = path.join(CONFIG.albumsDir, album.id);
+  if (!album.hasLightMax) {
+    const size = await folderSize(albumPath);
+    return { light: size, max: size, both: size };
+  }
+  const light = await folderSize(path.join(albumPath, 'light'));
+  const max = await folderSize(path.join(albumPath, 'max'));
+  return { light, max, both: light + max };
+}
+
+// Flat albums have a single set of files, so the variant does not apply to them
+function addAlbumToArchive(archive, album, variant) {
+  const albumPath = path.join(CONFIG.albumsDir, album.id);
+  const lightPath = path.join(albumPath, 'light');
+  const maxPath = path.join(albumPath, 'max');
+
+  if (existsSync(lightPath) && existsSync(maxPath)) {
+    if (variant !== 'max') {
+      archive.directory(lightPath, `Lena ${album.name} - Light - do dzielenia się w internecie`);
+    }
+    if (variant !== 'light') {
+      archive.directory(maxPath, `Lena ${album.name} - Max - do profesjonalnych wydruków`);
+    }
+  } else {
+    archive.directory(albumPath, `Lena ${album.name}`);
+  }
+}
+
+// ============================================
+// SESSION TOKENS
+// ============================================
+
+function signTokenPayload(payload) {
+  return crypto.createHmac('sha256', CONFIG.authSecret).update(payload).digest('base64url');
+}
+
+function issueSessionToken(role) {
+  if (!CONFIG.authSecret) {
+    throw new Error('GALLERY_AUTH_SECRET is not configured');
+  }
+  const expiresAt = Math.floor(Date.now() / 1000) + CONFIG.sessionTtl;
+  const payload = Buffer.from(JSON.stringify({ role, exp: expiresAt })).toString('base64url');
+  return {
+    token: `${payload}.${signTokenPayload(payload)}`,
+    role,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
+
+function verifySessionToken(token) {
+  if (!CONFIG.authSecret) return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(signTokenPayload(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    if (!claims.role || !claims.exp || claims.exp < Date.now() / 1000) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function safeEqual(a, b) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Only the Authorization header counts: a token in the URL would end up in logs and history
+function readRequestToken(req) {
+  const header = req.headers.authorization || '';
+  if (header.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim();
+  }
+  return '';
+}
+
+function requireSession(req, res, next) {
+  const token = readRequestToken(req);
+  const session = token ? verifySessionToken(token) : null;
+  if (!session) {
+    return res.status(401).json({ error: 'Wymagane zalogowanie' });
+  }
+  req.session = session;
+  next();
+}
+
+function requireRole(role) {
+  return (req, res, next) => requireSession(req, res, () => {
+    if (req.session.role !== role) {
+      return res.status(403).json({ error: 'Brak uprawnień' });
+    }
+    next();
+  });
+}
+
+// Download size estimates are owner-only data
+function presentAlbum(album, session) {
+  if (session.role === 'owner') return album;
+  const { downloadSizes, ...rest } = album;
+  return rest;
+}
+
 async function getImageDimensions(imagePath) {
   try {
     const metadata = await sharp(imagePath).metadata();
@@ -226,13 +361,40 @@ app.get('/api/ftp/test', async (req, res) => {
   res.json(result);
 });
 
+// ----------------------------------------
+// POST /api/auth/login - Exchange a password for a session token
+// ----------------------------------------
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    let role = null;
+
+    if (CONFIG.ownerPassword && safeEqual(password, CONFIG.ownerPassword)) {
+      role = 'owner';
+    } else if (CONFIG.guestPassword && safeEqual(password, CONFIG.guestPassword)) {
+      role = 'guest';
+    }
+
+    if (!role) {
+      // Slow down password guessing a little
+      await new Promise(resolve => setTimeout(resolve, 500));
+      return res.status(401).json({ error: 'Nieprawidłowe hasło' });
+    }
+
+    res.json(issueSessionToken(role));
+  } catch (error) {
+    console.error('Error during login:', error);
+    res.status(500).json({ error: 'Błąd podczas logowania' });
+  }
+});
+
 // ----------------------------------------
 // GET /api/albums - Get all albums
 // ----------------------------------------
-app.get('/api/albums', async (req, res) => {
+app.get('/api/albums', requireSession, async (req, res) => {
   try {
     const data = await readAlbumsData();
-    res.json(data.albums);
+    res.json(data.albums.map(album => presentAlbum(album, req.session)));
   } catch (error) {
     console.error('Error fetching albums:', error);
     res.status(500).json({ error: 'Błąd podczas pobierania albumów' });
@@ -242,7 +404,7 @@ app.get('/api/albums', async (req, res) => {
 // ----------------------------------------
 // GET /api/albums/:id - Get single album
 // ----------------------------------------
-app.get('/api/albums/:id', async (req, res) => {
+app.get('/api/albums/:id', requireSession, async (req, res) => {
   try {
     const data = await readAlbumsData();
     const album = data.albums.find(a => a.id === req.params.id);
@@ -251,7 +413,7 @@ app.get('/api/albums/:id', async (req, res) => {
       return res.status(404).json({ error: 'Album nie znaleziony' });
     }
     
-    res.json(album);
+    res.json(presentAlbum(album, req.session));
   } catch (error) {
     console.error('Error fetching album:', error);
     res.status(500).json({ error: 'Błąd podczas pobierania albumu' });
@@ -261,8 +423,13 @@ app.get('/api/albums/:id', async (req, res) => {
 // ----------------------------------------
 // GET /api/albums/:id/download - Download album as ZIP
 // ----------------------------------------
-app.get('/api/albums/:id/download', async (req, res) => {
+app.get('/api/albums/:id/download', requireRole('owner'), async (req, res) => {
   try {
+    const variant = readDownloadVariant(req.query.variant);
+    if (!variant) {
+      return res.status(400).json({ error: 'Nieznany wariant pobierania' });
+    }
+
     const data = await readAlbumsData();
     const album = data.albums.find(a => a.id === req.params.id);
     
@@ -270,16 +437,8 @@ app.get('/api/albums/:id/download', async (req, res) => {
       return res.status(404).json({ error: 'Album nie znaleziony' });
     }
     
-    const albumName = album.name;
-    const albumPath = path.join(CONFIG.albumsDir, album.id);
-    const lightPath = path.join(albumPath, 'light');
-    const maxPath = path.join(albumPath, 'max');
-    
-    // Check if light/max structure exists
-    const hasLightMax = existsSync(lightPath) && existsSync(maxPath);
-    
     // Set response headers
-    const zipFilename = `Lena ${albumName}.zip`;
+    const zipFilename = `Lena ${album.name}.zip`;
     res.setHeader('Content-Type', 'application/zip');
     res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(zipFilename)}"`);
     
@@ -292,23 +451,7 @@ app.get('/api/albums/:id/download', async (req, res) => {
     });
     
     archive.pipe(res);
-    
-    if (hasLightMax) {
-      // New structure with light/max folders
-      const lightFolderName = `Lena ${albumName} - Light - do dzielenia się w internecie`;
-      const maxFolderName = `Lena ${albumName} - Max - do profesjonalnych wydruków`;
-      
-      // Add light folder
-      archive.directory(lightPath, lightFolderName);
-      
-      // Add max folder
-      archive.directory(maxPath, maxFolderName);
-    } else {
-      // Legacy structure - single folder with all photos
-      const folderName = `Lena ${albumName}`;
-      archive.directory(albumPath, folderName);
-    }
-    
+    addAlbumToArchive(archive, album, variant);
     await archive.finalize();
     
   } catch (error) {
@@ -320,13 +463,17 @@ app.get('/api/albums/:id/download', async (req, res) => {
 // ----------------------------------------
 // POST /api/download-multiple - Download multiple albums as ZIP
 // ----------------------------------------
-app.post('/api/download-multiple', async (req, res) => {
+app.post('/api/download-multiple', requireRole('owner'), async (req, res) => {
   try {
     const { albumIds } = req.body;
+    const variant = readDownloadVariant(req.body.variant);
     
     if (!albumIds || !Array.isArray(albumIds) || albumIds.length === 0) {
       return res.status(400).json({ error: 'Brak albumów do pobrania' });
     }
+    if (!variant) {
+      return res.status(400).json({ error: 'Nieznany wariant pobierania' });
+    }
     
     const data = await readAlbumsData();
     const albumsToDownload = data.albums.filter(a => albumIds.includes(a.id));
@@ -354,21 +501,7 @@ app.post('/api/download-multiple', async (req, res) => {
     archive.pipe(res);
     
     for (const album of albumsToDownload) {
-      const albumPath = path.join(CONFIG.albumsDir, album.id);
-      const lightPath = path.join(albumPath, 'light');
-      const maxPath = path.join(albumPath, 'max');
-      
-      const hasLightMax = existsSync(lightPath) && existsSync(maxPath);
-      
-      if (hasLightMax) {
-        const lightFolderName = `Lena ${album.name} - Light - do dzielenia się w internecie`;
-        const maxFolderName = `Lena ${album.name} - Max - do profesjonalnych wydruków`;
-        
-        archive.directory(lightPath, lightFolderName);
-        archive.directory(maxPath, maxFolderName);
-      } else {
-        archive.directory(albumPath, `Lena ${album.name}`);
-      }
+      addAlbumToArchive(archive, album, variant);
     }
     
     await archive.finalize();
@@ -382,7 +515,7 @@ app.post('/api/download-multiple', async (req, res) => {
 // ----------------------------------------
 // POST /api/albums - Create new album
 // ----------------------------------------
-app.post('/api/albums', async (req, res) => {
+app.post('/api/albums', requireRole('owner'), async (req, res) => {
   try {
     const { name } = req.body;
     
@@ -420,7 +553,7 @@ app.post('/api/albums', async (req, res) => {
 // ----------------------------------------
 // PUT /api/albums/:id - Update album
 // ----------------------------------------
-app.put('/api/albums/:id', async (req, res) => {
+app.put('/api/albums/:id', requireRole('owner'), async (req, res) => {
   try {
     const { name } = req.body;
     const data = await readAlbumsData();
@@ -449,7 +582,7 @@ app.put('/api/albums/:id', async (req, res) => {
 // ----------------------------------------
 // DELETE /api/albums/:id - Delete album
 // ----------------------------------------
-app.delete('/api/albums/:id', async (req, res) => {
+app.delete('/api/albums/:id', requireRole('owner'), async (req, res) => {
   try {
     const data = await readAlbumsData();
     
@@ -485,7 +618,7 @@ app.delete('/api/albums/:id', async (req, res) => {
 // ----------------------------------------
 // POST /api/albums/:id/photos - Add photos to existing album (for batch upload)
 // ----------------------------------------
-app.post('/api/albums/:id/photos', upload.array('photos', 100), async (req, res) => {
+app.post('/api/albums/:id/photos', requireRole('owner'), upload.array('photos', 100), async (req, res) => {
   try {
     const data = await readAlbumsData();
     const albumIndex = data.albums.findIndex(a => a.id === req.params.id);
@@ -589,6 +722,7 @@ app.post('/api/albums/:id/photos', upload.array('photos', 100), async (req, res)
       album.thumbnail = newPhotos[0].thumbnail;
     }
     
+    album.downloadSizes = await albumDownloadSizes(album);
     album.updatedAt = new Date().toISOString();
     await writeAlbumsData(data);
     
@@ -608,7 +742,7 @@ app.post('/api/albums/:id/photos', upload.array('photos', 100), async (req, res)
 // - Old format: flat list of photos
 // - New format: photos with light/max folder structure
 // ----------------------------------------
-app.post('/api/upload', upload.array('photos', 2000), async (req, res) => {
+app.post('/api/upload', requireRole('owner'), upload.array('photos', 2000), async (req, res) => {
   try {
     const { albumName } = req.body;
     
@@ -737,6 +871,7 @@ app.post('/api/upload', upload.array('photos', 2000), async (req, res) => {
       newAlbum.thumbnail = newAlbum.photos[0].thumbnail;
     }
     
+    newAlbum.downloadSizes = await albumDownloadSizes(newAlbum);
     data.albums.push(newAlbum);
     await writeAlbumsData(data);
     
@@ -788,6 +923,7 @@ app.listen(PORT, () => {
 ║                                                            ║
 ║   Endpoints:                                               ║
 ║   • GET    /api/health              - Status serwera       ║
+║   • POST   /api/auth/login          - Logowanie (token)    ║
 ║   • GET    /api/albums              - Lista albumów        ║
 ║   • GET    /api/albums/:id          - Szczegóły albumu     ║
 ║   • GET    /api/albums/:id/download - Pobierz album (ZIP)  ║
@@ -0,0 +1,198 @@
+<?php
+
+require_once __DIR__ . '/helpers.php';
+
+function base64url_encode(string $data): string {
+    return rtrim(strtr(base64_encode($data), '+/', '-_'), '=');
+}
+
+function base64url_decode(string $data): string {
+    $decoded = base64_decode(strtr($data, '-_', '+/'), true);
+    return $decoded === false ? '' : $decoded;
+}
+
+function sign_token_payload(string $payload): string {
+    return base64url_encode(hash_hmac('sha256', $payload, AUTH_SECRET, true));
+}
+
+// Guests coming from a share link or an album access code get a token scoped to those albums
+function issue_session_token(string $role, ?array $albumIds = null, ?string $linkId = null, ?int $notAfter = null): array {
+    if (AUTH_SECRET === '') {
+        throw new LogicException('AUTH_SECRET is not configured');
+    }
+    $expiresAt = time() + SESSION_TTL;
+    if ($notAfter !== null && $notAfter < $expiresAt) {
+        $expiresAt = $notAfter;
+    }
+    $claims = ['role' => $role, 'exp' => $expiresAt];
+    if ($albumIds !== null) {
+        $claims['albums'] = array_values($albumIds);
+    }
+    if ($linkId !== null) {
+        $claims['link'] = $linkId;
+    }
+    $payload = base64url_encode(json_encode($claims));
+    $session = [
+        'token' => $payload . '.' . sign_token_payload($payload),
+        'role' => $role,
+        'expiresAt' => gmdate('c', $expiresAt),
+    ];
+    if ($albumIds !== null) {
+        $session['albumIds'] = array_values($albumIds);
+    }
+    return $session;
+}
+
+function verify_session_token(string $token): ?array {
+    if (AUTH_SECRET === '') {
+        return null;
+    }
+    $parts = explode('.', $token);
+    if (count($parts) !== 2) {
+        return null;
+    }
+    list($payload, $signature) = $parts;
+    if (!hash_equals(sign_token_payload($payload), $signature)) {
+        return null;
+    }
+    $claims = json_decode(base64url_decode($payload), true);
+    if (!is_array($claims) || !isset($claims['role'], $claims['exp'])) {
+        return null;
+    }
+    if ((int) $claims['exp'] < time()) {
+        return null;
+    }
+    // Link-based sessions die together with the link
+    if (isset($claims['link'])) {
+        $link = find_share_link(read_albums_data(), 'id', (string) $claims['link']);
+        if ($link === null || !share_link_is_active($link)) {
+            return null;
+        }
+    }
+    return $claims;
+}
+
+// Only the Authorization header counts: a token in the URL would end up in logs and history
+function read_request_token(): string {
+    $header = $_SERVER['HTTP_AUTHORIZATION'] ?? $_SERVER['REDIRECT_HTTP_AUTHORIZATION'] ?? '';
+    if (stripos($header, 'Bearer ') === 0) {
+        return trim(substr($header, 7));
+    }
+    return '';
+}
+
+// Sessions are shared by everyone with the same password or link, so favourites, comments and
+// reactions are kept per browser under a viewer id. The server makes the id up and signs it,
+// so nobody can act as another viewer by sending their id
+function issue_viewer_key(): array {
+    if (AUTH_SECRET === '') {
+        throw new LogicException('AUTH_SECRET is not configured');
+    }
+    $viewerId = generate_uuid();
+    return ['viewerId' => $viewerId, 'key' => $viewerId . '.' . sign_token_payload('viewer:' . $viewerId)];
+}
+
+// The key travels in the X-Viewer-Key header, like the session token
+function require_viewer_id(): string {
+    $parts = explode('.', (string) ($_SERVER['HTTP_X_VIEWER_KEY'] ?? ''));
+    if (AUTH_SECRET === '' || count($parts) !== 2
+        || !hash_equals(sign_token_payload('viewer:' . $parts[0]), $parts[1])) {
+        send_error(403, 'Nieprawidłowy klucz widza');
+    }
+    return $parts[0];
+}
+
+function current_session(): ?array {
+    $token = read_request_token();
+    return $token === '' ? null : verify_session_token($token);
+}
+
+function require_role(string $role): array {
+    $session = current_session();
+    if ($session === null) {
+        send_error(401, 'Wymagane zalogowanie');
+    }
+    if ($session['role'] !== $role) {
+        send_error(403, 'Brak uprawnień');
+    }
+    return $session;
+}
+
+function require_session(): array {
+    $session = current_session();
+    if ($session === null) {
+        send_error(401, 'Wymagane zalogowanie');
+    }
+    return $session;
+}
+
+function session_can_view_album(array $session, string $albumId): bool {
+    if (!isset($session['albums']) || !is_array($session['albums'])) {
+        return true;
+    }
+    return in_array($albumId, $session['albums'], true);
+}
+
+// Access codes and download sizes are owner-only data
+// photosVersion changes whenever photos are added, removed, reordered or edited,
+// so clients know when the pages they already loaded are out of date
+function present_album(array $album, array $session): array {
+    $album['photoCount'] = count($album['photos']);
+    $album['photosVersion'] = substr(sha1(json_encode($album['photos'])), 0, 16);
+    if ($session['role'] !== 'owner') {
+        unset($album['accessCode'], $album['downloadSizes']);
+    }
+    return $album;
+}
+
+// Owners also get each photo's Max file, which cinema mode loads when zooming past the gallery file
+function present_photos(string $albumId, array $photos, array $session): array {
+    if ($session['role'] !== 'owner' || !album_has_light_max($albumId)) {
+        return $photos;
+    }
+    $maxPath = ALBUMS_DIR . '/' . $albumId . '/max';
+    foreach ($photos as &$photo) {
+        $galleryFile = public_path_to_storage($photo['src']);
+        $maxFile = $galleryFile !== null ? find_max_counterpart($maxPath, basename($galleryFile)) : null;
+        if ($maxFile !== null) {
+            $photo['maxSrc'] = to_public_path($maxFile);
+        }
+    }
+    unset($photo);
+    return $photos;
+}
+
+function present_album_with_photos(array $album, array $session): array {
+    $presented = present_album($album, $session);
+    $presented['photos'] = present_photos($album['id'], $album['photos'], $session);
+    return $presented;
+}
+
+function present_album_summary(array $album, array $session): array {
+    $summary = present_album($album, $session);
+    unset($summary['photos']);
+    return $summary;
+}
+
+function generate_share_key(): string {
+    return base64url_encode(random_bytes(18));
+}
+
+function find_share_link(array $data, string $field, string $value): ?array {
+    foreach ($data['links'] ?? [] as $link) {
+        if (isset($link[$field]) && hash_equals((string) $link[$field], $value)) {
+            return $link;
+        }
+    }
+    return null;
+}
+
+function share_link_is_active(array $link): bool {
+    if (!empty($link['revokedAt'])) {
+        return false;
+    }
+    if (!empty($link['expiresAt']) && strtotime($link['expiresAt']) <= time()) {
+        return false;
+    }
+    return true;
+}
@@ -9,15 +9,90 @@ const ALLOWED_MIME_TYPES = [
     'image/gif',
 ];
 
+// Stored extension of a guest photo, decided by its content rather than its name
+const IMAGE_EXTENSIONS = [
+    'image/jpeg' => 'jpg',
+    'image/png' => 'png',
+    'image/webp' => 'webp',
+    'image/gif' => 'gif',
+];
+
 const THUMBNAIL_SIZE = 400;
 
+// Slideshow soundtracks, one per album: detected MIME type => stored extension.
+// finfo reports some M4A files as video/mp4
+const ALLOWED_AUDIO_TYPES = [
+    'audio/mpeg' => 'mp3',
+    'audio/mp4' => 'm4a',
+    'audio/x-m4a' => 'm4a',
+    'video/mp4' => 'm4a',
+    'audio/aac' => 'aac',
+    'audio/ogg' => 'ogg',
+    'audio/wav' => 'wav',
+    'audio/x-wav' => 'wav',
+];
+
+// Responsive copies of every gallery file, by long edge in px; sizes above the file's own are skipped.
+// AVIF and WebP are written when the GD build supports them, JPEG always
+const IMAGE_VARIANT_SIZES = [400, 800, 1600, 2560];
+
+// Long edge in px of the blurred preview sent inline with every photo, and its JPEG quality
+const PLACEHOLDER_SIZE = 24;
+const PLACEHOLDER_QUALITY = 60;
+
+// Album lists carry no photos; they are fetched per album, one page at a time
+const PHOTO_PAGE_SIZE = 60;
+const MAX_PHOTO_PAGE_SIZE = 200;
+
+// Client favourites and proofing lists, kept per viewer next to the albums
+const MAX_PROOFING_LISTS = 20;
+
+// Photo search answers with at most this many matches
+const MAX_SEARCH_RESULTS = 50;
+
+// Comments and reactions on photos; every viewer may give each reaction once per photo
+const MAX_COMMENT_LENGTH = 500;
+const PHOTO_REACTIONS = ['❤️', '😍', '😂', '😮', '👏', '🔥'];
+
+// Guest photos wait here for the owner; approved ones go to this album unless the owner picks another
+const CONTRIBUTIONS_ALBUM_NAME = 'Od gości';
+
+// What a ZIP download contains: web-sized files, full-size files or both folders
+const DOWNLOAD_VARIANTS = ['light', 'max', 'both'];
+
 const STORAGE_ROOT = __DIR__ . '/..';
 const UPLOADS_DIR = STORAGE_ROOT . '/uploads';
 const ALBUMS_DIR = UPLOADS_DIR . '/albums';
 const THUMBNAILS_DIR = UPLOADS_DIR . '/thumbnails';
+const VARIANTS_DIR = UPLOADS_DIR . '/variants';
+const AUDIO_DIR = UPLOADS_DIR . '/audio';
 const DATA_DIR = STORAGE_ROOT . '/data';
+// Guest photos stay outside the web root until approved; the owner sees them through the API
+const CONTRIBUTIONS_DIR = DATA_DIR . '/contributions';
 const DATA_FILE = DATA_DIR . '/albums.json';
 
+// Resumable uploads: files arrive in chunks and are kept here until committed to an album
+const UPLOAD_SESSIONS_DIR = DATA_DIR . '/upload-sessions';
+const MAX_UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB
+const UPLOAD_SESSION_TTL = 7 * 24 * 60 * 60; // 7 days since the last chunk
+
+const SESSION_TTL = 12 * 60 * 60; // 12h
+
+// Passwords and the token secret never live in the repo: set them as environment
+// variables or define the constants in config.local.php next to this file.
+if (file_exists(__DIR__ . '/config.local.php')) {
+    require __DIR__ . '/config.local.php';
+}
+if (!defined('OWNER_PASSWORD')) {
+    define('OWNER_PASSWORD', getenv('GALLERY_OWNER_PASSWORD') ?: '');
+}
+if (!defined('GUEST_PASSWORD')) {
+    define('GUEST_PASSWORD', getenv('GALLERY_GUEST_PASSWORD') ?: '');
+}
+if (!defined('AUTH_SECRET')) {
+    define('AUTH_SECRET', getenv('GALLERY_AUTH_SECRET') ?: '');
+}
+
 if (!is_dir(UPLOADS_DIR)) {
     mkdir(UPLOADS_DIR, 0775, true);
 }
@@ -27,9 +102,21 @@ if (!is_dir(ALBUMS_DIR)) {
 if (!is_dir(THUMBNAILS_DIR)) {
     mkdir(THUMBNAILS_DIR, 0775, true);
 }
+if (!is_dir(VARIANTS_DIR)) {
+    mkdir(VARIANTS_DIR, 0775, true);
+}
+if (!is_dir(AUDIO_DIR)) {
+    mkdir(AUDIO_DIR, 0775, true);
+}
 if (!is_dir(DATA_DIR)) {
     mkdir(DATA_DIR, 0775, true);
 }
+if (!is_dir(CONTRIBUTIONS_DIR)) {
+    mkdir(CONTRIBUTIONS_DIR, 0775, true);
+}
+if (!is_dir(UPLOAD_SESSIONS_DIR)) {
+    mkdir(UPLOAD_SESSIONS_DIR, 0775, true);
+}
 if (!file_exists(DATA_FILE)) {
     file_put_contents(DATA_FILE, json_encode(['albums' => []], JSON_PRETTY_PRINT | JSON_UNESCAPED_UNICODE));
 }
@@ -9,6 +9,24 @@ function send_json(int $status, array $payload): void {
     exit;
 }
 
+// Conditional GET: a client that sends back the ETag gets an empty 304 while nothing changed.
+// The tag hashes the exact body, so owners and scoped guests never share one
+function send_json_with_etag(array $payload): void {
+    $body = json_encode($payload, JSON_UNESCAPED_UNICODE | JSON_UNESCAPED_SLASHES);
+    $etag = '"' . sha1($body) . '"';
+    header('ETag: ' . $etag);
+    header('Cache-Control: private, no-cache');
+    $ifNoneMatch = $_SERVER['HTTP_IF_NONE_MATCH'] ?? '';
+    if ($ifNoneMatch !== '' && in_array($etag, array_map('trim', explode(',', $ifNoneMatch)), true)) {
+        http_response_code(304);
+        exit;
+    }
+    http_response_code(200);
+    header('Content-Type: application/json; charset=utf-8');
+    echo $body;
+    exit;
+}
+
 function send_error(int $status, string $message): void {
     send_json($status, ['error' => $message]);
 }
@@ -100,34 +118,159 @@ function collect_uploaded_files(string $field): array {
     return $files;
 }
 
+// Finished resumable uploads and approved guest photos are plain files on disk,
+// everything else came through $_FILES
+function store_uploaded_file(array $file, string $targetPath): bool {
+    if (isset($file['uploadId']) || isset($file['contributionId'])) {
+        return rename($file['tmp_name'], $targetPath);
+    }
+    return move_uploaded_file($file['tmp_name'], $targetPath);
+}
+
+function upload_session_path(string $uploadId, string $extension): string {
+    if (!preg_match('/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/', $uploadId)) {
+        throw new RuntimeException('Nieprawidłowy identyfikator uploadu');
+    }
+    return UPLOAD_SESSIONS_DIR . '/' . $uploadId . '.' . $extension;
+}
+
+// A session is a <id>.json descriptor plus the <id>.part file growing chunk by chunk;
+// the current offset is simply the size of the part file
+function read_upload_session(string $uploadId): ?array {
+    $metaPath = upload_session_path($uploadId, 'json');
+    $partPath = upload_session_path($uploadId, 'part');
+    if (!is_file($metaPath) || !is_file($partPath)) {
+        return null;
+    }
+    $session = json_decode((string) file_get_contents($metaPath), true);
+    if (!is_array($session)) {
+        return null;
+    }
+    clearstatcache(true, $partPath);
+    $session['offset'] = filesize($partPath);
+    return $session;
+}
+
+function write_upload_session(array $session): void {
+    unset($session['offset']);
+    file_put_contents(upload_session_path($session['id'], 'json'), json_encode($session, JSON_UNESCAPED_UNICODE));
+}
+
+function delete_upload_session(string $uploadId): void {
+    @unlink(upload_session_path($uploadId, 'json'));
+    @unlink(upload_session_path($uploadId, 'part'));
+}
+
+function purge_stale_upload_sessions(): void {
+    foreach (glob(UPLOAD_SESSIONS_DIR . '/*.json') ?: [] as $metaPath) {
+        if (filemtime($metaPath) < time() - UPLOAD_SESSION_TTL) {
+            delete_upload_session(basename($metaPath, '.json'));
+        }
+    }
+}
+
+function present_upload_session(array $session): array {
+    return [
+        'id' => $session['id'],
+        'name' => $session['name'],
+        'size' => $session['size'],
+        'offset' => $session['offset'],
+        'complete' => $session['offset'] >= $session['size'],
+    ];
+}
+
+// Owners may reach every session, everyone else only the contributions
+function read_accessible_upload_session(string $uploadId, array $auth): ?array {
+    $session = read_upload_session($uploadId);
+    if ($session === null || ($auth['role'] !== 'owner' && upload_session_kind($session) !== 'contribution')) {
+        return null;
+    }
+    return $session;
+}
+
+// Sessions opened before kinds existed came from the owner's uploader
+function upload_session_kind(array $session): string {
+    return $session['kind'] ?? 'album';
+}
+
+// Turn finished upload sessions of the given kind ('album' or 'contribution') into entries
+// shaped like collect_uploaded_files() output
+function collect_session_files(array $uploadIds, string $kind): array {
+    $files = [];
+    foreach ($uploadIds as $uploadId) {
+        $session = read_upload_session((string) $uploadId);
+        if ($session === null) {
+            throw new RuntimeException('Upload nie istnieje lub wygasł');
+        }
+        if (upload_session_kind($session) !== $kind) {
+            throw new RuntimeException(sprintf('Plik "%s" został przesłany do innego celu', $session['name']));
+        }
+        if ($session['offset'] < $session['size']) {
+            throw new RuntimeException(sprintf('Plik "%s" nie został przesłany w całości', $session['name']));
+        }
+        $files[] = [
+            'name' => $session['name'],
+            'type' => '',
+            'tmp_name' => upload_session_path($session['id'], 'part'),
+            'error' => UPLOAD_ERR_OK,
+            'size' => $session['size'],
+            'uploadId' => $session['id'],
+        ];
+    }
+    return $files;
+}
+
 function ensure_directory(string $path): void {
     if (!is_dir($path)) {
         mkdir($path, 0775, true);
     }
 }
 
-function create_thumbnail(string $sourcePath, string $albumId, string $thumbnailName): string {
+function delete_path(string $path): void {
+    if (!file_exists($path)) {
+        return;
+    }
+    if (is_file($path) || is_link($path)) {
+        @unlink($path);
+        return;
+    }
+    $items = new FilesystemIterator($path);
+    foreach ($items as $item) {
+        delete_path($item->getPathname());
+    }
+    @rmdir($path);
+}
+
+function open_gd_image(string $sourcePath) {
     $ext = strtolower(pathinfo($sourcePath, PATHINFO_EXTENSION));
     switch ($ext) {
         case 'jpg':
         case 'jpeg':
-            $image = imagecreatefromjpeg($sourcePath);
-            break;
+            return imagecreatefromjpeg($sourcePath);
         case 'png':
-            $image = imagecreatefrompng($sourcePath);
-            break;
+            return imagecreatefrompng($sourcePath);
         case 'webp':
             if (!function_exists('imagecreatefromwebp')) {
                 throw new RuntimeException('WebP not supported on server');
             }
-            $image = imagecreatefromwebp($sourcePath);
-            break;
+            return imagecreatefromwebp($sourcePath);
         case 'gif':
-            $image = imagecreatefromgif($sourcePath);
-            break;
+            return imagecreatefromgif($sourcePath);
         default:
             throw new RuntimeException('Unsupported image type for thumbnails');
     }
+}
+
+function create_thumbnail(string $sourcePath, string $albumId, string $thumbnailName): string {
+    $thumbDir = THUMBNAILS_DIR . '/' . $albumId;
+    ensure_directory($thumbDir);
+    $thumbPath = $thumbDir . '/' . pathinfo($thumbnailName, PATHINFO_FILENAME) . '.jpg';
+    write_thumbnail($sourcePath, $thumbPath);
+    return $thumbPath;
+}
+
+function write_thumbnail(string $sourcePath, string $thumbPath): void {
+    $image = open_gd_image($sourcePath);
     $width = imagesx($image);
     $height = imagesy($image);
     $targetSize = THUMBNAIL_SIZE;
@@ -140,13 +283,220 @@ function create_thumbnail(string $sourcePath, string $albumId, string $thumbnail
     $dstX = (int) floor(($targetSize - $newWidth) / 2);
     $dstY = (int) floor(($targetSize - $newHeight) / 2);
     imagecopyresampled($canvas, $image, $dstX, $dstY, 0, 0, $newWidth, $newHeight, $width, $height);
-    $thumbDir = THUMBNAILS_DIR . '/' . $albumId;
-    ensure_directory($thumbDir);
-    $thumbPath = $thumbDir . '/' . pathinfo($thumbnailName, PATHINFO_FILENAME) . '.jpg';
     imagejpeg($canvas, $thumbPath, 80);
     imagedestroy($canvas);
     imagedestroy($image);
-    return $thumbPath;
+}
+
+// GD drops EXIF, so the rotation browsers apply to the original has to be baked into its copies
+function apply_exif_orientation($image, int $orientation) {
+    if (in_array($orientation, [2, 4, 5, 7], true)) {
+        imageflip($image, IMG_FLIP_HORIZONTAL);
+    }
+    $angles = [3 => 180, 4 => 180, 5 => 270, 6 => 270, 7 => 90, 8 => 90];
+    if (isset($angles[$orientation])) {
+        $rotated = imagerotate($image, $angles[$orientation], 0);
+        imagedestroy($image);
+        return $rotated;
+    }
+    return $image;
+}
+
+function open_oriented_image(string $sourcePath) {
+    $exif = read_photo_exif($sourcePath);
+    return apply_exif_orientation(open_gd_image($sourcePath), (int) ($exif['orientation'] ?? 1));
+}
+
+function image_variant_formats(): array {
+    $formats = [];
+    if (function_exists('imageavif')) {
+        $formats[] = 'avif';
+    }
+    if (function_exists('imagewebp')) {
+        $formats[] = 'webp';
+    }
+    $formats[] = 'jpeg';
+    return $formats;
+}
+
+// Returns public paths as [format => [longEdge => path]], or null when the file is no larger than the smallest size
+// (an empty array would reach the client as [] rather than an object). Files are named after the photo id, because
+// stored names only stay unique within one folder and per extension (a.jpg and a.png would share "a")
+function create_image_variants(string $sourcePath, string $albumId, string $photoId): ?array {
+    $image = open_oriented_image($sourcePath);
+    $width = imagesx($image);
+    $height = imagesy($image);
+    $longEdge = max($width, $height);
+
+    $variantDir = VARIANTS_DIR . '/' . $albumId;
+    ensure_directory($variantDir);
+    $variants = [];
+    foreach (IMAGE_VARIANT_SIZES as $size) {
+        if ($size >= $longEdge) {
+            break;
+        }
+        $ratio = $size / $longEdge;
+        $newWidth = max(1, (int) round($width * $ratio));
+        $newHeight = max(1, (int) round($height * $ratio));
+        $canvas = imagecreatetruecolor($newWidth, $newHeight);
+        imagecopyresampled($canvas, $image, 0, 0, 0, 0, $newWidth, $newHeight, $width, $height);
+        foreach (image_variant_formats() as $format) {
+            $extension = $format === 'jpeg' ? 'jpg' : $format;
+            $path = $variantDir . '/' . $photoId . '-' . $size . '.' . $extension;
+            if ($format === 'avif') {
+                imageavif($canvas, $path, 55, 6);
+            } elseif ($format === 'webp') {
+                imagewebp($canvas, $path, 80);
+            } else {
+                imagejpeg($canvas, $path, 82);
+            }
+            $variants[$format][$size] = to_public_path($path);
+        }
+        imagedestroy($canvas);
+    }
+    imagedestroy($image);
+    return $variants ?: null;
+}
+
+// A few hundred bytes of JPEG as a data URI, shown blurred until the photo itself loads
+function create_photo_placeholder(string $sourcePath): string {
+    $image = open_oriented_image($sourcePath);
+    $width = imagesx($image);
+    $height = imagesy($image);
+    $ratio = PLACEHOLDER_SIZE / max($width, $height, PLACEHOLDER_SIZE);
+    $newWidth = max(1, (int) round($width * $ratio));
+    $newHeight = max(1, (int) round($height * $ratio));
+    $canvas = imagecreatetruecolor($newWidth, $newHeight);
+    imagecopyresampled($canvas, $image, 0, 0, 0, 0, $newWidth, $newHeight, $width, $height);
+    imagedestroy($image);
+
+    ob_start();
+    imagejpeg($canvas, null, PLACEHOLDER_QUALITY);
+    $jpeg = ob_get_clean();
+    imagedestroy($canvas);
+    return 'data:image/jpeg;base64,' . base64_encode($jpeg);
+}
+
+function delete_image_variants(array $photo): void {
+    foreach ($photo['variants'] ?? [] as $sizes) {
+        foreach ($sizes as $publicPath) {
+            $file = public_path_to_storage($publicPath);
+            if ($file !== null) {
+                @unlink($file);
+            }
+        }
+    }
+}
+
+// Stored extension for a soundtrack, decided by its content
+function detect_audio_extension(array $file): string {
+    if ($file['size'] > MAX_FILE_SIZE) {
+        throw new RuntimeException('Plik audio jest za duży');
+    }
+    $finfo = finfo_open(FILEINFO_MIME_TYPE);
+    $detected = $finfo ? finfo_file($finfo, $file['tmp_name']) : '';
+    if ($finfo) {
+        finfo_close($finfo);
+    }
+    if (!isset(ALLOWED_AUDIO_TYPES[$detected])) {
+        throw new RuntimeException('Nieobsługiwany format audio: ' . $detected);
+    }
+    return ALLOWED_AUDIO_TYPES[$detected];
+}
+
+function delete_album_audio(array $album): void {
+    if (empty($album['audioTrack']['src'])) {
+        return;
+    }
+    $file = public_path_to_storage($album['audioTrack']['src']);
+    if ($file !== null) {
+        @unlink($file);
+    }
+}
+
+function detect_image_extension(array $file): string {
+    $finfo = finfo_open(FILEINFO_MIME_TYPE);
+    $detected = $finfo ? finfo_file($finfo, $file['tmp_name']) : '';
+    if ($finfo) {
+        finfo_close($finfo);
+    }
+    if (!isset(IMAGE_EXTENSIONS[$detected])) {
+        throw new RuntimeException('Unsupported MIME type: ' . $detected);
+    }
+    return IMAGE_EXTENSIONS[$detected];
+}
+
+// A guest photo waits for moderation in its own folder outside the web root, with a thumbnail
+// for the owner's queue. Nothing is left behind when the photo cannot be read
+function store_contribution(array $file, string $contributorName): array {
+    $id = generate_uuid();
+    [, $originalName] = parse_upload_path($file['name']);
+    $fileName = 'photo.' . detect_image_extension($file);
+    $dir = CONTRIBUTIONS_DIR . '/' . $id;
+    ensure_directory($dir);
+    $targetPath = $dir . '/' . $fileName;
+    try {
+        if (!store_uploaded_file($file, $targetPath)) {
+            throw new RuntimeException('Nie można zapisać zdjęcia');
+        }
+        write_thumbnail($targetPath, $dir . '/thumbnail.jpg');
+        list($width, $height) = get_image_dimensions($targetPath);
+    } catch (Throwable $e) {
+        delete_path($dir);
+        throw $e;
+    }
+    return [
+        'id' => $id,
+        'fileName' => $fileName,
+        'originalFilename' => $originalName,
+        'contributorName' => $contributorName,
+        'width' => $width,
+        'height' => $height,
+        'submittedAt' => gmdate('c'),
+    ];
+}
+
+function contribution_path(array $contribution, string $kind): string {
+    $dir = CONTRIBUTIONS_DIR . '/' . $contribution['id'];
+    return $dir . '/' . ($kind === 'thumbnail' ? 'thumbnail.jpg' : $contribution['fileName']);
+}
+
+// The queue entry as the owner's panel gets it: the files are only reachable through the API
+function present_contribution(array $contribution): array {
+    $base = '/api/contributions/' . $contribution['id'];
+    $presented = $contribution;
+    unset($presented['fileName']);
+    $presented['src'] = $base . '/photo';
+    $presented['thumbnail'] = $base . '/thumbnail';
+    return $presented;
+}
+
+// The photo as upload entries for ingest_files_into_album. Light/max albums take the
+// guest's file as both versions, so it gets a second copy for the max folder
+function contribution_files(array $contribution, array $album): array {
+    $path = contribution_path($contribution, 'photo');
+    if (!is_file($path)) {
+        throw new RuntimeException(sprintf('Brak pliku zdjęcia "%s"', $contribution['originalFilename']));
+    }
+    $file = [
+        'name' => $contribution['originalFilename'],
+        'type' => '',
+        'tmp_name' => $path,
+        'error' => UPLOAD_ERR_OK,
+        'size' => (int) filesize($path),
+        'contributionId' => $contribution['id'],
+    ];
+    if (empty($album['hasLightMax'])) {
+        return [$file];
+    }
+    $maxCopy = dirname($path) . '/max-' . basename($path);
+    if (!copy($path, $maxCopy)) {
+        throw new RuntimeException('Nie można skopiować zdjęcia');
+    }
+    return [
+        array_merge($file, ['name' => 'light/' . $contribution['originalFilename']]),
+        array_merge($file, ['name' => 'max/' . $contribution['originalFilename'], 'tmp_name' => $maxCopy]),
+    ];
 }
 
 function get_image_dimensions(string $path): array {
@@ -193,6 +543,247 @@ function to_public_path(string $path): string {
     return $normalized[0] === '/' ? $normalized : '/' . ltrim($normalized, '/');
 }
 
+function folder_size(string $folderPath): int {
+    if (!is_dir($folderPath)) {
+        return 0;
+    }
+    $size = 0;
+    $iterator = new RecursiveIteratorIterator(
+        new RecursiveDirectoryIterator($folderPath, RecursiveDirectoryIterator::SKIP_DOTS)
+    );
+    foreach ($iterator as $file) {
+        /** @var SplFileInfo $file */
+        if ($file->isFile()) {
+            $size += $file->getSize();
+        }
+    }
+    return $size;
+}
+
+// Every stored file of an album (root, light and max), so the uploader can skip what is already there
+function list_album_files(string $albumId): array {
+    $albumPath = ALBUMS_DIR . '/' . $albumId;
+    $files = [];
+    foreach (['', '/light', '/max'] as $folder) {
+        foreach (glob($albumPath . $folder . '/*') ?: [] as $path) {
+            if (is_file($path)) {
+                $files[] = ['name' => basename($path), 'size' => filesize($path)];
+            }
+        }
+    }
+    return $files;
+}
+
+function album_has_light_max(string $albumId): bool {
+    $albumPath = ALBUMS_DIR . '/' . $albumId;
+    return is_dir($albumPath . '/light') && is_dir($albumPath . '/max');
+}
+
+function read_download_variant($value): string {
+    $variant = is_string($value) ? strtolower(trim($value)) : '';
+    if ($variant === '') {
+        return 'both';
+    }
+    if (!in_array($variant, DOWNLOAD_VARIANTS, true)) {
+        throw new RuntimeException('Nieznany wariant pobierania: ' . $variant);
+    }
+    return $variant;
+}
+
+// Twins share a name; the extension may differ when the light copy was generated as WebP
+function find_max_counterpart(string $maxPath, string $lightFilename): ?string {
+    if (is_file($maxPath . '/' . $lightFilename)) {
+        return $maxPath . '/' . $lightFilename;
+    }
+    $stem = pathinfo($lightFilename, PATHINFO_FILENAME);
+    foreach (glob($maxPath . '/*') ?: [] as $candidate) {
+        if (is_file($candidate) && pathinfo($candidate, PATHINFO_FILENAME) === $stem) {
+            return $candidate;
+        }
+    }
+    return null;
+}
+
+// EXIF stores most numbers as "num/den" strings
+function exif_number($value): ?float {
+    if (is_array($value)) {
+        $value = reset($value);
+    }
+    if (is_int($value) || is_float($value) || (is_string($value) && is_numeric($value))) {
+        return (float) $value;
+    }
+    if (is_string($value) && preg_match('#^(-?\d+)/(\d+)$#', trim($value), $matches) && (int) $matches[2] !== 0) {
+        return (int) $matches[1] / (int) $matches[2];
+    }
+    return null;
+}
+
+// Camera strings are not guaranteed to be UTF-8 and would break json_encode
+function exif_text($value): ?string {
+    if (!is_string($value)) {
+        return null;
+    }
+    $text = trim(str_replace("\0", '', $value));
+    if ($text !== '' && !preg_match('//u', $text)) {
+        $text = function_exists('mb_convert_encoding') ? mb_convert_encoding($text, 'UTF-8', 'ISO-8859-1') : '';
+    }
+    return $text === '' ? null : $text;
+}
+
+// Capture details from EXIF; tags missing in the file are left out of the result
+function read_photo_exif(string $path): array {
+    if (!function_exists('exif_read_data')) {
+        return [];
+    }
+    $exif = @exif_read_data($path);
+    if (!is_array($exif)) {
+        return [];
+    }
+
+    $meta = [];
+    $taken = exif_text($exif['DateTimeOriginal'] ?? $exif['DateTimeDigitized'] ?? $exif['DateTime'] ?? null);
+    if ($taken !== null && preg_match('/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/', $taken, $m) && $m[1] !== '0000') {
+        $meta['takenAt'] = sprintf('%s-%s-%sT%s:%s:%s', $m[1], $m[2], $m[3], $m[4], $m[5], $m[6]);
+        $offset = exif_text($exif['OffsetTimeOriginal'] ?? null);
+        if ($offset !== null && preg_match('/^[+-]\d{2}:\d{2}$/', $offset)) {
+            $meta['takenAt'] .= $offset;
+        }
+    }
+
+    // Most makers repeat the brand in the model name ("Canon" + "Canon EOS R6")
+    $make = exif_text($exif['Make'] ?? null);
+    $model = exif_text($exif['Model'] ?? null);
+    if ($model !== null) {
+        $meta['camera'] = ($make !== null && stripos($model, $make) !== 0) ? $make . ' ' . $model : $model;
+    } elseif ($make !== null) {
+        $meta['camera'] = $make;
+    }
+    $lens = exif_text($exif['UndefinedTag:0xA434'] ?? $exif['LensModel'] ?? null);
+    if ($lens !== null) {
+        $meta['lens'] = $lens;
+    }
+
+    $exposure = [];
+    $aperture = exif_number($exif['FNumber'] ?? null);
+    if ($aperture) {
+        $exposure['aperture'] = round($aperture, 1);
+    }
+    $exposureTime = exif_number($exif['ExposureTime'] ?? null);
+    if ($exposureTime) {
+        $exposure['exposureTime'] = $exposureTime;
+    }
+    $iso = exif_number($exif['ISOSpeedRatings'] ?? $exif['PhotographicSensitivity'] ?? null);
+    if ($iso) {
+        $exposure['iso'] = (int) $iso;
+    }
+    $focalLength = exif_number($exif['FocalLength'] ?? null);
+    if ($focalLength) {
+        $exposure['focalLength'] = round($focalLength, 1);
+    }
+    if ($exposure) {
+        $meta['exposure'] = $exposure;
+    }
+
+    $orientation = (int) ($exif['Orientation'] ?? 0);
+    if ($orientation >= 1 && $orientation <= 8) {
+        $meta['orientation'] = $orientation;
+    }
+    return $meta;
+}
+
+// The gallery's capture-time order, the same as sortPhotosByTakenAt in the browser: dated photos
+// by time, photos without a date after them, ties and undated ones in album order
+function sort_photos_by_taken_at(array $photos): array {
+    $entries = [];
+    foreach (array_values($photos) as $index => $photo) {
+        $time = isset($photo['takenAt']) ? strtotime((string) $photo['takenAt']) : false;
+        $entries[] = ['photo' => $photo, 'index' => $index, 'time' => $time === false ? null : $time];
+    }
+    usort($entries, function (array $a, array $b): int {
+        if ($a['time'] === null || $b['time'] === null) {
+            if ($a['time'] !== $b['time']) {
+                return $a['time'] === null ? 1 : -1;
+            }
+            return $a['index'] <=> $b['index'];
+        }
+        return ($a['time'] <=> $b['time']) ?: ($a['index'] <=> $b['index']);
+    });
+    return array_column($entries, 'photo');
+}
+
+// Light files made in the browser carry no EXIF, so the Max original takes precedence.
+// Width and height are the displayed ones: the gallery file's own orientation decides the swap.
+function describe_photo(string $galleryPath, ?string $maxFile, string $originalName): array {
+    $galleryExif = read_photo_exif($galleryPath);
+    list($width, $height) = get_image_dimensions($galleryPath);
+    if (($galleryExif['orientation'] ?? 1) >= 5) {
+        list($width, $height) = [$height, $width];
+    }
+    $meta = [
+        'width' => $width,
+        'height' => $height,
+        'originalFilename' => $originalName,
+    ];
+    $maxExif = $maxFile !== null ? read_photo_exif($maxFile) : [];
+    $meta = array_merge($meta, $galleryExif, $maxExif);
+    $meta['fileSize'] = ['light' => (int) filesize($galleryPath)];
+    if ($maxFile !== null) {
+        $meta['fileSize']['max'] = (int) filesize($maxFile);
+    }
+    return $meta;
+}
+
+function light_folder_name(array $album): string {
+    return 'Lena ' . $album['name'] . ' - Light - do dzielenia się w internecie';
+}
+
+function max_folder_name(array $album): string {
+    return 'Lena ' . $album['name'] . ' - Max - do profesjonalnych wydruków';
+}
+
+// Flat albums have a single set of files, so the variant does not apply to them
+function add_album_to_zip(ZipArchive $zip, array $album, string $variant): void {
+    $albumPath = ALBUMS_DIR . '/' . $album['id'];
+    if (album_has_light_max($album['id'])) {
+        if ($variant !== 'max') {
+            add_folder_to_zip($zip, $albumPath . '/light', light_folder_name($album));
+        }
+        if ($variant !== 'light') {
+            add_folder_to_zip($zip, $albumPath . '/max', max_folder_name($album));
+        }
+    } else {
+        add_folder_to_zip($zip, $albumPath, 'Lena ' . $album['name']);
+    }
+}
+
+// Estimated ZIP payload per variant (before compression, which barely shrinks JPEGs). Walking the
+// folders is slow for big albums, so this runs when files are added or deleted and the result is
+// stored on the album as downloadSizes
+function album_download_sizes(array $album): array {
+    $albumPath = ALBUMS_DIR . '/' . $album['id'];
+    if (!album_has_light_max($album['id'])) {
+        $size = folder_size($albumPath);
+        return ['light' => $size, 'max' => $size, 'both' => $size];
+    }
+    $light = folder_size($albumPath . '/light');
+    $max = folder_size($albumPath . '/max');
+    return ['light' => $light, 'max' => $max, 'both' => $light + $max];
+}
+
+// Map a public /uploads/... path back to a file inside STORAGE_ROOT (null if it escapes or is missing)
+function public_path_to_storage(string $publicPath): ?string {
+    $relative = rawurldecode(parse_url($publicPath, PHP_URL_PATH) ?: '');
+    if (strpos($relative, '/uploads/') !== 0) {
+        return null;
+    }
+    $absolute = realpath(STORAGE_ROOT . $relative);
+    $root = realpath(UPLOADS_DIR);
+    if ($absolute === false || $root === false || strpos($absolute, $root . DIRECTORY_SEPARATOR) !== 0) {
+        return null;
+    }
+    return is_file($absolute) ? $absolute : null;
+}
+
 function stream_zip(string $zipFilename, callable $builder): void {
     $tmp = tempnam(sys_get_temp_dir(), 'zip');
     $zip = new ZipArchive();
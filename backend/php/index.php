@@ -1,12 +1,14 @@
 <?php
 
 require_once __DIR__ . '/helpers.php';
+require_once __DIR__ . '/auth.php';
 
 $origin = $_SERVER['HTTP_ORIGIN'] ?? '*';
 header('Access-Control-Allow-Origin: ' . $origin);
 header('Access-Control-Allow-Credentials: true');
-header('Access-Control-Allow-Methods: GET, POST, PUT, DELETE, OPTIONS');
-header('Access-Control-Allow-Headers: Origin, X-Requested-With, Content-Type, Accept, Authorization');
+header('Access-Control-Allow-Methods: GET, POST, PUT, PATCH, DELETE, OPTIONS');
+header('Access-Control-Allow-Headers: Origin, X-Requested-With, Content-Type, Accept, Authorization, Upload-Offset, If-None-Match, X-Viewer-Key');
+header('Access-Control-Expose-Headers: ETag');
 
 if ($_SERVER['REQUEST_METHOD'] === 'OPTIONS') {
     http_response_code(204);
@@ -45,6 +47,42 @@ try {
         ]);
     }
 
+    if ($method === 'POST' && count($segments) === 3 && $segments[1] === 'auth' && $segments[2] === 'login') {
+        handle_login();
+    }
+
+    if ($method === 'POST' && count($segments) === 3 && $segments[1] === 'auth' && $segments[2] === 'link') {
+        handle_redeem_link();
+    }
+
+    if ($method === 'GET' && count($segments) === 2 && $segments[1] === 'links') {
+        handle_list_links();
+    }
+
+    if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'links') {
+        handle_create_link();
+    }
+
+    if ($method === 'DELETE' && count($segments) === 3 && $segments[1] === 'links') {
+        handle_revoke_link($segments[2]);
+    }
+
+    if ($method === 'GET' && count($segments) === 2 && $segments[1] === 'selections') {
+        handle_list_selections();
+    }
+
+    if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'viewers') {
+        handle_create_viewer();
+    }
+
+    if ($method === 'GET' && count($segments) === 3 && $segments[1] === 'selections' && $segments[2] === 'me') {
+        handle_get_selections();
+    }
+
+    if ($method === 'PUT' && count($segments) === 3 && $segments[1] === 'selections' && $segments[2] === 'me') {
+        handle_save_selections();
+    }
+
     if ($method === 'GET' && count($segments) === 2 && $segments[1] === 'albums') {
         handle_list_albums();
     }
@@ -53,14 +91,26 @@ try {
         handle_get_album($segments[2]);
     }
 
+    if ($method === 'GET' && count($segments) === 3 && $segments[1] === 'search' && $segments[2] === 'photos') {
+        handle_search_photos();
+    }
+
     if ($method === 'GET' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'download') {
         handle_album_zip($segments[2]);
     }
 
+    if ($method === 'GET' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'files') {
+        handle_album_files($segments[2]);
+    }
+
     if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'download-multiple') {
         handle_multi_download();
     }
 
+    if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'download-photos') {
+        handle_photos_download();
+    }
+
     if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'albums') {
         handle_create_album();
     }
@@ -73,10 +123,86 @@ try {
         handle_delete_album($segments[2]);
     }
 
+    if ($method === 'DELETE' && count($segments) === 5 && $segments[1] === 'albums' && $segments[3] === 'photos') {
+        handle_delete_photo($segments[2], $segments[4]);
+    }
+
+    if ($method === 'PUT' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'audio') {
+        handle_set_album_audio($segments[2]);
+    }
+
+    if ($method === 'DELETE' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'audio') {
+        handle_delete_album_audio($segments[2]);
+    }
+
+    if ($method === 'GET' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'photos') {
+        handle_list_album_photos($segments[2]);
+    }
+
     if ($method === 'POST' && count($segments) === 4 && $segments[1] === 'albums' && $segments[3] === 'photos') {
         handle_append_photos($segments[2]);
     }
 
+    if ($method === 'GET' && count($segments) === 6 && $segments[1] === 'albums' && $segments[3] === 'photos' && $segments[5] === 'feedback') {
+        handle_get_photo_feedback($segments[2], $segments[4]);
+    }
+
+    if ($method === 'POST' && count($segments) === 6 && $segments[1] === 'albums' && $segments[3] === 'photos' && $segments[5] === 'comments') {
+        handle_add_comment($segments[2], $segments[4]);
+    }
+
+    if ($method === 'POST' && count($segments) === 6 && $segments[1] === 'albums' && $segments[3] === 'photos' && $segments[5] === 'reactions') {
+        handle_toggle_reaction($segments[2], $segments[4]);
+    }
+
+    if ($method === 'GET' && count($segments) === 2 && $segments[1] === 'comments') {
+        handle_list_comments();
+    }
+
+    if ($method === 'PUT' && count($segments) === 3 && $segments[1] === 'comments') {
+        handle_update_comment($segments[2]);
+    }
+
+    if ($method === 'DELETE' && count($segments) === 3 && $segments[1] === 'comments') {
+        handle_delete_comment($segments[2]);
+    }
+
+    if ($method === 'GET' && count($segments) === 2 && $segments[1] === 'contributions') {
+        handle_list_contributions();
+    }
+
+    if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'contributions') {
+        handle_submit_contributions();
+    }
+
+    if ($method === 'GET' && count($segments) === 4 && $segments[1] === 'contributions' && in_array($segments[3], ['photo', 'thumbnail'], true)) {
+        handle_contribution_file($segments[2], $segments[3]);
+    }
+
+    if ($method === 'POST' && count($segments) === 3 && $segments[1] === 'contributions' && $segments[2] === 'approve') {
+        handle_approve_contributions();
+    }
+
+    if ($method === 'DELETE' && count($segments) === 3 && $segments[1] === 'contributions') {
+        handle_reject_contribution($segments[2]);
+    }
+
+    if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'uploads') {
+        handle_create_upload();
+    }
+
+    if ($method === 'GET' && count($segments) === 3 && $segments[1] === 'uploads') {
+        handle_get_upload($segments[2]);
+    }
+
+    if ($method === 'PATCH' && count($segments) === 3 && $segments[1] === 'uploads') {
+        handle_upload_chunk($segments[2]);
+    }
+
+    if ($method === 'DELETE' && count($segments) === 3 && $segments[1] === 'uploads') {
+        handle_cancel_upload($segments[2]);
+    }
+
     if ($method === 'POST' && count($segments) === 2 && $segments[1] === 'upload') {
         handle_bulk_upload();
     }
@@ -101,22 +227,282 @@ function handle_health(): void {
     ]);
 }
 
+function handle_login(): void {
+    $payload = read_json_body();
+    $password = isset($payload['password']) ? (string) $payload['password'] : '';
+
+    $role = null;
+    if (OWNER_PASSWORD !== '' && hash_equals(OWNER_PASSWORD, $password)) {
+        $role = 'owner';
+    } elseif (GUEST_PASSWORD !== '' && hash_equals(GUEST_PASSWORD, $password)) {
+        $role = 'guest';
+    }
+
+    if ($role !== null) {
+        send_json(200, issue_session_token($role));
+    }
+
+    // Album access codes open only the albums that carry them
+    $albumIds = [];
+    if ($password !== '') {
+        foreach (read_albums_data()['albums'] as $album) {
+            $code = (string) ($album['accessCode'] ?? '');
+            if ($code !== '' && hash_equals($code, $password)) {
+                $albumIds[] = $album['id'];
+            }
+        }
+    }
+    if (!empty($albumIds)) {
+        send_json(200, issue_session_token('guest', $albumIds));
+    }
+
+    // Slow down password guessing a little
+    usleep(500000);
+    send_error(401, 'Nieprawidłowe hasło');
+}
+
+function handle_redeem_link(): void {
+    $payload = read_json_body();
+    $key = isset($payload['key']) ? trim((string) $payload['key']) : '';
+    if ($key === '') {
+        send_error(400, 'Brak klucza linku');
+    }
+
+    $link = find_share_link(read_albums_data(), 'key', $key);
+    if ($link === null || !share_link_is_active($link)) {
+        usleep(500000);
+        send_error(410, 'Link wygasł lub został odwołany');
+    }
+
+    $notAfter = !empty($link['expiresAt']) ? strtotime($link['expiresAt']) : null;
+    send_json(200, issue_session_token('guest', $link['albumIds'], $link['id'], $notAfter));
+}
+
+function handle_list_links(): void {
+    require_role('owner');
+    $data = read_albums_data();
+    send_json(200, $data['links'] ?? []);
+}
+
+function handle_create_link(): void {
+    require_role('owner');
+    $payload = read_json_body();
+    $albumIds = isset($payload['albumIds']) && is_array($payload['albumIds']) ? array_values(array_unique(array_map('strval', $payload['albumIds']))) : [];
+    $label = isset($payload['label']) ? trim((string) $payload['label']) : '';
+    $expiresAt = null;
+    if (!empty($payload['expiresAt'])) {
+        $timestamp = strtotime((string) $payload['expiresAt']);
+        if ($timestamp === false || $timestamp <= time()) {
+            send_error(400, 'Nieprawidłowa data wygaśnięcia');
+        }
+        $expiresAt = gmdate('c', $timestamp);
+    }
+
+    $data = read_albums_data();
+    $knownIds = array_column($data['albums'], 'id');
+    $albumIds = array_values(array_intersect($albumIds, $knownIds));
+    if (empty($albumIds)) {
+        send_error(400, 'Wybierz co najmniej jeden album');
+    }
+
+    $link = [
+        'id' => generate_uuid(),
+        'key' => generate_share_key(),
+        'label' => $label,
+        'albumIds' => $albumIds,
+        'createdAt' => gmdate('c'),
+        'expiresAt' => $expiresAt,
+        'revokedAt' => null,
+    ];
+
+    $data['links'] = $data['links'] ?? [];
+    $data['links'][] = $link;
+    write_albums_data($data);
+
+    send_json(201, $link);
+}
+
+function handle_revoke_link(string $linkId): void {
+    require_role('owner');
+    $data = read_albums_data();
+    foreach ($data['links'] ?? [] as $index => $link) {
+        if ($link['id'] === $linkId) {
+            if (empty($link['revokedAt'])) {
+                $data['links'][$index]['revokedAt'] = gmdate('c');
+                write_albums_data($data);
+            }
+            send_json(200, $data['links'][$index]);
+        }
+    }
+    send_error(404, 'Link nie znaleziony');
+}
+
+function handle_list_selections(): void {
+    require_role('owner');
+    $data = read_albums_data();
+    $clients = [];
+    foreach ($data['selections'] ?? [] as $selections) {
+        $clients[] = present_client_selections($selections, $data['albums']);
+    }
+    send_json(200, $clients);
+}
+
+// A browser asks for its viewer key once and keeps it (see issue_viewer_key)
+function handle_create_viewer(): void {
+    require_session();
+    send_json(201, issue_viewer_key());
+}
+
+function handle_get_selections(): void {
+    $session = require_session();
+    $viewerId = require_viewer_id();
+    $selections = find_viewer_selections(read_albums_data(), $viewerId);
+    send_json(200, present_viewer_selections($selections ?? empty_viewer_selections($viewerId), $session));
+}
+
+// The viewer sends all their favourites and lists at once; list ids come from the browser too
+function handle_save_selections(): void {
+    $session = require_session();
+    $viewerId = require_viewer_id();
+    $payload = read_json_body();
+    $viewerName = isset($payload['viewerName']) ? trim((string) $payload['viewerName']) : '';
+    if ($viewerName === '') {
+        send_error(400, 'Podaj swoje imię');
+    }
+    $lists = isset($payload['lists']) && is_array($payload['lists']) ? array_values($payload['lists']) : [];
+    if (count($lists) > MAX_PROOFING_LISTS) {
+        send_error(400, 'Można utworzyć najwyżej ' . MAX_PROOFING_LISTS . ' list');
+    }
+
+    $data = read_albums_data();
+    $previous = find_viewer_selections($data, $viewerId) ?? empty_viewer_selections($viewerId);
+    $previousLists = array_column($previous['lists'], null, 'id');
+    $visiblePhotos = visible_photo_ids($data['albums'], $session);
+
+    $selections = [
+        'viewerId' => $viewerId,
+        'viewerName' => $viewerName,
+        'favorites' => merge_photo_refs($previous['favorites'], $payload['favorites'] ?? [], $visiblePhotos, $session),
+        'lists' => [],
+        'updatedAt' => gmdate('c'),
+    ];
+    foreach ($lists as $list) {
+        $id = is_array($list) && isset($list['id']) ? (string) $list['id'] : '';
+        $name = is_array($list) && isset($list['name']) ? trim((string) $list['name']) : '';
+        if (!preg_match('/^[A-Za-z0-9-]{1,64}$/', $id) || $name === '') {
+            send_error(400, 'Nieprawidłowa lista');
+        }
+        $selections['lists'][] = [
+            'id' => $id,
+            'name' => $name,
+            'photos' => merge_photo_refs($previousLists[$id]['photos'] ?? [], $list['photos'] ?? [], $visiblePhotos, $session),
+        ];
+    }
+
+    $data['selections'] = array_values(array_filter($data['selections'] ?? [], function (array $item) use ($viewerId) {
+        return $item['viewerId'] !== $viewerId;
+    }));
+    $data['selections'][] = $selections;
+    write_albums_data($data);
+
+    send_json(200, present_viewer_selections($selections, $session));
+}
+
 function handle_list_albums(): void {
+    $session = require_session();
     $data = read_albums_data();
-    send_json(200, $data['albums']);
+    $albums = [];
+    foreach ($data['albums'] as $album) {
+        if (session_can_view_album($session, $album['id'])) {
+            $albums[] = present_album_summary($album, $session);
+        }
+    }
+    send_json_with_etag($albums);
+}
+
+// The cursor is the offset of the next photo; clients treat it as opaque
+function handle_list_album_photos(string $albumId): void {
+    $session = require_session();
+    $cursor = (string) ($_GET['cursor'] ?? '0');
+    if (!ctype_digit($cursor)) {
+        send_error(400, 'Nieprawidłowy kursor');
+    }
+    $limit = isset($_GET['limit']) ? (int) $_GET['limit'] : PHOTO_PAGE_SIZE;
+    $limit = max(1, min($limit, MAX_PHOTO_PAGE_SIZE));
+    $sort = (string) ($_GET['sort'] ?? 'album');
+    if ($sort !== 'album' && $sort !== 'takenAt') {
+        send_error(400, 'Nieprawidłowe sortowanie');
+    }
+
+    $data = read_albums_data();
+    foreach ($data['albums'] as $album) {
+        if ($album['id'] === $albumId && session_can_view_album($session, $albumId)) {
+            $photos = $sort === 'takenAt' ? sort_photos_by_taken_at($album['photos']) : $album['photos'];
+            $offset = (int) $cursor;
+            $total = count($photos);
+            $next = $offset + $limit;
+            send_json_with_etag([
+                'photos' => present_photos($albumId, array_slice($photos, $offset, $limit), $session),
+                'nextCursor' => $next < $total ? (string) $next : null,
+                'total' => $total,
+            ]);
+        }
+    }
+    send_error(404, 'Album nie znaleziony');
 }
 
 function handle_get_album(string $albumId): void {
+    $session = require_session();
     $data = read_albums_data();
     foreach ($data['albums'] as $album) {
-        if ($album['id'] === $albumId) {
-            send_json(200, $album);
+        if ($album['id'] === $albumId && session_can_view_album($session, $albumId)) {
+            send_json(200, present_album_with_photos($album, $session));
         }
     }
     send_error(404, 'Album nie znaleziony');
 }
 
+// Photos by file name and title across the albums the session may see, so the search palette
+// does not have to load every photo page; albums are searched in the browser from their summaries
+function handle_search_photos(): void {
+    $session = require_session();
+    $tokens = preg_split('/\s+/', normalize_search_text((string) ($_GET['q'] ?? '')), -1, PREG_SPLIT_NO_EMPTY);
+    if (empty($tokens)) {
+        send_json(200, []);
+    }
+
+    $data = read_albums_data();
+    $results = [];
+    foreach ($data['albums'] as $album) {
+        if (!session_can_view_album($session, $album['id'])) {
+            continue;
+        }
+        foreach ($album['photos'] as $photo) {
+            $fileName = $photo['originalFilename'] ?? basename($photo['src']);
+            $texts = [normalize_search_text($fileName), normalize_search_text((string) ($photo['title'] ?? ''))];
+            foreach ($tokens as $token) {
+                if (!search_token_matches($token, $texts[0]) && !search_token_matches($token, $texts[1])) {
+                    continue 2;
+                }
+            }
+            $results[] = [
+                'albumId' => $album['id'],
+                'albumName' => $album['name'],
+                'photoId' => $photo['id'],
+                'title' => $photo['title'] ?? '',
+                'fileName' => $fileName,
+                'thumbnail' => $photo['thumbnail'] ?? $photo['src'],
+            ];
+            if (count($results) >= MAX_SEARCH_RESULTS) {
+                send_json(200, $results);
+            }
+        }
+    }
+    send_json(200, $results);
+}
+
 function handle_create_album(): void {
+    require_role('owner');
     $payload = read_json_body();
     $name = isset($payload['name']) ? trim($payload['name']) : '';
     if ($name === '') {
@@ -140,6 +526,7 @@ function handle_create_album(): void {
         'createdAt' => $now,
         'updatedAt' => $now,
     ];
+    apply_album_details($album, $payload);
 
     $data['albums'][] = $album;
     write_albums_data($data);
@@ -148,6 +535,7 @@ function handle_create_album(): void {
 }
 
 function handle_update_album(string $albumId): void {
+    $session = require_role('owner');
     $payload = read_json_body();
     $name = isset($payload['name']) ? trim($payload['name']) : '';
 
@@ -160,13 +548,94 @@ function handle_update_album(string $albumId): void {
     if ($name !== '') {
         $data['albums'][$index]['name'] = $name;
     }
+    if (array_key_exists('accessCode', $payload)) {
+        $accessCode = trim((string) $payload['accessCode']);
+        if ($accessCode !== '' && (hash_equals(OWNER_PASSWORD, $accessCode) || hash_equals(GUEST_PASSWORD, $accessCode))) {
+            send_error(400, 'Kod dostępu nie może być hasłem galerii');
+        }
+        if ($accessCode === '') {
+            unset($data['albums'][$index]['accessCode']);
+        } else {
+            $data['albums'][$index]['accessCode'] = $accessCode;
+        }
+    }
+    if (array_key_exists('coverPhotoId', $payload)) {
+        $coverIndex = find_photo_index($data['albums'][$index]['photos'], (string) $payload['coverPhotoId']);
+        if ($coverIndex === -1) {
+            send_error(400, 'Zdjęcie okładki nie należy do albumu');
+        }
+        $cover = $data['albums'][$index]['photos'][$coverIndex];
+        $data['albums'][$index]['thumbnail'] = $cover['thumbnail'] ?? $cover['src'];
+    }
+    if (isset($payload['photoOrder']) && is_array($payload['photoOrder'])) {
+        $data['albums'][$index]['photos'] = reorder_photos($data['albums'][$index]['photos'], $payload['photoOrder']);
+    }
+    apply_album_details($data['albums'][$index], $payload);
     $data['albums'][$index]['updatedAt'] = gmdate('c');
     write_albums_data($data);
 
-    send_json(200, $data['albums'][$index]);
+    send_json(200, present_album_with_photos($data['albums'][$index], $session));
+}
+
+// The soundtrack arrives through an upload session like photos do, so large files resume too
+function handle_set_album_audio(string $albumId): void {
+    $session = require_role('owner');
+    $payload = read_json_body();
+    $uploadId = isset($payload['uploadId']) ? (string) $payload['uploadId'] : '';
+    if ($uploadId === '') {
+        send_error(400, 'Brak pliku audio');
+    }
+
+    $data = read_albums_data();
+    $index = find_album_index($data['albums'], $albumId);
+    if ($index === -1) {
+        send_error(404, 'Album nie znaleziony');
+    }
+
+    $files = collect_session_files([$uploadId], 'album');
+    $file = $files[0];
+    $extension = detect_audio_extension($file);
+    [, $originalName] = parse_upload_path($file['name']);
+    $audioDir = AUDIO_DIR . '/' . $albumId;
+    ensure_directory($audioDir);
+    // A fresh name per upload, so browsers never play a cached earlier track
+    $targetPath = $audioDir . '/' . generate_uuid() . '.' . $extension;
+    if (!store_uploaded_file($file, $targetPath)) {
+        throw new RuntimeException('Nie można zapisać pliku audio');
+    }
+    finish_upload_sessions($files);
+
+    $album =& $data['albums'][$index];
+    delete_album_audio($album);
+    $album['audioTrack'] = [
+        'src' => to_public_path($targetPath),
+        'name' => $originalName,
+    ];
+    $album['updatedAt'] = gmdate('c');
+    write_albums_data($data);
+
+    send_json(200, present_album_with_photos($album, $session));
+}
+
+function handle_delete_album_audio(string $albumId): void {
+    $session = require_role('owner');
+    $data = read_albums_data();
+    $index = find_album_index($data['albums'], $albumId);
+    if ($index === -1) {
+        send_error(404, 'Album nie znaleziony');
+    }
+
+    $album =& $data['albums'][$index];
+    delete_album_audio($album);
+    unset($album['audioTrack']);
+    $album['updatedAt'] = gmdate('c');
+    write_albums_data($data);
+
+    send_json(200, present_album_with_photos($album, $session));
 }
 
 function handle_delete_album(string $albumId): void {
+    require_role('owner');
     $data = read_albums_data();
     $index = find_album_index($data['albums'], $albumId);
     if ($index === -1) {
@@ -177,6 +646,8 @@ function handle_delete_album(string $albumId): void {
     $thumbPath = THUMBNAILS_DIR . '/' . $albumId;
     delete_path($albumPath);
     delete_path($thumbPath);
+    delete_path(VARIANTS_DIR . '/' . $albumId);
+    delete_path(AUDIO_DIR . '/' . $albumId);
 
     array_splice($data['albums'], $index, 1);
     write_albums_data($data);
@@ -184,13 +655,58 @@ function handle_delete_album(string $albumId): void {
     send_json(200, ['message' => 'Album usunięty', 'id' => $albumId]);
 }
 
+function handle_delete_photo(string $albumId, string $photoId): void {
+    require_role('owner');
+
+    $data = read_albums_data();
+    $index = find_album_index($data['albums'], $albumId);
+    if ($index === -1) {
+        send_error(404, 'Album nie znaleziony');
+    }
+    $album =& $data['albums'][$index];
+    $photoIndex = find_photo_index($album['photos'], $photoId);
+    if ($photoIndex === -1) {
+        send_error(404, 'Zdjęcie nie znalezione');
+    }
+    $photo = $album['photos'][$photoIndex];
+
+    // The gallery file, its max twin (if any), the thumbnail and the responsive copies all go
+    $galleryFile = public_path_to_storage($photo['src']);
+    if ($galleryFile !== null) {
+        if (album_has_light_max($albumId)) {
+            $maxFile = find_max_counterpart(ALBUMS_DIR . '/' . $albumId . '/max', basename($galleryFile));
+            if ($maxFile !== null) {
+                @unlink($maxFile);
+            }
+        }
+        @unlink($galleryFile);
+    }
+    $thumbFile = !empty($photo['thumbnail']) ? public_path_to_storage($photo['thumbnail']) : null;
+    if ($thumbFile !== null) {
+        @unlink($thumbFile);
+    }
+    delete_image_variants($photo);
+    $album['downloadSizes'] = album_download_sizes($album);
+
+    array_splice($album['photos'], $photoIndex, 1);
+    if ($album['thumbnail'] === ($photo['thumbnail'] ?? $photo['src'])) {
+        $album['thumbnail'] = !empty($album['photos']) ? $album['photos'][0]['thumbnail'] : '';
+    }
+    $album['updatedAt'] = gmdate('c');
+    write_albums_data($data);
+
+    send_json(200, ['message' => 'Zdjęcie usunięte', 'id' => $photoId]);
+}
+
 function handle_bulk_upload(): void {
-    $albumName = isset($_POST['albumName']) ? trim($_POST['albumName']) : '';
+    require_role('owner');
+    $payload = read_json_body();
+    $albumName = trim((string) ($_POST['albumName'] ?? $payload['albumName'] ?? ''));
     if ($albumName === '') {
         send_error(400, 'Nazwa albumu jest wymagana');
     }
 
-    $files = collect_uploaded_files('photos');
+    $files = collect_request_files($payload);
     if (empty($files)) {
         send_error(400, 'Brak plików do uploadu');
     }
@@ -218,6 +734,7 @@ function handle_bulk_upload(): void {
     $album['updatedAt'] = gmdate('c');
     $data['albums'][] = $album;
     write_albums_data($data);
+    finish_upload_sessions($files);
 
     send_json(201, [
         'message' => sprintf('Album "%s" utworzony z %d zdjęciami', $albumName, count($album['photos'])),
@@ -227,7 +744,8 @@ function handle_bulk_upload(): void {
 }
 
 function handle_append_photos(string $albumId): void {
-    $files = collect_uploaded_files('photos');
+    require_role('owner');
+    $files = collect_request_files(read_json_body());
     if (empty($files)) {
         send_error(400, 'Brak plików do uploadu');
     }
@@ -249,6 +767,7 @@ function handle_append_photos(string $albumId): void {
 
     $data['albums'][$index] = $album;
     write_albums_data($data);
+    finish_upload_sessions($files);
 
     send_json(201, [
         'message' => sprintf('Dodano %d zdjęć do albumu', count($newPhotos)),
@@ -256,7 +775,352 @@ function handle_append_photos(string $albumId): void {
     ]);
 }
 
+function handle_album_files(string $albumId): void {
+    require_role('owner');
+    $data = read_albums_data();
+    if (find_album_index($data['albums'], $albumId) === -1) {
+        send_error(404, 'Album nie znaleziony');
+    }
+    send_json(200, ['files' => list_album_files($albumId)]);
+}
+
+// Guests send their photos for moderation through the same upload sessions, but theirs are
+// always opened as contributions, which only POST /api/contributions accepts
+function handle_create_upload(): void {
+    $auth = require_session();
+    $payload = read_json_body();
+    $kind = $auth['role'] !== 'owner' || ($payload['kind'] ?? '') === 'contribution' ? 'contribution' : 'album';
+    $name = isset($payload['name']) ? trim((string) $payload['name']) : '';
+    $size = isset($payload['size']) ? (int) $payload['size'] : 0;
+    if ($name === '' || $size <= 0) {
+        send_error(400, 'Nazwa i rozmiar pliku są wymagane');
+    }
+    if ($size > MAX_FILE_SIZE) {
+        send_error(413, sprintf('Plik "%s" jest za duży', $name));
+    }
+
+    purge_stale_upload_sessions();
+
+    $session = [
+        'id' => generate_uuid(),
+        'name' => $name,
+        'size' => $size,
+        'kind' => $kind,
+        'createdAt' => gmdate('c'),
+    ];
+    write_upload_session($session);
+    touch(upload_session_path($session['id'], 'part'));
+
+    send_json(201, present_upload_session(read_upload_session($session['id'])));
+}
+
+function handle_get_upload(string $uploadId): void {
+    $session = read_accessible_upload_session($uploadId, require_session());
+    if ($session === null) {
+        send_error(404, 'Upload nie istnieje lub wygasł');
+    }
+    send_json(200, present_upload_session($session));
+}
+
+// Appends one chunk; the client must send the offset it believes the server has,
+// and gets the real one back with 409 when they differ (e.g. after a lost response)
+function handle_upload_chunk(string $uploadId): void {
+    $session = read_accessible_upload_session($uploadId, require_session());
+    if ($session === null) {
+        send_error(404, 'Upload nie istnieje lub wygasł');
+    }
+
+    $offsetHeader = $_SERVER['HTTP_UPLOAD_OFFSET'] ?? '';
+    if (!ctype_digit($offsetHeader)) {
+        send_error(400, 'Brak nagłówka Upload-Offset');
+    }
+    $offset = (int) $offsetHeader;
+
+    $chunk = file_get_contents('php://input');
+    if ($chunk === false || $chunk === '') {
+        send_error(400, 'Pusty fragment pliku');
+    }
+    if (strlen($chunk) > MAX_UPLOAD_CHUNK_SIZE) {
+        send_error(413, 'Fragment pliku jest za duży');
+    }
+    if ($offset + strlen($chunk) > $session['size']) {
+        send_error(400, 'Fragment wykracza poza rozmiar pliku');
+    }
+
+    $handle = fopen(upload_session_path($uploadId, 'part'), 'ab');
+    if ($handle === false || !flock($handle, LOCK_EX)) {
+        throw new RuntimeException('Nie można zapisać fragmentu pliku');
+    }
+    $current = fstat($handle)['size'];
+    if ($current !== $offset) {
+        flock($handle, LOCK_UN);
+        fclose($handle);
+        send_json(409, ['error' => 'Niezgodny offset uploadu', 'offset' => $current]);
+    }
+    $written = fwrite($handle, $chunk);
+    fflush($handle);
+    flock($handle, LOCK_UN);
+    fclose($handle);
+    if ($written !== strlen($chunk)) {
+        throw new RuntimeException('Nie można zapisać fragmentu pliku');
+    }
+
+    touch(upload_session_path($uploadId, 'json'));
+    send_json(200, present_upload_session(read_upload_session($uploadId)));
+}
+
+function handle_cancel_upload(string $uploadId): void {
+    if (read_accessible_upload_session($uploadId, require_session()) === null) {
+        send_error(404, 'Upload nie istnieje lub wygasł');
+    }
+    delete_upload_session($uploadId);
+    send_json(200, ['message' => 'Upload anulowany']);
+}
+
+function handle_get_photo_feedback(string $albumId, string $photoId): void {
+    $session = require_session();
+    $viewerId = require_viewer_id();
+    $data = read_albums_data();
+    require_visible_photo($data, $session, $albumId, $photoId);
+    send_json(200, present_photo_feedback($data, $albumId, $photoId, $viewerId));
+}
+
+// Comments show at once; the owner can hide or delete them afterwards
+function handle_add_comment(string $albumId, string $photoId): void {
+    $session = require_session();
+    $viewerId = require_viewer_id();
+    $payload = read_json_body();
+    $authorName = isset($payload['authorName']) ? trim((string) $payload['authorName']) : '';
+    $text = isset($payload['text']) ? trim((string) $payload['text']) : '';
+    if ($authorName === '') {
+        send_error(400, 'Podaj swoje imię');
+    }
+    if (!preg_match('/^.{1,' . MAX_COMMENT_LENGTH . '}$/su', $text)) {
+        send_error(400, 'Komentarz może mieć od 1 do ' . MAX_COMMENT_LENGTH . ' znaków');
+    }
+
+    $data = read_albums_data();
+    require_visible_photo($data, $session, $albumId, $photoId);
+    $data['comments'][] = [
+        'id' => generate_uuid(),
+        'albumId' => $albumId,
+        'photoId' => $photoId,
+        'viewerId' => $viewerId,
+        'authorName' => $authorName,
+        'text' => $text,
+        'hidden' => false,
+        'createdAt' => gmdate('c'),
+    ];
+    write_albums_data($data);
+
+    send_json(201, present_photo_feedback($data, $albumId, $photoId, $viewerId));
+}
+
+// The same reaction twice takes it back
+function handle_toggle_reaction(string $albumId, string $photoId): void {
+    $session = require_session();
+    $viewerId = require_viewer_id();
+    $payload = read_json_body();
+    $emoji = isset($payload['emoji']) ? (string) $payload['emoji'] : '';
+    if (!in_array($emoji, PHOTO_REACTIONS, true)) {
+        send_error(400, 'Nieznana reakcja');
+    }
+
+    $data = read_albums_data();
+    require_visible_photo($data, $session, $albumId, $photoId);
+    $reactions = $data['reactions'] ?? [];
+    $remaining = array_values(array_filter($reactions, function (array $reaction) use ($albumId, $photoId, $viewerId, $emoji) {
+        return !($reaction['albumId'] === $albumId && $reaction['photoId'] === $photoId
+            && $reaction['viewerId'] === $viewerId && $reaction['emoji'] === $emoji);
+    }));
+    if (count($remaining) === count($reactions)) {
+        $remaining[] = ['albumId' => $albumId, 'photoId' => $photoId, 'viewerId' => $viewerId, 'emoji' => $emoji];
+    }
+    $data['reactions'] = $remaining;
+    write_albums_data($data);
+
+    send_json(200, present_photo_feedback($data, $albumId, $photoId, $viewerId));
+}
+
+function handle_list_comments(): void {
+    require_role('owner');
+    $data = read_albums_data();
+    $comments = [];
+    foreach ($data['comments'] ?? [] as $comment) {
+        $presented = present_moderated_comment($comment, $data['albums']);
+        if ($presented !== null) {
+            $comments[] = $presented;
+        }
+    }
+    send_json(200, $comments);
+}
+
+// Hidden comments stay stored, so the owner can show them again
+function handle_update_comment(string $commentId): void {
+    require_role('owner');
+    $payload = read_json_body();
+    if (!isset($payload['hidden']) || !is_bool($payload['hidden'])) {
+        send_error(400, 'Brak pola hidden');
+    }
+    $data = read_albums_data();
+    foreach ($data['comments'] ?? [] as $index => $comment) {
+        if ($comment['id'] === $commentId) {
+            $data['comments'][$index]['hidden'] = $payload['hidden'];
+            write_albums_data($data);
+            $presented = present_moderated_comment($data['comments'][$index], $data['albums']);
+            if ($presented === null) {
+                send_error(404, 'Zdjęcie nie znalezione');
+            }
+            send_json(200, $presented);
+        }
+    }
+    send_error(404, 'Komentarz nie znaleziony');
+}
+
+function handle_delete_comment(string $commentId): void {
+    require_role('owner');
+    $data = read_albums_data();
+    foreach ($data['comments'] ?? [] as $index => $comment) {
+        if ($comment['id'] === $commentId) {
+            array_splice($data['comments'], $index, 1);
+            write_albums_data($data);
+            send_json(200, ['message' => 'Komentarz usunięty', 'id' => $commentId]);
+        }
+    }
+    send_error(404, 'Komentarz nie znaleziony');
+}
+
+function handle_list_contributions(): void {
+    require_role('owner');
+    send_json(200, array_map('present_contribution', read_albums_data()['contributions'] ?? []));
+}
+
+// A pending photo or its thumbnail; the files live outside the web root until approval
+function handle_contribution_file(string $contributionId, string $kind): void {
+    require_role('owner');
+    foreach (read_albums_data()['contributions'] ?? [] as $contribution) {
+        if ($contribution['id'] === $contributionId) {
+            $path = contribution_path($contribution, $kind);
+            if (!is_file($path)) {
+                break;
+            }
+            $finfo = finfo_open(FILEINFO_MIME_TYPE);
+            header('Content-Type: ' . ($finfo ? finfo_file($finfo, $path) : 'application/octet-stream'));
+            if ($finfo) {
+                finfo_close($finfo);
+            }
+            header('Content-Length: ' . filesize($path));
+            header('Cache-Control: private, max-age=3600');
+            readfile($path);
+            exit;
+        }
+    }
+    send_error(404, 'Zdjęcie do akceptacji nie znalezione');
+}
+
+// Any visitor with a session may send photos; they stay hidden until the owner approves them
+function handle_submit_contributions(): void {
+    require_session();
+    $payload = read_json_body();
+    $contributorName = isset($payload['contributorName']) ? trim((string) $payload['contributorName']) : '';
+    $uploadIds = isset($payload['uploadIds']) && is_array($payload['uploadIds']) ? $payload['uploadIds'] : [];
+    if (empty($uploadIds)) {
+        send_error(400, 'Brak plików do uploadu');
+    }
+
+    $files = collect_session_files($uploadIds, 'contribution');
+    foreach ($files as $file) {
+        validate_uploaded_file($file);
+    }
+    // One unreadable photo fails the whole batch, so the ones stored before it go too
+    $contributions = [];
+    try {
+        foreach ($files as $file) {
+            $contributions[] = store_contribution($file, $contributorName);
+        }
+    } catch (Throwable $e) {
+        foreach ($contributions as $contribution) {
+            delete_contribution_files($contribution);
+        }
+        throw $e;
+    }
+
+    $data = read_albums_data();
+    $data['contributions'] = array_merge($data['contributions'] ?? [], $contributions);
+    write_albums_data($data);
+    finish_upload_sessions($files);
+
+    send_json(201, [
+        'message' => sprintf('Przesłano %d zdjęć do akceptacji', count($contributions)),
+        'count' => count($contributions),
+    ]);
+}
+
+// Approved photos join the given album, or the guest album made on the first approval
+function handle_approve_contributions(): void {
+    $session = require_role('owner');
+    $payload = read_json_body();
+    $ids = isset($payload['ids']) && is_array($payload['ids']) ? array_map('strval', $payload['ids']) : [];
+    $albumId = isset($payload['albumId']) ? (string) $payload['albumId'] : '';
+
+    $data = read_albums_data();
+    $approved = array_values(array_filter($data['contributions'] ?? [], function (array $contribution) use ($ids) {
+        return in_array($contribution['id'], $ids, true);
+    }));
+    if (empty($approved)) {
+        send_error(404, 'Zdjęcia do akceptacji nie znalezione');
+    }
+
+    $index = $albumId === '' ? ensure_contributions_album($data) : find_album_index($data['albums'], $albumId);
+    if ($index === -1) {
+        send_error(404, 'Album nie znaleziony');
+    }
+
+    $album =& $data['albums'][$index];
+    $files = [];
+    foreach ($approved as $contribution) {
+        $files = array_merge($files, contribution_files($contribution, $album));
+    }
+    $newPhotos = ingest_files_into_album($album['id'], $files, $album);
+
+    $album['photos'] = array_merge($album['photos'], $newPhotos);
+    if (!$album['thumbnail'] && !empty($album['photos'])) {
+        $album['thumbnail'] = $album['photos'][0]['thumbnail'];
+    }
+    $album['updatedAt'] = gmdate('c');
+
+    $data['contributions'] = array_values(array_filter($data['contributions'], function (array $contribution) use ($ids) {
+        return !in_array($contribution['id'], $ids, true);
+    }));
+    write_albums_data($data);
+    foreach ($approved as $contribution) {
+        delete_contribution_files($contribution);
+    }
+
+    send_json(200, [
+        'message' => sprintf('Dodano %d zdjęć do albumu "%s"', count($newPhotos), $album['name']),
+        'album' => present_album_with_photos($album, $session),
+    ]);
+}
+
+function handle_reject_contribution(string $contributionId): void {
+    require_role('owner');
+    $data = read_albums_data();
+    foreach ($data['contributions'] ?? [] as $index => $contribution) {
+        if ($contribution['id'] === $contributionId) {
+            array_splice($data['contributions'], $index, 1);
+            write_albums_data($data);
+            delete_contribution_files($contribution);
+            send_json(200, ['message' => 'Zdjęcie odrzucone', 'id' => $contributionId]);
+        }
+    }
+    send_error(404, 'Zdjęcie do akceptacji nie znalezione');
+}
+
 function handle_album_zip(string $albumId): void {
+    require_role('owner');
+    $variant = read_download_variant($_GET['variant'] ?? null);
+
     $data = read_albums_data();
     $index = find_album_index($data['albums'], $albumId);
     if ($index === -1) {
@@ -264,27 +1128,18 @@ function handle_album_zip(string $albumId): void {
     }
 
     $album = $data['albums'][$index];
-    $albumPath = ALBUMS_DIR . '/' . $albumId;
-    $lightPath = $albumPath . '/light';
-    $maxPath = $albumPath . '/max';
-
     $zipName = 'Lena ' . $album['name'] . '.zip';
 
-    stream_zip($zipName, function (ZipArchive $zip) use ($album, $albumPath, $lightPath, $maxPath) {
-        $hasLightMax = is_dir($lightPath) && is_dir($maxPath);
-        if ($hasLightMax) {
-            $lightFolder = 'Lena ' . $album['name'] . ' - Light - do dzielenia się w internecie';
-            $maxFolder = 'Lena ' . $album['name'] . ' - Max - do profesjonalnych wydruków';
-            add_folder_to_zip($zip, $lightPath, $lightFolder);
-            add_folder_to_zip($zip, $maxPath, $maxFolder);
-        } else {
-            add_folder_to_zip($zip, $albumPath, 'Lena ' . $album['name']);
-        }
+    stream_zip($zipName, function (ZipArchive $zip) use ($album, $variant) {
+        add_album_to_zip($zip, $album, $variant);
     });
 }
 
 function handle_multi_download(): void {
+    require_role('owner');
+
     $payload = read_json_body();
+    $variant = read_download_variant($payload['variant'] ?? null);
     $albumIds = isset($payload['albumIds']) && is_array($payload['albumIds']) ? $payload['albumIds'] : [];
     if (empty($albumIds)) {
         send_error(400, 'Brak albumów do pobrania');
@@ -300,19 +1155,69 @@ function handle_multi_download(): void {
 
     $zipName = count($albums) === 1 ? 'Lena ' . $albums[0]['name'] . '.zip' : 'Lena Galeria.zip';
 
-    stream_zip($zipName, function (ZipArchive $zip) use ($albums) {
+    stream_zip($zipName, function (ZipArchive $zip) use ($albums, $variant) {
         foreach ($albums as $album) {
-            $albumPath = ALBUMS_DIR . '/' . $album['id'];
-            $lightPath = $albumPath . '/light';
-            $maxPath = $albumPath . '/max';
-            $hasLightMax = is_dir($lightPath) && is_dir($maxPath);
-            if ($hasLightMax) {
-                $lightFolder = 'Lena ' . $album['name'] . ' - Light - do dzielenia się w internecie';
-                $maxFolder = 'Lena ' . $album['name'] . ' - Max - do profesjonalnych wydruków';
-                add_folder_to_zip($zip, $lightPath, $lightFolder);
-                add_folder_to_zip($zip, $maxPath, $maxFolder);
-            } else {
-                add_folder_to_zip($zip, $albumPath, 'Lena ' . $album['name']);
+            add_album_to_zip($zip, $album, $variant);
+        }
+    });
+}
+
+function handle_photos_download(): void {
+    require_role('owner');
+
+    $payload = read_json_body();
+    $variant = read_download_variant($payload['variant'] ?? null);
+    $refs = isset($payload['photos']) && is_array($payload['photos']) ? $payload['photos'] : [];
+    if (empty($refs)) {
+        send_error(400, 'Brak zdjęć do pobrania');
+    }
+
+    $wanted = [];
+    foreach ($refs as $ref) {
+        if (is_array($ref) && isset($ref['albumId'], $ref['photoId'])) {
+            $wanted[(string) $ref['albumId']][(string) $ref['photoId']] = true;
+        }
+    }
+
+    $data = read_albums_data();
+    $selection = [];
+    foreach ($data['albums'] as $album) {
+        if (!isset($wanted[$album['id']])) {
+            continue;
+        }
+        $photos = array_values(array_filter($album['photos'], function ($photo) use ($wanted, $album) {
+            return isset($wanted[$album['id']][$photo['id']]);
+        }));
+        if (!empty($photos)) {
+            $selection[] = ['album' => $album, 'photos' => $photos];
+        }
+    }
+    if (empty($selection)) {
+        send_error(404, 'Nie znaleziono zdjęć');
+    }
+
+    $zipName = count($selection) === 1 ? 'Lena ' . $selection[0]['album']['name'] . ' - wybrane.zip' : 'Lena wybrane zdjęcia.zip';
+
+    stream_zip($zipName, function (ZipArchive $zip) use ($selection, $variant) {
+        foreach ($selection as $entry) {
+            $album = $entry['album'];
+            $maxPath = ALBUMS_DIR . '/' . $album['id'] . '/max';
+            $hasLightMax = album_has_light_max($album['id']);
+            $lightFolder = $hasLightMax ? light_folder_name($album) : 'Lena ' . $album['name'];
+
+            foreach ($entry['photos'] as $photo) {
+                $sourcePath = public_path_to_storage($photo['src']);
+                if ($sourcePath === null) {
+                    continue;
+                }
+                $filename = basename($sourcePath);
+                if (!$hasLightMax || $variant !== 'max') {
+                    $zip->addFile($sourcePath, $lightFolder . '/' . $filename);
+                }
+                $maxFile = $hasLightMax && $variant !== 'light' ? find_max_counterpart($maxPath, $filename) : null;
+                if ($maxFile !== null) {
+                    $zip->addFile($maxFile, max_folder_name($album) . '/' . basename($maxFile));
+                }
             }
         }
     });
@@ -330,6 +1235,22 @@ function read_json_body(): array {
     return $data;
 }
 
+// Classic multipart batches carry the files themselves, resumable uploads only list their ids
+function collect_request_files(array $payload): array {
+    if (isset($payload['uploadIds']) && is_array($payload['uploadIds']) && !empty($payload['uploadIds'])) {
+        return collect_session_files($payload['uploadIds'], 'album');
+    }
+    return collect_uploaded_files('photos');
+}
+
+function finish_upload_sessions(array $files): void {
+    foreach ($files as $file) {
+        if (isset($file['uploadId'])) {
+            delete_upload_session($file['uploadId']);
+        }
+    }
+}
+
 function find_album_index(array $albums, string $albumId): int {
     foreach ($albums as $index => $album) {
         if (($album['id'] ?? null) === $albumId) {
@@ -339,19 +1260,311 @@ function find_album_index(array $albums, string $albumId): int {
     return -1;
 }
 
-function delete_path(string $path): void {
-    if (!file_exists($path)) {
-        return;
+function find_photo_index(array $photos, string $photoId): int {
+    foreach ($photos as $index => $photo) {
+        if (($photo['id'] ?? null) === $photoId) {
+            return (int) $index;
+        }
+    }
+    return -1;
+}
+
+// Descriptive album fields; only the keys present in $payload change, and empty values remove them
+function apply_album_details(array &$album, array $payload): void {
+    foreach (['description', 'location', 'clientName'] as $field) {
+        if (!array_key_exists($field, $payload)) {
+            continue;
+        }
+        $value = trim((string) $payload[$field]);
+        if ($value === '') {
+            unset($album[$field]);
+        } else {
+            $album[$field] = $value;
+        }
+    }
+
+    if (array_key_exists('eventDate', $payload)) {
+        $eventDate = trim((string) $payload['eventDate']);
+        if ($eventDate === '') {
+            unset($album['eventDate']);
+        } elseif (preg_match('/^(\d{4})-(\d{2})-(\d{2})$/', $eventDate, $m) && checkdate((int) $m[2], (int) $m[3], (int) $m[1])) {
+            $album['eventDate'] = $eventDate;
+        } else {
+            throw new RuntimeException('Nieprawidłowa data wydarzenia');
+        }
+    }
+
+    if (array_key_exists('tags', $payload)) {
+        if (!is_array($payload['tags'])) {
+            throw new RuntimeException('Tagi muszą być listą');
+        }
+        $tags = [];
+        foreach ($payload['tags'] as $tag) {
+            $tag = trim((string) $tag);
+            if ($tag !== '' && !in_array($tag, $tags, true)) {
+                $tags[] = $tag;
+            }
+        }
+        if (empty($tags)) {
+            unset($album['tags']);
+        } else {
+            $album['tags'] = $tags;
+        }
+    }
+
+    if (array_key_exists('sortOrder', $payload)) {
+        $sortOrder = $payload['sortOrder'];
+        if ($sortOrder === null || $sortOrder === '') {
+            unset($album['sortOrder']);
+        } elseif (is_numeric($sortOrder)) {
+            $album['sortOrder'] = (int) $sortOrder;
+        } else {
+            throw new RuntimeException('Pozycja albumu musi być liczbą');
+        }
+    }
+}
+
+// Photos listed in $order come first, in that order; anything not listed
+// (e.g. uploaded while the owner was sorting) keeps its place at the end
+function reorder_photos(array $photos, array $order): array {
+    $byId = [];
+    foreach ($photos as $photo) {
+        $byId[$photo['id']] = $photo;
+    }
+    $sorted = [];
+    foreach ($order as $photoId) {
+        $photoId = (string) $photoId;
+        if (isset($byId[$photoId])) {
+            $sorted[] = $byId[$photoId];
+            unset($byId[$photoId]);
+        }
     }
-    if (is_file($path) || is_link($path)) {
-        @unlink($path);
-        return;
+    return array_merge($sorted, array_values($byId));
+}
+
+function find_viewer_selections(array $data, string $viewerId): ?array {
+    foreach ($data['selections'] ?? [] as $selections) {
+        if ($selections['viewerId'] === $viewerId) {
+            return $selections;
+        }
     }
-    $items = new FilesystemIterator($path);
-    foreach ($items as $item) {
-        delete_path($item->getPathname());
+    return null;
+}
+
+function empty_viewer_selections(string $viewerId): array {
+    return ['viewerId' => $viewerId, 'viewerName' => '', 'favorites' => [], 'lists' => [], 'updatedAt' => null];
+}
+
+// albumId => photoId => true, for the albums the session can open
+function visible_photo_ids(array $albums, array $session): array {
+    $photoIds = [];
+    foreach ($albums as $album) {
+        if (session_can_view_album($session, $album['id'])) {
+            $photoIds[$album['id']] = array_fill_keys(array_column($album['photos'], 'id'), true);
+        }
     }
-    @rmdir($path);
+    return $photoIds;
+}
+
+// Takes the viewer's picks among the photos they can see; picks from albums outside the
+// session stay as they were, so a link to one album does not wipe choices made in another
+function merge_photo_refs(array $previous, $refs, array $visiblePhotos, array $session): array {
+    $merged = array_values(array_filter($previous, function (array $ref) use ($session) {
+        return !session_can_view_album($session, $ref['albumId']);
+    }));
+    if (!is_array($refs)) {
+        return $merged;
+    }
+    $seen = [];
+    foreach ($refs as $ref) {
+        $albumId = is_array($ref) && isset($ref['albumId']) ? (string) $ref['albumId'] : '';
+        $photoId = is_array($ref) && isset($ref['photoId']) ? (string) $ref['photoId'] : '';
+        if (!isset($visiblePhotos[$albumId][$photoId]) || isset($seen[$albumId . '/' . $photoId])) {
+            continue;
+        }
+        $seen[$albumId . '/' . $photoId] = true;
+        $merged[] = ['albumId' => $albumId, 'photoId' => $photoId];
+    }
+    return $merged;
+}
+
+function present_viewer_selections(array $selections, array $session): array {
+    $visible = function (array $refs) use ($session) {
+        return array_values(array_filter($refs, function (array $ref) use ($session) {
+            return session_can_view_album($session, $ref['albumId']);
+        }));
+    };
+    $lists = [];
+    foreach ($selections['lists'] as $list) {
+        $lists[] = ['id' => $list['id'], 'name' => $list['name'], 'photos' => $visible($list['photos'])];
+    }
+    return [
+        'viewerName' => $selections['viewerName'],
+        'favorites' => $visible($selections['favorites']),
+        'lists' => $lists,
+        'updatedAt' => $selections['updatedAt'],
+    ];
+}
+
+// Owners see file names, the original ones where known; photos deleted since are left out
+function present_client_selections(array $selections, array $albums): array {
+    $byAlbum = [];
+    foreach ($albums as $album) {
+        $byAlbum[$album['id']] = ['name' => $album['name'], 'photos' => array_column($album['photos'], null, 'id')];
+    }
+    $describe = function (array $refs) use ($byAlbum) {
+        $photos = [];
+        foreach ($refs as $ref) {
+            $photo = $byAlbum[$ref['albumId']]['photos'][$ref['photoId']] ?? null;
+            if ($photo === null) {
+                continue;
+            }
+            $photos[] = [
+                'albumId' => $ref['albumId'],
+                'photoId' => $ref['photoId'],
+                'albumName' => $byAlbum[$ref['albumId']]['name'],
+                'fileName' => $photo['originalFilename'] ?? basename($photo['src']),
+            ];
+        }
+        return $photos;
+    };
+    $lists = [];
+    foreach ($selections['lists'] as $list) {
+        $lists[] = ['id' => $list['id'], 'name' => $list['name'], 'photos' => $describe($list['photos'])];
+    }
+    return [
+        'viewerId' => $selections['viewerId'],
+        'viewerName' => $selections['viewerName'],
+        'favorites' => $describe($selections['favorites']),
+        'lists' => $lists,
+        'updatedAt' => $selections['updatedAt'],
+    ];
+}
+
+// Comments and reactions go only to photos the session can open
+function require_visible_photo(array $data, array $session, string $albumId, string $photoId): void {
+    $index = find_album_index($data['albums'], $albumId);
+    if ($index === -1 || !session_can_view_album($session, $albumId)) {
+        send_error(404, 'Album nie znaleziony');
+    }
+    if (find_photo_index($data['albums'][$index]['photos'], $photoId) === -1) {
+        send_error(404, 'Zdjęcie nie znalezione');
+    }
+}
+
+// Visible comments and a count for every reaction, marking the ones given by this viewer;
+// viewer ids stay on the server
+function present_photo_feedback(array $data, string $albumId, string $photoId, string $viewerId): array {
+    $comments = [];
+    foreach ($data['comments'] ?? [] as $comment) {
+        if ($comment['albumId'] === $albumId && $comment['photoId'] === $photoId && empty($comment['hidden'])) {
+            $comments[] = present_comment($comment);
+        }
+    }
+    $reactions = [];
+    foreach (PHOTO_REACTIONS as $emoji) {
+        $reactions[$emoji] = ['emoji' => $emoji, 'count' => 0, 'reacted' => false];
+    }
+    foreach ($data['reactions'] ?? [] as $reaction) {
+        if ($reaction['albumId'] !== $albumId || $reaction['photoId'] !== $photoId || !isset($reactions[$reaction['emoji']])) {
+            continue;
+        }
+        $reactions[$reaction['emoji']]['count']++;
+        if ($reaction['viewerId'] === $viewerId) {
+            $reactions[$reaction['emoji']]['reacted'] = true;
+        }
+    }
+    return ['comments' => $comments, 'reactions' => array_values($reactions)];
+}
+
+function present_comment(array $comment): array {
+    return [
+        'id' => $comment['id'],
+        'albumId' => $comment['albumId'],
+        'photoId' => $comment['photoId'],
+        'authorName' => $comment['authorName'],
+        'text' => $comment['text'],
+        'hidden' => !empty($comment['hidden']),
+        'createdAt' => $comment['createdAt'],
+    ];
+}
+
+// Owners see where each comment was left; comments on photos deleted since are left out
+function present_moderated_comment(array $comment, array $albums): ?array {
+    $index = find_album_index($albums, $comment['albumId']);
+    if ($index === -1) {
+        return null;
+    }
+    $photoIndex = find_photo_index($albums[$index]['photos'], $comment['photoId']);
+    if ($photoIndex === -1) {
+        return null;
+    }
+    $photo = $albums[$index]['photos'][$photoIndex];
+    return array_merge(present_comment($comment), [
+        'albumName' => $albums[$index]['name'],
+        'fileName' => $photo['originalFilename'] ?? basename($photo['src']),
+        'thumbnail' => $photo['thumbnail'] ?? $photo['src'],
+    ]);
+}
+
+// Lower case without Polish diacritics, like normalizeSearchText() in the client (mbstring may be missing)
+function normalize_search_text(string $text): string {
+    return strtolower(strtr($text, [
+        'Ą' => 'a', 'ą' => 'a', 'Ć' => 'c', 'ć' => 'c', 'Ę' => 'e', 'ę' => 'e', 'Ł' => 'l', 'ł' => 'l',
+        'Ń' => 'n', 'ń' => 'n', 'Ó' => 'o', 'ó' => 'o', 'Ś' => 's', 'ś' => 's', 'Ź' => 'z', 'ź' => 'z',
+        'Ż' => 'z', 'ż' => 'z',
+    ]));
+}
+
+// A substring, or the token's letters in order with small gaps - the rule fuzzyScore() ranks by
+function search_token_matches(string $token, string $text): bool {
+    if ($token === '' || $text === '') {
+        return false;
+    }
+    if (strpos($text, $token) !== false) {
+        return true;
+    }
+    $first = -1;
+    $last = -1;
+    $matched = 0;
+    $length = strlen($token);
+    for ($i = 0, $end = strlen($text); $i < $end && $matched < $length; $i++) {
+        if ($text[$i] !== $token[$matched]) {
+            continue;
+        }
+        if ($first === -1) {
+            $first = $i;
+        }
+        $matched++;
+        $last = $i;
+    }
+    return $matched === $length && $last - $first + 1 <= $length * 3;
+}
+
+// Index of the album for approved guest photos, created again if the owner deleted it
+function ensure_contributions_album(array &$data): int {
+    $index = find_album_index($data['albums'], (string) ($data['contributionsAlbumId'] ?? ''));
+    if ($index !== -1) {
+        return $index;
+    }
+    $now = gmdate('c');
+    $album = [
+        'id' => generate_uuid(),
+        'name' => CONTRIBUTIONS_ALBUM_NAME,
+        'thumbnail' => '',
+        'photos' => [],
+        'hasLightMax' => false,
+        'createdAt' => $now,
+        'updatedAt' => $now,
+    ];
+    $data['albums'][] = $album;
+    $data['contributionsAlbumId'] = $album['id'];
+    return count($data['albums']) - 1;
+}
+
+// Whatever is left of a moderated photo: its folder (the file itself once approved) and thumbnail
+function delete_contribution_files(array $contribution): void {
+    delete_path(CONTRIBUTIONS_DIR . '/' . $contribution['id']);
 }
 
 function ingest_files_into_album(string $albumId, array $files, array &$albumMeta): array {
@@ -372,6 +1585,7 @@ function ingest_files_into_album(string $albumId, array $files, array &$albumMet
         $entry = [
             'file' => $file,
             'name' => sanitize_filename($cleanName),
+            'originalName' => $cleanName,
         ];
         if ($folderType === 'light') {
             $groups['light'][] = $entry;
@@ -398,31 +1612,32 @@ function ingest_files_into_album(string $albumId, array $files, array &$albumMet
         ensure_directory($lightPath);
         ensure_directory($maxPath);
 
+        // Max files are stored first so each Light photo can be described from its original
+        foreach ($groups['max'] as $entry) {
+            $targetName = get_unique_filename($maxPath, $entry['name']);
+            $targetPath = $maxPath . '/' . $targetName;
+            if (!store_uploaded_file($entry['file'], $targetPath)) {
+                throw new RuntimeException('Nie można zapisać pliku max');
+            }
+        }
+
         foreach ($groups['light'] as $entry) {
             $targetName = get_unique_filename($lightPath, $entry['name']);
             $targetPath = $lightPath . '/' . $targetName;
-            if (!move_uploaded_file($entry['file']['tmp_name'], $targetPath)) {
+            if (!store_uploaded_file($entry['file'], $targetPath)) {
                 throw new RuntimeException('Nie można zapisać pliku light');
             }
             $thumbPath = create_thumbnail($targetPath, $albumId, $targetName);
-            list($width, $height) = get_image_dimensions($targetPath);
-            $newPhotos[] = [
-                'id' => generate_uuid(),
+            $photoId = generate_uuid();
+            $newPhotos[] = array_merge([
+                'id' => $photoId,
                 'src' => '/uploads/albums/' . $albumId . '/light/' . $targetName,
                 'thumbnail' => to_public_path($thumbPath),
                 'title' => pathinfo($targetName, PATHINFO_FILENAME),
-                'width' => $width,
-                'height' => $height,
                 'uploadedAt' => gmdate('c'),
-            ];
-        }
-
-        foreach ($groups['max'] as $entry) {
-            $targetName = get_unique_filename($maxPath, $entry['name']);
-            $targetPath = $maxPath . '/' . $targetName;
-            if (!move_uploaded_file($entry['file']['tmp_name'], $targetPath)) {
-                throw new RuntimeException('Nie można zapisać pliku max');
-            }
+                'variants' => create_image_variants($targetPath, $albumId, $photoId),
+                'placeholder' => create_photo_placeholder($targetPath),
+            ], describe_photo($targetPath, find_max_counterpart($maxPath, $targetName), $entry['originalName']));
         }
 
         $albumMeta['hasLightMax'] = true;
@@ -432,22 +1647,23 @@ function ingest_files_into_album(string $albumId, array $files, array &$albumMet
         foreach ($flatFiles as $entry) {
             $targetName = get_unique_filename($albumPath, $entry['name']);
             $targetPath = $albumPath . '/' . $targetName;
-            if (!move_uploaded_file($entry['file']['tmp_name'], $targetPath)) {
+            if (!store_uploaded_file($entry['file'], $targetPath)) {
                 throw new RuntimeException('Nie można zapisać pliku');
             }
             $thumbPath = create_thumbnail($targetPath, $albumId, $targetName);
-            list($width, $height) = get_image_dimensions($targetPath);
-            $newPhotos[] = [
-                'id' => generate_uuid(),
+            $photoId = generate_uuid();
+            $newPhotos[] = array_merge([
+                'id' => $photoId,
                 'src' => '/uploads/albums/' . $albumId . '/' . $targetName,
                 'thumbnail' => to_public_path($thumbPath),
                 'title' => pathinfo($targetName, PATHINFO_FILENAME),
-                'width' => $width,
-                'height' => $height,
                 'uploadedAt' => gmdate('c'),
-            ];
+                'variants' => create_image_variants($targetPath, $albumId, $photoId),
+                'placeholder' => create_photo_placeholder($targetPath),
+            ], describe_photo($targetPath, null, $entry['originalName']));
         }
     }
 
+    $albumMeta['downloadSizes'] = album_download_sizes($albumMeta);
     return $newPhotos;
 }
\ No newline at end of file
@@ -21,7 +21,7 @@ async function uploadPHP() {
     
     // Upload PHP files
     const phpDir = path.join(__dirname, 'php');
-    const files = ['config.php', 'helpers.php', 'index.php', 'router.php', '.htaccess'];
+    const files = ['config.php', 'helpers.php', 'auth.php', 'index.php', 'router.php', '.htaccess'];
     
     for (const file of files) {
       const localPath = path.join(phpDir, file);
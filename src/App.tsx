@@ -1,21 +1,95 @@
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useNavigate, useSearchParams, useParams, useLocation } from 'react-router-dom';
 import { AnimatePresence, motion, PanInfo } from 'framer-motion';
 import { 
   Settings, Upload, Camera, RefreshCw, Wifi, WifiOff, 
   Download, CheckSquare, Square, ChevronLeft, ChevronRight, X,
-  Image, Menu, Maximize, Lock, Eye, EyeOff, RotateCcw, LogOut
+  Image, Menu, Maximize, Lock, Eye, EyeOff, RotateCcw, LogOut, Link2,
+  Circle, CircleCheck, ImagePlus, Info, CalendarClock, Play, Pause, Volume2, VolumeX, Settings2, Heart, Flag,
+  MessageCircle, Search
 } from 'lucide-react';
 
 // Components
 import AmbientBackground from '@/components/AmbientBackground';
 import UploadZone from '@/components/UploadZone';
+import ShareLinksPanel from '@/components/ShareLinksPanel';
+import ClientSelectionsPanel from '@/components/ClientSelectionsPanel';
+import ContributionsPanel from '@/components/ContributionsPanel';
+import CommentsPanel from '@/components/CommentsPanel';
+import AlbumEditor from '@/components/AlbumEditor';
+import SelectionTray from '@/components/SelectionTray';
+import ErrorState from '@/components/ErrorState';
+import DemoBanner from '@/components/DemoBanner';
+import PhotoInfoPanel from '@/components/PhotoInfoPanel';
+import PhotoCommentsPanel from '@/components/PhotoCommentsPanel';
+import PhotoImage from '@/components/PhotoImage';
+import ZoomMinimap from '@/components/ZoomMinimap';
+import Slideshow from '@/components/Slideshow';
+import ProofingListPicker from '@/components/ProofingListPicker';
+import GuestUploadForm from '@/components/GuestUploadForm';
+import SearchPalette from '@/components/SearchPalette';
 
 // API & Data
-import { getAlbums, checkHealth, getImageUrl, getThumbnailUrl, deleteAlbum } from '@/api/albums';
-import { mockAlbums } from '@/data/mockData';
-import { downloadAlbum, downloadMultipleAlbums } from '@/utils/downloader';
-import type { Album, Photo } from '@/types';
+import { login, redeemShareLink, getSessionRole, clearSession } from '@/api/albums';
+import { NetworkError } from '@/api/errors';
+import {
+  useAlbumStore,
+  revalidateAlbums,
+  removeAlbum,
+  resetAlbumStore,
+  loadAlbumPhotos,
+  findAlbumPhoto,
+} from '@/store/albumStore';
+import { isDemoMode } from '@/utils/demoMode';
+import { downloadAlbum, downloadMultipleAlbums, downloadPhotos, estimateDownloadSize, formatFileSize } from '@/utils/downloader';
+import { albumPath, photoPath } from '@/utils/routes';
+import type { SearchResult } from '@/utils/gallerySearch';
+import { getPhotoVariantUrl } from '@/utils/imageVariants';
+import { getStoredPhotoSort, storePhotoSort, sortAlbumPhotos } from '@/utils/photoMetadata';
+import { sortAlbums, groupAlbumsByEventDate, formatEventDate } from '@/utils/albumOrder';
+import {
+  PHOTO_PREFETCH_MARGIN,
+  getPhotoCount,
+  hasAllPhotos,
+  getTotalPhotoCount,
+  getFlatPhotoIndex,
+  locateFlatPhotoIndex,
+  getPhotoAtFlatIndex,
+} from '@/utils/photoPages';
+import { usePhotoPreloader, getPreloadWindow } from '@/utils/photoPreloader';
+import { useViewerSelections, isSamePhoto } from '@/utils/viewerSelections';
+import {
+  SLIDESHOW_INTERVALS,
+  getStoredSlideshowSettings,
+  storeSlideshowSettings,
+  getNextSlideIndex,
+  useWakeLock,
+} from '@/utils/slideshow';
+import {
+  FIT_VIEW,
+  clampView,
+  zoomAtPoint,
+  getVisibleArea,
+  centreOnPoint,
+  type ZoomView,
+  type ZoomGeometry,
+} from '@/utils/imageZoom';
+import type {
+  Album,
+  DownloadVariant,
+  Photo,
+  PhotoRef,
+  PhotoSortMode,
+  SlideshowSettings,
+  SlideshowTransition,
+  UserRole,
+} from '@/types';
+
+// Rendered photo widths, shared by each view and its preloader so both fetch the same file.
+// The 3D slider scales its active card by 1.45, which sizes has to include
+const CINEMA_SIZES = '100vw';
+const LANDSCAPE_SLIDER_SIZES = '55vw';
+const SLIDER_3D_SIZES = '(min-width: 1024px) 840px, (min-width: 768px) 725px, 95vw';
 
 // ============================================
 // HOOK: useIsMobile - Detect mobile devices
@@ -106,28 +180,133 @@ const RotateHint: React.FC = () => {
   );
 };
 
+// ============================================
+// PHOTO SELECTION - Shared by slider, masonry and cinema mode
+// ============================================
+interface PhotoSelection {
+  isSelected: (albumId: string, photoId: string) => boolean;
+  toggle: (albumId: string, photoId: string) => void;
+}
+
+const photoSelectionKey = (albumId: string, photoId: string): string => `${albumId}/${photoId}`;
+
+const parsePhotoSelectionKey = (key: string): PhotoRef => {
+  const [albumId, photoId] = key.split('/');
+  return { albumId, photoId };
+};
+
+interface PhotoSelectButtonProps {
+  selected: boolean;
+  onToggle: () => void;
+  className?: string;
+}
+
+const PhotoSelectButton: React.FC<PhotoSelectButtonProps> = ({ selected, onToggle, className = '' }) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggle();
+    }}
+    onMouseDown={(e) => e.stopPropagation()}
+    onTouchStart={(e) => e.stopPropagation()}
+    onTouchEnd={(e) => e.stopPropagation()}
+    className={`rounded-full bg-black/40 backdrop-blur-sm transition-colors hover:bg-black/60 ${className}`}
+    title={selected ? 'Odznacz zdjęcie' : 'Zaznacz zdjęcie'}
+  >
+    {selected ? (
+      <CircleCheck className="w-full h-full text-green-400" />
+    ) : (
+      <Circle className="w-full h-full text-white/70" />
+    )}
+  </button>
+);
+
+// ============================================
+// FAVORITES AND PROOFING LISTS - Any viewer can mark photos for the photographer
+// ============================================
+interface PhotoProofing {
+  isFavorite: (albumId: string, photoId: string) => boolean;
+  isListed: (albumId: string, photoId: string) => boolean; // on any proofing list
+  toggleFavorite: (albumId: string, photoId: string) => void;
+  openLists: (albumId: string, photoId: string) => void;
+}
+
+interface PhotoProofingButtonsProps {
+  albumId: string;
+  photoId: string;
+  proofing: PhotoProofing;
+  buttonClassName?: string;
+  className?: string;
+}
+
+const PhotoProofingButtons: React.FC<PhotoProofingButtonsProps> = ({
+  albumId,
+  photoId,
+  proofing,
+  buttonClassName = '',
+  className = '',
+}) => {
+  const favorite = proofing.isFavorite(albumId, photoId);
+  const listed = proofing.isListed(albumId, photoId);
+  // Taps on the buttons must not open, swipe or drag the photo underneath
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+  const gestureProps = {
+    onMouseDown: stopPropagation,
+    onTouchStart: stopPropagation,
+    onTouchEnd: stopPropagation,
+  };
+
+  return (
+    <div className={`flex gap-1.5 ${className}`}>
+      <button
+        {...gestureProps}
+        onClick={(e) => {
+          e.stopPropagation();
+          proofing.toggleFavorite(albumId, photoId);
+        }}
+        className={`rounded-full bg-black/40 backdrop-blur-sm transition-colors hover:bg-black/60 ${buttonClassName}`}
+        title={favorite ? 'Usuń z ulubionych' : 'Dodaj do ulubionych'}
+      >
+        <Heart className={`w-full h-full ${favorite ? 'text-red-500 fill-current' : 'text-white/70'}`} />
+      </button>
+      <button
+        {...gestureProps}
+        onClick={(e) => {
+          e.stopPropagation();
+          proofing.openLists(albumId, photoId);
+        }}
+        className={`rounded-full bg-black/40 backdrop-blur-sm transition-colors hover:bg-black/60 ${buttonClassName}`}
+        title="Listy wyboru"
+      >
+        <Flag className={`w-full h-full ${listed ? 'text-amber-400 fill-current' : 'text-white/70'}`} />
+      </button>
+    </div>
+  );
+};
+
 // ============================================
 // MOBILE CINEMA MODE - Full gesture support with pinch zoom
 // ============================================
 interface MobileCinemaModeProps {
   albums: Album[];
-  initialAlbumIndex: number;
-  initialPhotoIndex: number;
+  albumIndex: number;
+  photoIndex: number;
+  onNavigate: (albumIndex: number, photoIndex: number) => void;
   onClose: () => void;
 }
 
 const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
   albums,
-  initialAlbumIndex,
-  initialPhotoIndex,
+  albumIndex,
+  photoIndex,
+  onNavigate,
   onClose,
 }) => {
-  const [albumIndex, setAlbumIndex] = useState(initialAlbumIndex);
-  const [photoIndex, setPhotoIndex] = useState(initialPhotoIndex);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [scale, setScale] = useState(1);
   const [position, setPosition] = useState({ x: 0, y: 0 });
   const [_isFullscreen, setIsFullscreen] = useState(() => typeof document !== 'undefined' && !!document.fullscreenElement);
+  const [showComments, setShowComments] = useState(false);
   const lastTapRef = useRef(0);
   const initialDistance = useRef(0);
   const initialScale = useRef(1);
@@ -135,13 +314,13 @@ const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
 
 
-  // Handle Android back button - close cinema mode instead of leaving page
+  // Photo comes from the URL - reset zoom whenever it changes (also on browser back/forward)
   useEffect(() => {
-    window.history.pushState({ cinemaMode: true }, '');
-    const handlePopState = () => onClose();
-    window.addEventListener('popstate', handlePopState);
-    return () => window.removeEventListener('popstate', handlePopState);
-  }, [onClose]);
+    setImageLoaded(false);
+    setScale(1);
+    setPosition({ x: 0, y: 0 });
+  }, [albumIndex, photoIndex]);
+
   useEffect(() => {
     const handleFullscreenChange = () => {
       const isNowFullscreen = !!document.fullscreenElement;
@@ -174,30 +353,22 @@ const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
   const currentAlbum = albums[albumIndex];
   const currentPhoto = currentAlbum?.photos[photoIndex];
 
-  // Flatten all photos
-  const allPhotos = useMemo(() => {
-    return albums.flatMap((album, aIdx) => 
-      album.photos.map((photo, pIdx) => ({ 
-        photo, albumIndex: aIdx, photoIndex: pIdx, albumName: album.name 
-      }))
-    );
-  }, [albums]);
-
-  const currentFlatIndex = useMemo(() => {
-    let idx = 0;
-    for (let a = 0; a < albumIndex; a++) idx += albums[a].photos.length;
-    return idx + photoIndex;
-  }, [albums, albumIndex, photoIndex]);
+  // Positions run across all albums, including photos not loaded yet
+  const totalPhotos = useMemo(() => getTotalPhotoCount(albums), [albums]);
+  const currentFlatIndex = useMemo(
+    () => getFlatPhotoIndex(albums, albumIndex, photoIndex),
+    [albums, albumIndex, photoIndex]
+  );
 
   const goToFlatIndex = useCallback((flatIdx: number) => {
-    if (flatIdx < 0 || flatIdx >= allPhotos.length) return;
-    const target = allPhotos[flatIdx];
-    setImageLoaded(false);
-    setScale(1);
-    setPosition({ x: 0, y: 0 });
-    setAlbumIndex(target.albumIndex);
-    setPhotoIndex(target.photoIndex);
-  }, [allPhotos]);
+    const target = locateFlatPhotoIndex(albums, flatIdx);
+    if (target) onNavigate(target.albumIndex, target.photoIndex);
+  }, [albums, onNavigate]);
+
+  usePhotoPreloader(
+    getPreloadWindow(totalPhotos, currentFlatIndex, index => getPhotoAtFlatIndex(albums, index)),
+    CINEMA_SIZES
+  );
 
   // Double tap to zoom
   const handleTap = useCallback(() => {
@@ -324,11 +495,20 @@ const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
       <div className="absolute top-0 left-0 right-0 z-20 p-3 flex items-center justify-between">
         {/* Counter */}
         <div className="bg-black/40 backdrop-blur-sm px-2 py-1 rounded-lg">
-          <span className="text-white/70 text-xs">{currentFlatIndex + 1} / {allPhotos.length}</span>
+          <span className="text-white/70 text-xs">{currentFlatIndex + 1} / {totalPhotos}</span>
         </div>
         
         {/* Right controls */}
         <div className="flex items-center gap-2">
+          {!isDemoMode && (
+            <motion.button
+              className={`p-2 backdrop-blur-sm rounded-full ${showComments ? 'bg-white/30' : 'bg-black/40'}`}
+              onClick={() => setShowComments(prev => !prev)}
+              whileTap={{ scale: 0.9 }}
+            >
+              <MessageCircle className="w-4 h-4 text-white/80" />
+            </motion.button>
+          )}
           <motion.button
             className="p-2 bg-black/40 backdrop-blur-sm rounded-full"
             onClick={toggleFullscreen}
@@ -348,20 +528,22 @@ const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
 
       {/* Photo with gestures */}
       <motion.div
-        className="flex-1 flex items-center justify-center overflow-hidden p-4"
+        className="flex-1 relative flex items-center justify-center overflow-hidden p-4"
         onPan={handlePan}
         onPanEnd={handlePanEnd}
         onClick={handleBackdropClick}
       >
-        {!imageLoaded && (
+        {!imageLoaded && !currentPhoto.placeholder && (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="w-10 h-10 border-2 border-white/20 border-t-white/60 rounded-full animate-spin" />
           </div>
         )}
         
-        <motion.img
+        <PhotoImage
           key={`${albumIndex}-${photoIndex}`}
-          src={currentPhoto.src}
+          photo={currentPhoto}
+          sizes={CINEMA_SIZES}
+          placeholderClassName="object-contain p-4"
           alt=""
           className="max-w-full max-h-full object-contain pointer-events-none"
           style={{
@@ -377,20 +559,32 @@ const MobileCinemaMode: React.FC<MobileCinemaModeProps> = ({
         />
       </motion.div>
 
+      {/* Comments and reactions - bottom sheet */}
+      <AnimatePresence>
+        {showComments && (
+          <PhotoCommentsPanel
+            albumId={currentAlbum.id}
+            photoId={currentPhoto.id}
+            variant="sheet"
+            onClose={() => setShowComments(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Bottom progress bar - minimalistyczny, bez instrukcji */}
       <div className="absolute bottom-0 left-0 right-0 h-1">
         <div className="h-full bg-white/10">
           <motion.div
             className="h-full bg-white/40"
             initial={{ width: 0 }}
-            animate={{ width: `${((currentFlatIndex + 1) / allPhotos.length) * 100}%` }}
+            animate={{ width: `${((currentFlatIndex + 1) / totalPhotos) * 100}%` }}
             transition={{ type: 'spring', stiffness: 300, damping: 30 }}
           />
         </div>
         {/* Świetlisty wskaźnik */}
         <motion.div
           className="absolute top-1/2 -translate-y-1/2 w-2 h-2 bg-white rounded-full shadow-[0_0_8px_2px_rgba(255,255,255,0.6)]"
-          style={{ left: `${((currentFlatIndex + 1) / allPhotos.length) * 100}%` }}
+          style={{ left: `${((currentFlatIndex + 1) / totalPhotos) * 100}%` }}
           transition={{ type: 'spring', stiffness: 400, damping: 30 }}
         />
       </div>
@@ -408,6 +602,13 @@ interface MobileGalleryProps {
   onAlbumChange: (index: number) => void;
   onPhotoChange: (index: number) => void;
   onPhotoClick: (index: number) => void;
+  selection?: PhotoSelection;
+  proofing?: PhotoProofing;
+  photoSort: PhotoSortMode;
+  onPhotoSortToggle: () => void;
+  onSearch: () => void;
+  isLoadingPhotos: boolean;
+  onLoadMorePhotos: () => void;
 }
 
 // Helper: Generate random size multiplier for masonry (seeded by photo id for consistency)
@@ -440,6 +641,11 @@ const MobileLandscapeSlider: React.FC<MobileLandscapeSliderProps> = ({
   const [isDragging, setIsDragging] = useState(false);
   const dragStartX = useRef(0);
 
+  usePhotoPreloader(
+    getPreloadWindow(photos.length, activeIndex, index => photos[index], { wrap: true }),
+    LANDSCAPE_SLIDER_SIZES
+  );
+
   const handlePrev = useCallback(() => {
     if (photos.length === 0) return;
     const newIndex = (activeIndex - 1 + photos.length) % photos.length;
@@ -541,8 +747,9 @@ const MobileLandscapeSlider: React.FC<MobileLandscapeSliderProps> = ({
             onClick={() => index === activeIndex && onPhotoClick(activeIndex)}
           >
             <div className="relative rounded-lg overflow-hidden shadow-2xl shadow-black/50">
-              <img
-                src={photo.src}
+              <PhotoImage
+                photo={photo}
+                sizes={LANDSCAPE_SLIDER_SIZES}
                 alt={photo.title || ''}
                 className="w-full h-full object-cover"
                 style={{ maxHeight: '70vh', aspectRatio: '3/2' }}
@@ -561,15 +768,23 @@ const MobileLandscapeSlider: React.FC<MobileLandscapeSliderProps> = ({
 // MOBILE PORTRAIT MASONRY - Floating grid with fade mask
 // ============================================
 interface MobilePortraitMasonryProps {
+  albumId: string;
   photos: Photo[];
   onPhotoClick: (index: number) => void;
   activePhotoIndex: number;
   onActiveChange: (index: number) => void;
+  onNearEnd?: () => void; // scrolled to the last screenful of photos
+  selection?: PhotoSelection;
+  proofing?: PhotoProofing;
 }
 
 const MobilePortraitMasonry: React.FC<MobilePortraitMasonryProps> = ({
+  albumId,
   photos,
   onPhotoClick,
+  onNearEnd,
+  selection,
+  proofing,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollY, setScrollY] = useState(0);
@@ -706,7 +921,9 @@ const MobilePortraitMasonry: React.FC<MobilePortraitMasonryProps> = ({
 
   const handleScroll = () => {
     if (containerRef.current) {
-      setScrollY(containerRef.current.scrollTop);
+      const { scrollTop, clientHeight } = containerRef.current;
+      setScrollY(scrollTop);
+      if (scrollTop + clientHeight * 2 >= totalHeight) onNearEnd?.();
     }
   };
 
@@ -810,13 +1027,31 @@ const MobilePortraitMasonry: React.FC<MobilePortraitMasonryProps> = ({
                       whileTap={{ scale: 0.95 }}
                       onClick={() => onPhotoClick(index)}
                     >
-                      <img
+                      <PhotoImage
+                        photo={photo}
                         src={photo.thumbnail || photo.src}
+                        sizes="34vw"
                         alt=""
                         className="w-full h-full object-cover"
                         loading="lazy"
                         draggable={false}
                       />
+                      {selection && (
+                        <PhotoSelectButton
+                          selected={selection.isSelected(albumId, photo.id)}
+                          onToggle={() => selection.toggle(albumId, photo.id)}
+                          className="absolute top-1 right-1 w-6 h-6 p-0.5"
+                        />
+                      )}
+                      {proofing && (
+                        <PhotoProofingButtons
+                          albumId={albumId}
+                          photoId={photo.id}
+                          proofing={proofing}
+                          className="absolute bottom-1 right-1"
+                          buttonClassName="w-6 h-6 p-1"
+                        />
+                      )}
                     </motion.div>
                   );
                 })}
@@ -853,6 +1088,13 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
   onAlbumChange,
   onPhotoChange,
   onPhotoClick,
+  selection,
+  proofing,
+  photoSort,
+  onPhotoSortToggle,
+  onSearch,
+  isLoadingPhotos,
+  onLoadMorePhotos,
 }) => {
   const orientation = useOrientation();
   const currentAlbum = albums[activeAlbumIndex];
@@ -888,6 +1130,14 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
     }
   };
 
+  if (isLoadingPhotos) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <RefreshCw className="w-8 h-8 text-white/50 animate-spin" />
+      </div>
+    );
+  }
+
   if (!currentAlbum || photos.length === 0) {
     return (
       <div className="h-screen flex items-center justify-center text-white/40">
@@ -915,17 +1165,35 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
             {/* Counter */}
             <div className="absolute top-3 left-3 z-20 bg-black/50 backdrop-blur-sm px-2 py-1 rounded-lg">
               <span className="text-white/70 text-xs">
-                {activePhotoIndex + 1} / {photos.length}
+                {activePhotoIndex + 1} / {getPhotoCount(currentAlbum)}
               </span>
             </div>
 
-            {/* Fullscreen toggle */}
-            <button
-              onClick={toggleFullscreen}
-              className="absolute top-3 right-3 z-20 p-1.5 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
-            >
-              <Maximize className="w-4 h-4" />
-            </button>
+            {/* Search, sort and fullscreen toggles */}
+            <div className="absolute top-3 right-3 z-20 flex gap-1.5">
+              <button
+                onClick={onSearch}
+                className="p-1.5 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
+                aria-label="Szukaj"
+              >
+                <Search className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onPhotoSortToggle}
+                className={`p-1.5 backdrop-blur-sm rounded-lg ${
+                  photoSort === 'takenAt' ? 'bg-white/30 text-white' : 'bg-black/50 text-white/70'
+                }`}
+                aria-label="Sortuj według daty wykonania"
+              >
+                <CalendarClock className="w-4 h-4" />
+              </button>
+              <button
+                onClick={toggleFullscreen}
+                className="p-1.5 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
+              >
+                <Maximize className="w-4 h-4" />
+              </button>
+            </div>
 
             {/* 3D Slider */}
             <div className="w-full h-full pt-2 pb-4 pl-3 pr-2">
@@ -941,7 +1209,7 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
             <div className="absolute bottom-2 left-4 right-4 h-1 bg-white/10 rounded-full overflow-hidden">
               <motion.div
                 className="h-full bg-white/40 rounded-full"
-                animate={{ width: `${((activePhotoIndex + 1) / photos.length) * 100}%` }}
+                animate={{ width: `${((activePhotoIndex + 1) / getPhotoCount(currentAlbum)) * 100}%` }}
                 transition={{ type: 'spring', stiffness: 300, damping: 30 }}
               />
             </div>
@@ -1006,20 +1274,42 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
                 </motion.button>
               ))}
             </div>
-            <button
-              onClick={toggleFullscreen}
-              className="p-2 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
-            >
-              <Maximize className="w-4 h-4" />
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={onSearch}
+                className="p-2 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
+                aria-label="Szukaj"
+              >
+                <Search className="w-4 h-4" />
+              </button>
+              <button
+                onClick={toggleFullscreen}
+                className="p-2 bg-black/50 backdrop-blur-sm rounded-lg text-white/70"
+              >
+                <Maximize className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onPhotoSortToggle}
+                className={`p-2 backdrop-blur-sm rounded-lg ${
+                  photoSort === 'takenAt' ? 'bg-white/30 text-white' : 'bg-black/50 text-white/70'
+                }`}
+                aria-label="Sortuj według daty wykonania"
+              >
+                <CalendarClock className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
           {/* Masonry grid */}
           <MobilePortraitMasonry
+            albumId={currentAlbum.id}
             photos={photos}
+            onNearEnd={onLoadMorePhotos}
             activePhotoIndex={activePhotoIndex}
             onActiveChange={onPhotoChange}
             onPhotoClick={onPhotoClick}
+            selection={selection}
+            proofing={proofing}
           />
         </motion.div>
       )}
@@ -1032,57 +1322,133 @@ const MobileGallery: React.FC<MobileGalleryProps> = ({
 // ============================================
 interface CinemaModeProps {
   albums: Album[];
-  initialAlbumIndex: number;
-  initialPhotoIndex: number;
+  albumIndex: number;
+  photoIndex: number;
+  onNavigate: (albumIndex: number, photoIndex: number, options?: { replace?: boolean }) => void;
   onClose: () => void;
+  selection?: PhotoSelection;
+  proofing?: PhotoProofing;
 }
 
+const SLIDESHOW_TRANSITION_LABELS: Record<SlideshowTransition, string> = {
+  kenBurns: 'Ken Burns',
+  crossfade: 'Przenikanie',
+  slide: 'Przesunięcie',
+};
+
 const CinemaMode: React.FC<CinemaModeProps> = ({
   albums,
-  initialAlbumIndex,
-  initialPhotoIndex,
+  albumIndex,
+  photoIndex,
+  onNavigate,
   onClose,
+  selection,
+  proofing,
 }) => {
-  const [albumIndex, setAlbumIndex] = useState(initialAlbumIndex);
-  const [photoIndex, setPhotoIndex] = useState(initialPhotoIndex);
   const [touchStart, setTouchStart] = useState<{ x: number; y: number } | null>(null);
   const [dragOffset, setDragOffset] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
   const [imageLoaded, setImageLoaded] = useState(false);
+  const [imageFailed, setImageFailed] = useState(false);
+  const [showInfo, setShowInfo] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [view, setView] = useState<ZoomView>(FIT_VIEW);
+  const [isPanning, setIsPanning] = useState(false);
+  const [fittedWidth, setFittedWidth] = useState(0);
+  const [showMaxFile, setShowMaxFile] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [slideshowSettings, setSlideshowSettings] = useState<SlideshowSettings>(getStoredSlideshowSettings);
+  const [showSlideshowSettings, setShowSlideshowSettings] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const audioRef = useRef<HTMLAudioElement>(null);
   const scrollbarRef = useRef<HTMLDivElement>(null);
   const isScrollbarDragging = useRef(false);
+  const photoAreaRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const panStart = useRef<{ x: number; y: number; view: ZoomView } | null>(null);
 
   const currentAlbum = albums[albumIndex];
   const currentPhoto = currentAlbum?.photos[photoIndex];
 
-  // Flatten all photos for seamless navigation
-  const allPhotos = useMemo(() => {
-    return albums.flatMap((album, aIdx) => 
-      album.photos.map((photo, pIdx) => ({ 
-        photo, 
-        albumIndex: aIdx, 
-        photoIndex: pIdx,
-        albumName: album.name 
-      }))
-    );
-  }, [albums]);
+  // Seamless navigation across albums; positions count photos that are not loaded yet too
+  const totalPhotos = useMemo(() => getTotalPhotoCount(albums), [albums]);
+  const currentFlatIndex = useMemo(
+    () => getFlatPhotoIndex(albums, albumIndex, photoIndex),
+    [albums, albumIndex, photoIndex]
+  );
 
-  // Find current position in flattened array
-  const currentFlatIndex = useMemo(() => {
-    let idx = 0;
-    for (let a = 0; a < albumIndex; a++) {
-      idx += albums[a].photos.length;
-    }
-    return idx + photoIndex;
-  }, [albums, albumIndex, photoIndex]);
+  // Photo comes from the URL - reset loading state and zoom whenever it changes
+  useEffect(() => {
+    setImageLoaded(false);
+    setImageFailed(false);
+    setView(FIT_VIEW);
+    setShowMaxFile(false);
+  }, [albumIndex, photoIndex]);
+
+  // Layout of the photo fitted to the screen, which zoom and pan are relative to
+  const getZoomGeometry = useCallback((): ZoomGeometry | null => {
+    const area = photoAreaRef.current;
+    const image = imageRef.current;
+    if (!area || !image || image.offsetWidth === 0) return null;
+    return {
+      viewport: { width: area.clientWidth, height: area.clientHeight },
+      box: { left: image.offsetLeft, top: image.offsetTop, width: image.offsetWidth, height: image.offsetHeight },
+    };
+  }, []);
 
-  const goToFlatIndex = useCallback((flatIdx: number) => {
-    if (flatIdx < 0 || flatIdx >= allPhotos.length) return;
-    const target = allPhotos[flatIdx];
-    setImageLoaded(false); // Reset loading state
-    setAlbumIndex(target.albumIndex);
-    setPhotoIndex(target.photoIndex);
-  }, [allPhotos]);
+  // Zoom at which one pixel of the gallery file covers one screen pixel
+  const pixelWidth = currentPhoto?.width ?? imageRef.current?.naturalWidth ?? 0;
+  const oneToOneZoom = fittedWidth > 0 && pixelWidth > 0
+    ? pixelWidth / (fittedWidth * window.devicePixelRatio)
+    : 1;
+
+  const measureFittedPhoto = useCallback(() => {
+    setFittedWidth(imageRef.current?.offsetWidth ?? 0);
+    const geometry = getZoomGeometry();
+    if (geometry) setView(prev => clampView(prev, geometry));
+  }, [getZoomGeometry]);
+
+  useEffect(() => {
+    window.addEventListener('resize', measureFittedPhoto);
+    return () => window.removeEventListener('resize', measureFittedPhoto);
+  }, [measureFittedPhoto]);
+
+  // Wheel and trackpad zoom towards the cursor; the listener is not passive so the page does not scroll
+  const hasPhoto = !!currentPhoto;
+  useEffect(() => {
+    const area = photoAreaRef.current;
+    if (!area) return;
+    const handleWheel = (event: WheelEvent) => {
+      const geometry = getZoomGeometry();
+      if (!geometry) return;
+      event.preventDefault();
+      const rect = area.getBoundingClientRect();
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * 16 : event.deltaY;
+      // Trackpad pinches arrive as wheel events with ctrlKey and much smaller steps
+      const factor = Math.exp(-delta * (event.ctrlKey ? 0.01 : 0.002));
+      const point = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setView(prev => zoomAtPoint(prev, prev.zoom * factor, point, geometry));
+    };
+    area.addEventListener('wheel', handleWheel, { passive: false });
+    return () => area.removeEventListener('wheel', handleWheel);
+  }, [getZoomGeometry, hasPhoto, isPlaying]);
+
+  // Past the gallery file's own resolution owners get the Max file, kept until the next photo
+  useEffect(() => {
+    if (currentPhoto?.maxSrc && view.zoom > oneToOneZoom) setShowMaxFile(true);
+  }, [currentPhoto?.maxSrc, view.zoom, oneToOneZoom]);
+
+  const goToFlatIndex = useCallback((flatIdx: number, options?: { replace?: boolean }) => {
+    if (flatIdx === currentFlatIndex) return;
+    const target = locateFlatPhotoIndex(albums, flatIdx);
+    if (target) onNavigate(target.albumIndex, target.photoIndex, options);
+  }, [albums, currentFlatIndex, onNavigate]);
+
+  usePhotoPreloader(
+    getPreloadWindow(totalPhotos, currentFlatIndex, index => getPhotoAtFlatIndex(albums, index)),
+    CINEMA_SIZES
+  );
 
   const goNext = useCallback(() => {
     goToFlatIndex(currentFlatIndex + 1);
@@ -1092,21 +1458,99 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
     goToFlatIndex(currentFlatIndex - 1);
   }, [currentFlatIndex, goToFlatIndex]);
 
+  // Slideshow: steps replace the history entry, like scrubbing
+  const advanceSlide = useCallback(() => {
+    if (!albums[albumIndex]) return;
+    goToFlatIndex(getNextSlideIndex(albums, albumIndex, photoIndex, slideshowSettings.scope), { replace: true });
+  }, [albums, albumIndex, photoIndex, slideshowSettings.scope, goToFlatIndex]);
+
+  const toggleSlideshow = useCallback(() => {
+    setIsPlaying(prev => !prev);
+    setView(FIT_VIEW);
+    setShowSlideshowSettings(false);
+  }, []);
+
+  const updateSlideshowSettings = (changes: Partial<SlideshowSettings>) => {
+    setSlideshowSettings(prev => {
+      const next = { ...prev, ...changes };
+      storeSlideshowSettings(next);
+      return next;
+    });
+  };
+
+  useWakeLock(isPlaying);
+
+  // The album's soundtrack plays along; with scope 'all' it changes with the album.
+  // Playback starts from the play click, which counts as the gesture browsers require
+  const audioTrackSrc = currentAlbum?.audioTrack?.src;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!isPlaying || !audioTrackSrc) {
+      audio.pause();
+      return;
+    }
+    if (audio.getAttribute('src') !== audioTrackSrc) audio.src = audioTrackSrc;
+    // A soundtrack the browser refuses to play leaves the slideshow silent, nothing more
+    audio.play().catch(() => {});
+  }, [isPlaying, audioTrackSrc]);
+
+  // While playing, controls and cursor hide after a few seconds without mouse movement
+  useEffect(() => {
+    if (!isPlaying) {
+      setControlsVisible(true);
+      return;
+    }
+    let timer = window.setTimeout(() => setControlsVisible(false), 3000);
+    const handleMouseMove = () => {
+      setControlsVisible(true);
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => setControlsVisible(false), 3000);
+    };
+    window.addEventListener('mousemove', handleMouseMove);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('mousemove', handleMouseMove);
+    };
+  }, [isPlaying]);
+  const controlsHidden = isPlaying && !controlsVisible && !showSlideshowSettings;
+
   // Close handler
   const handleClose = useCallback(() => {
     onClose();
   }, [onClose]);
 
-  // Keyboard navigation
+  // Info and comments share the right edge, so opening one closes the other
+  const toggleInfo = useCallback(() => {
+    setShowComments(false);
+    setShowInfo(prev => !prev);
+  }, []);
+  const toggleComments = useCallback(() => {
+    if (isDemoMode) return;
+    setShowInfo(false);
+    setShowComments(prev => !prev);
+  }, []);
+
+  // Keyboard navigation; Escape leaves zoom before it closes the viewer
+  const isZoomed = view.zoom > 1;
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'ArrowRight') goNext();
       else if (e.key === 'ArrowLeft') goPrev();
-      else if (e.key === 'Escape') handleClose();
+      else if (e.key === 'Escape') {
+        if (isZoomed) setView(FIT_VIEW);
+        else handleClose();
+      }
+      else if (e.key === 'i' || e.key === 'I') toggleInfo();
+      else if (e.key === 'c' || e.key === 'C') toggleComments();
+      else if (e.key === ' ') {
+        e.preventDefault();
+        toggleSlideshow();
+      }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [goNext, goPrev, handleClose]);
+  }, [goNext, goPrev, handleClose, isZoomed, toggleSlideshow, toggleInfo, toggleComments]);
 
   // Fullscreen change listener
   useEffect(() => {
@@ -1146,18 +1590,40 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
     setDragOffset(0);
   };
 
-  // Mouse drag handlers for photo area only
+  // Mouse drag handlers for photo area only: they pan a zoomed photo and swipe otherwise
   const handlePhotoDragStart = (e: React.MouseEvent) => {
+    if (isZoomed) {
+      panStart.current = { x: e.clientX, y: e.clientY, view };
+      setIsPanning(true);
+      return;
+    }
     setTouchStart({ x: e.clientX, y: e.clientY });
   };
 
   const handlePhotoDragMove = (e: React.MouseEvent) => {
+    const start = panStart.current;
+    if (start) {
+      const geometry = getZoomGeometry();
+      if (geometry) {
+        setView(clampView({
+          zoom: start.view.zoom,
+          x: start.view.x + e.clientX - start.x,
+          y: start.view.y + e.clientY - start.y,
+        }, geometry));
+      }
+      return;
+    }
     if (!touchStart) return;
     const deltaX = e.clientX - touchStart.x;
     setDragOffset(deltaX);
   };
 
   const handlePhotoDragEnd = () => {
+    if (panStart.current) {
+      panStart.current = null;
+      setIsPanning(false);
+      return;
+    }
     if (!touchStart) return;
     const threshold = 80;
     if (dragOffset > threshold) goPrev();
@@ -1166,15 +1632,29 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
     setDragOffset(0);
   };
 
+  // Double-click toggles between fitted and 1:1 (twice the fitted size for photos that fit at 1:1)
+  const handlePhotoDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isZoomed) {
+      setView(FIT_VIEW);
+      return;
+    }
+    const geometry = getZoomGeometry();
+    if (!geometry) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    setView(zoomAtPoint(view, oneToOneZoom > 1 ? oneToOneZoom : 2, point, geometry));
+  };
+
   const updateCinemaScrollbar = useCallback((clientX: number) => {
-    if (!scrollbarRef.current || allPhotos.length <= 1) return;
+    if (!scrollbarRef.current || totalPhotos <= 1) return;
     const rect = scrollbarRef.current.getBoundingClientRect();
     if (rect.width === 0) return;
     const ratio = (clientX - rect.left) / rect.width;
     const clamped = Math.min(Math.max(ratio, 0), 1);
-    const newIndex = Math.round(clamped * (allPhotos.length - 1));
-    goToFlatIndex(newIndex);
-  }, [allPhotos.length, goToFlatIndex]);
+    const newIndex = Math.round(clamped * (totalPhotos - 1));
+    // Scrubbing would flood the history, so it replaces the current entry
+    goToFlatIndex(newIndex, { replace: true });
+  }, [totalPhotos, goToFlatIndex]);
 
   useEffect(() => {
     const handlePointerMove = (event: PointerEvent) => {
@@ -1199,7 +1679,7 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
   }, [updateCinemaScrollbar]);
 
   const handleScrollbarPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
-    if (allPhotos.length <= 1) return;
+    if (totalPhotos <= 1) return;
     event.preventDefault();
     isScrollbarDragging.current = true;
     updateCinemaScrollbar(event.clientX);
@@ -1208,13 +1688,23 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
   if (!currentPhoto) return null;
 
   // Progress percentage for scrollbar
-  const progressPercentage = allPhotos.length > 1 
-    ? (currentFlatIndex / (allPhotos.length - 1)) * 100 
+  const progressPercentage = totalPhotos > 1 
+    ? (currentFlatIndex / (totalPhotos - 1)) * 100 
     : 0;
 
+  const zoomGeometry = isZoomed ? getZoomGeometry() : null;
+  const chromeClass = `transition-opacity duration-500 ${controlsHidden ? 'opacity-0 pointer-events-none' : ''}`;
+  const displayedPhoto = imageFailed && currentPhoto.thumbnail
+    // The thumbnail stands in when the photo does not load; the copies go too,
+    // since the browser would keep picking them over src
+    ? { ...currentPhoto, src: currentPhoto.thumbnail, variants: undefined }
+    : showMaxFile && currentPhoto.maxSrc
+      ? { ...currentPhoto, src: currentPhoto.maxSrc, variants: undefined }
+      : currentPhoto;
+
   return (
     <motion.div
-      className="fixed inset-0 z-[100] flex flex-col select-none overflow-hidden bg-black"
+      className={`fixed inset-0 z-[100] flex flex-col select-none overflow-hidden bg-black ${controlsHidden ? 'cursor-none' : ''}`}
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
       exit={{ opacity: 0 }}
@@ -1232,7 +1722,7 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
         transition={{ duration: 0.3 }}
       >
         <img
-          src={currentPhoto.src}
+          src={getPhotoVariantUrl(currentPhoto, 400)}
           alt=""
           className="absolute inset-0 w-full h-full object-cover"
           style={{
@@ -1250,15 +1740,160 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
         onClick={handleClose}
       />
 
+      <audio ref={audioRef} loop muted={isMuted} />
+
       {/* Top bar with controls - minimalistyczny */}
-      <div className="absolute top-0 left-0 right-0 z-20 flex items-center justify-between p-4">
+      <div className={`absolute top-0 left-0 right-0 z-20 flex items-center justify-between p-4 ${chromeClass}`}>
         {/* Photo counter only - bez nazwy albumu */}
         <div className="text-white/50 text-sm bg-black/30 backdrop-blur-sm px-3 py-1.5 rounded-lg">
-          {currentFlatIndex + 1} / {allPhotos.length}
+          {currentFlatIndex + 1} / {totalPhotos}
         </div>
 
         {/* Right controls */}
-        <div className="flex items-center gap-2">
+        <div className="relative flex items-center gap-2">
+          {/* Slideshow */}
+          <motion.button
+            className={`p-2.5 backdrop-blur-sm rounded-full transition-colors ${
+              isPlaying ? 'bg-white/30' : 'bg-black/30 hover:bg-black/50'
+            }`}
+            onClick={toggleSlideshow}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title={isPlaying ? 'Zatrzymaj pokaz slajdów (spacja)' : 'Pokaz slajdów (spacja)'}
+          >
+            {isPlaying ? <Pause className="w-5 h-5 text-white" /> : <Play className="w-5 h-5 text-white/70" />}
+          </motion.button>
+          <motion.button
+            className={`p-2.5 backdrop-blur-sm rounded-full transition-colors ${
+              showSlideshowSettings ? 'bg-white/30' : 'bg-black/30 hover:bg-black/50'
+            }`}
+            onClick={() => setShowSlideshowSettings(prev => !prev)}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title="Ustawienia pokazu slajdów"
+          >
+            <Settings2 className="w-5 h-5 text-white/70" />
+          </motion.button>
+          {currentAlbum.audioTrack && (
+            <motion.button
+              className="p-2.5 bg-black/30 hover:bg-black/50 backdrop-blur-sm rounded-full transition-colors"
+              onClick={() => setIsMuted(prev => !prev)}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title={isMuted ? 'Włącz muzykę' : 'Wycisz muzykę'}
+            >
+              {isMuted ? <VolumeX className="w-5 h-5 text-white/70" /> : <Volume2 className="w-5 h-5 text-white/70" />}
+            </motion.button>
+          )}
+
+          <AnimatePresence>
+            {showSlideshowSettings && (
+              <motion.div
+                className="absolute top-full right-0 mt-2 w-72 p-4 space-y-4 bg-black/70 backdrop-blur-md rounded-xl border border-white/10 text-sm"
+                initial={{ opacity: 0, y: -8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -8 }}
+              >
+                <div>
+                  <p className="text-white/50 text-xs mb-2">Czas slajdu</p>
+                  <div className="flex gap-1">
+                    {SLIDESHOW_INTERVALS.map(interval => (
+                      <button
+                        key={interval}
+                        onClick={() => updateSlideshowSettings({ interval })}
+                        className={`flex-1 py-1.5 rounded-lg transition-colors ${
+                          slideshowSettings.interval === interval ? 'bg-white text-black' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        {interval} s
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-white/50 text-xs mb-2">Przejście</p>
+                  <div className="flex gap-1">
+                    {(Object.keys(SLIDESHOW_TRANSITION_LABELS) as SlideshowTransition[]).map(transition => (
+                      <button
+                        key={transition}
+                        onClick={() => updateSlideshowSettings({ transition })}
+                        className={`flex-1 py-1.5 rounded-lg transition-colors ${
+                          slideshowSettings.transition === transition ? 'bg-white text-black' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        {SLIDESHOW_TRANSITION_LABELS[transition]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <p className="text-white/50 text-xs mb-2">Zapętlaj</p>
+                  <div className="flex gap-1">
+                    {([['album', 'Ten album'], ['all', 'Wszystkie albumy']] as const).map(([scope, label]) => (
+                      <button
+                        key={scope}
+                        onClick={() => updateSlideshowSettings({ scope })}
+                        className={`flex-1 py-1.5 rounded-lg transition-colors ${
+                          slideshowSettings.scope === scope ? 'bg-white text-black' : 'bg-white/10 text-white/70 hover:bg-white/20'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Favourite and proofing lists */}
+          {proofing && (
+            <PhotoProofingButtons
+              albumId={currentAlbum.id}
+              photoId={currentPhoto.id}
+              proofing={proofing}
+              className="gap-2"
+              buttonClassName="w-10 h-10 p-2.5 bg-black/30"
+            />
+          )}
+
+          {/* Select photo for download */}
+          {selection && (
+            <PhotoSelectButton
+              selected={selection.isSelected(currentAlbum.id, currentPhoto.id)}
+              onToggle={() => selection.toggle(currentAlbum.id, currentPhoto.id)}
+              className="w-10 h-10 p-2.5 bg-black/30"
+            />
+          )}
+
+          {/* Comments and reactions toggle */}
+          {!isDemoMode && (
+            <motion.button
+              className={`p-2.5 backdrop-blur-sm rounded-full transition-colors ${
+                showComments ? 'bg-white/30' : 'bg-black/30 hover:bg-black/50'
+              }`}
+              onClick={toggleComments}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              title={showComments ? "Ukryj komentarze (C)" : "Komentarze i reakcje (C)"}
+            >
+              <MessageCircle className="w-5 h-5 text-white/70" />
+            </motion.button>
+          )}
+
+          {/* Photo info toggle */}
+          <motion.button
+            className={`p-2.5 backdrop-blur-sm rounded-full transition-colors ${
+              showInfo ? 'bg-white/30' : 'bg-black/30 hover:bg-black/50'
+            }`}
+            onClick={toggleInfo}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title={showInfo ? "Ukryj informacje (I)" : "Informacje o zdjęciu (I)"}
+          >
+            <Info className="w-5 h-5 text-white/70" />
+          </motion.button>
+
           {/* Fullscreen button */}
           <motion.button
             className="p-2.5 bg-black/30 hover:bg-black/50 backdrop-blur-sm rounded-full transition-colors"
@@ -1282,8 +1917,31 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
         </div>
       </div>
 
+      {/* Photo metadata */}
+      <AnimatePresence>
+        {showInfo && (
+          <PhotoInfoPanel
+            photo={currentPhoto}
+            albumName={currentAlbum.name}
+            onClose={() => setShowInfo(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Comments and reactions */}
+      <AnimatePresence>
+        {showComments && (
+          <PhotoCommentsPanel
+            albumId={currentAlbum.id}
+            photoId={currentPhoto.id}
+            variant="sidebar"
+            onClose={() => setShowComments(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Navigation arrows - subtle, same size */}
-      <div className="absolute left-0 top-0 bottom-0 w-16 md:w-20 z-10 flex items-center justify-start pl-2 md:pl-3">
+      <div className={`absolute left-0 top-0 bottom-0 w-16 md:w-20 z-10 flex items-center justify-start pl-2 md:pl-3 ${chromeClass}`}>
         {currentFlatIndex > 0 && (
           <motion.button
             className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
@@ -1296,8 +1954,8 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
         )}
       </div>
 
-      <div className="absolute right-0 top-0 bottom-0 w-16 md:w-20 z-10 flex items-center justify-end pr-2 md:pr-3">
-        {currentFlatIndex < allPhotos.length - 1 && (
+      <div className={`absolute right-0 top-0 bottom-0 w-16 md:w-20 z-10 flex items-center justify-end pr-2 md:pr-3 ${chromeClass}`}>
+        {currentFlatIndex < totalPhotos - 1 && (
           <motion.button
             className="p-2 bg-white/10 hover:bg-white/20 rounded-full transition-colors"
             onClick={goNext}
@@ -1310,48 +1968,84 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
       </div>
 
       {/* Photo container - maksymalna wielkość */}
+      {isPlaying ? (
+        <div className="flex-1 relative z-[5]">
+          <Slideshow
+            photo={currentPhoto}
+            position={currentFlatIndex}
+            settings={slideshowSettings}
+            sizes={CINEMA_SIZES}
+            onAdvance={advanceSlide}
+          />
+        </div>
+      ) : (
       <div 
-        className="flex-1 relative z-[5] flex items-center justify-center cursor-grab active:cursor-grabbing p-1 pb-4"
+        ref={photoAreaRef}
+        className="flex-1 relative z-[5] flex items-center justify-center overflow-hidden cursor-grab active:cursor-grabbing p-1 pb-4"
         onMouseDown={handlePhotoDragStart}
         onMouseMove={handlePhotoDragMove}
         onMouseUp={handlePhotoDragEnd}
         onMouseLeave={handlePhotoDragEnd}
+        onDoubleClick={handlePhotoDoubleClick}
       >
-        {/* Loading placeholder */}
-        {!imageLoaded && (
+        {/* Loading spinner, for photos without a blurred placeholder */}
+        {!imageLoaded && !currentPhoto.placeholder && (
           <div className="absolute inset-0 flex items-center justify-center">
             <div className="w-16 h-16 border-4 border-white/20 border-t-white/60 rounded-full animate-spin" />
           </div>
         )}
         
-        <motion.img
+        <PhotoImage
           key={`${albumIndex}-${photoIndex}`}
-          src={currentPhoto.src}
+          ref={imageRef}
+          photo={displayedPhoto}
+          sizes={CINEMA_SIZES}
+          placeholderClassName="object-contain p-1 pb-4"
           alt={currentPhoto.title || ''}
           className={`max-w-full max-h-[92vh] w-auto h-auto object-contain rounded-lg shadow-2xl pointer-events-none transition-opacity duration-300 ${
             imageLoaded ? 'opacity-100' : 'opacity-0'
           }`}
-          style={{
-            transform: `translateX(${dragOffset * 0.3}px)`,
-            transition: dragOffset === 0 ? 'transform 0.2s ease-out' : 'none',
-          }}
           draggable={false}
-          onLoad={() => setImageLoaded(true)}
-          onError={(e) => {
+          onLoad={() => {
+            setImageLoaded(true);
+            measureFittedPhoto();
+          }}
+          onError={() => {
             console.error('Failed to load image:', currentPhoto.src);
             setImageLoaded(true);
-            if (currentPhoto.thumbnail) {
-              (e.target as HTMLImageElement).src = currentPhoto.thumbnail;
-            }
+            setImageFailed(true);
           }}
           initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: imageLoaded ? 1 : 0, scale: 1 }}
-          transition={{ duration: 0.2 }}
+          animate={{
+            opacity: imageLoaded ? 1 : 0,
+            scale: view.zoom,
+            x: view.x + dragOffset * 0.3,
+            y: view.y,
+          }}
+          // Follows the pointer directly while dragging, eases otherwise (wheel steps, double-click)
+          transition={{ duration: isPanning || dragOffset !== 0 ? 0 : 0.2 }}
         />
       </div>
+      )}
+
+      <AnimatePresence>
+        {zoomGeometry && (
+          <ZoomMinimap
+            className="absolute left-20 md:left-24 bottom-10"
+            src={getPhotoVariantUrl(currentPhoto, 400)}
+            aspectRatio={zoomGeometry.box.width / zoomGeometry.box.height}
+            visibleArea={getVisibleArea(view, zoomGeometry)}
+            zoomPercent={Math.round((view.zoom / oneToOneZoom) * 100)}
+            onNavigate={point => {
+              const geometry = getZoomGeometry();
+              if (geometry) setView(prev => centreOnPoint(prev, point, geometry));
+            }}
+          />
+        )}
+      </AnimatePresence>
 
       {/* Bottom scrollbar - minimalistyczny, cienki z podziałkami wewnątrz */}
-      <div className="absolute bottom-3 left-0 right-0 z-20 px-8">
+      <div className={`absolute bottom-3 left-0 right-0 z-20 px-8 ${chromeClass}`}>
         <div 
           ref={scrollbarRef}
           className="relative h-1 bg-white/15 rounded-full cursor-pointer"
@@ -1360,11 +2054,7 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
           {/* Album markers - podziałki wewnątrz paska */}
           {albums.map((album, idx) => {
             if (idx === 0) return null;
-            let photosBeforeAlbum = 0;
-            for (let i = 0; i < idx; i++) {
-              photosBeforeAlbum += albums[i].photos.length;
-            }
-            const markerPosition = (photosBeforeAlbum / allPhotos.length) * 100;
+            const markerPosition = (getFlatPhotoIndex(albums, idx, 0) / totalPhotos) * 100;
             return (
               <div
                 key={album.id}
@@ -1397,17 +2087,26 @@ const CinemaMode: React.FC<CinemaModeProps> = ({
 };
 
 interface SliderProps {
+  albumId: string;
   photos: Photo[];
+  isLoading?: boolean; // photo pages the slider needs are on their way
   onPhotoClick: (index: number) => void;
   activeIndex: number;
   onActiveChange: (index: number) => void;
+  selection?: PhotoSelection;
+  proofing?: PhotoProofing;
   className?: string;
 }
 
-const Slider3D: React.FC<SliderProps> = ({ photos, onPhotoClick, activeIndex, onActiveChange, className = '' }) => {
+const Slider3D: React.FC<SliderProps> = ({ albumId, photos, isLoading, onPhotoClick, activeIndex, onActiveChange, selection, proofing, className = '' }) => {
   const [isDragging, setIsDragging] = useState(false);
   const dragStartX = useRef(0);
 
+  usePhotoPreloader(
+    getPreloadWindow(photos.length, activeIndex, index => photos[index], { wrap: true }),
+    SLIDER_3D_SIZES
+  );
+
   const handlePrev = useCallback(() => {
     if (photos.length === 0) return;
     const newIndex = (activeIndex - 1 + photos.length) % photos.length;
@@ -1494,6 +2193,14 @@ const Slider3D: React.FC<SliderProps> = ({ photos, onPhotoClick, activeIndex, on
     };
   };
 
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <RefreshCw className="w-8 h-8 text-white/50 animate-spin" />
+      </div>
+    );
+  }
+
   if (photos.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-white/40">
@@ -1528,13 +2235,30 @@ const Slider3D: React.FC<SliderProps> = ({ photos, onPhotoClick, activeIndex, on
             onClick={() => index === activeIndex && onPhotoClick(activeIndex)}
           >
             <div className="relative rounded-xl md:rounded-2xl overflow-hidden shadow-2xl shadow-black/50">
-              <img
-                src={photo.src}
+              <PhotoImage
+                photo={photo}
+                sizes={SLIDER_3D_SIZES}
                 alt={photo.title || ''}
                 className="w-full aspect-[3/2] object-cover"
                 draggable={false}
                 loading="lazy"
               />
+              {selection && index === activeIndex && (
+                <PhotoSelectButton
+                  selected={selection.isSelected(albumId, photo.id)}
+                  onToggle={() => selection.toggle(albumId, photo.id)}
+                  className="absolute top-3 right-3 w-8 h-8 p-1"
+                />
+              )}
+              {proofing && index === activeIndex && (
+                <PhotoProofingButtons
+                  albumId={albumId}
+                  photoId={photo.id}
+                  proofing={proofing}
+                  className="absolute top-3 left-3 gap-2"
+                  buttonClassName="w-8 h-8 p-1.5"
+                />
+              )}
             </div>
           </div>
         ))}
@@ -1544,100 +2268,308 @@ const Slider3D: React.FC<SliderProps> = ({ photos, onPhotoClick, activeIndex, on
 };
 
 // ============================================
-// GALLERY PAGE - Clean UI
+// PASSWORD SCREEN - Shared by gallery and admin
 // ============================================
-const PASSWORD_OWNER = 'lena2025!';  // Pełny dostęp z pobieraniem
-const PASSWORD_GUEST = 'lenka2025';   // Tylko podgląd, bez pobierania
-
-type UserRole = 'owner' | 'guest' | null;
+interface PasswordScreenProps {
+  title: string;
+  subtitle?: string;
+  onLogin: (password: string) => Promise<void>;
+}
 
-const GalleryPage: React.FC = () => {
-  const isMobile = useIsMobile();
-  const [albums, setAlbums] = useState<Album[]>([]);
-  const [activeAlbumIndex, setActiveAlbumIndex] = useState(0);
-  const [activePhotoIndex, setActivePhotoIndex] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [selectedAlbums, setSelectedAlbums] = useState<Set<string>>(new Set());
-  const [cinemaMode, setCinemaMode] = useState<{ albumIndex: number; photoIndex: number } | null>(null);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [userRole, setUserRole] = useState<UserRole>(() => {
-    const saved = sessionStorage.getItem('gallery_role');
-    return (saved === 'owner' || saved === 'guest') ? saved : null;
-  });
+const PasswordScreen: React.FC<PasswordScreenProps> = ({
+  title,
+  subtitle = 'Wprowadź hasło aby kontynuować',
+  onLogin,
+}) => {
   const [passwordInput, setPasswordInput] = useState('');
-  const [passwordError, setPasswordError] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
-  
-  // Scrollbar dragging refs
-  const galleryScrollbarRef = useRef<HTMLDivElement>(null);
-  const isGalleryScrollbarDragging = useRef(false);
-
-  const currentAlbum = albums[activeAlbumIndex];
-  const canDownload = userRole === 'owner';
-  const selectedCount = selectedAlbums.size;
-
-  // Password check
-  const handleLogin = () => {
-    if (passwordInput === PASSWORD_OWNER) {
-      setUserRole('owner');
-      sessionStorage.setItem('gallery_role', 'owner');
-      setPasswordError(false);
-    } else if (passwordInput === PASSWORD_GUEST) {
-      setUserRole('guest');
-      sessionStorage.setItem('gallery_role', 'guest');
-      setPasswordError(false);
-    } else {
-      setPasswordError(true);
-    }
-  };
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
 
-  // Fetch albums
-  const fetchAlbums = useCallback(async () => {
-    setIsLoading(true);
+  // The server decides the role and signs a session token
+  const handleLogin = async () => {
+    if (isLoggingIn || passwordInput === '') return;
+    setIsLoggingIn(true);
     try {
-      const backendAvailable = await checkHealth();
-      if (backendAvailable) {
-        const data = await getAlbums();
-        const transformed = data.map(album => ({
-          ...album,
-          thumbnail: getThumbnailUrl(album.thumbnail),
-          photos: album.photos.map(photo => ({
-            ...photo,
-            src: getImageUrl(photo.src),
-            thumbnail: photo.thumbnail ? getThumbnailUrl(photo.thumbnail) : undefined,
-          })),
-        }));
-        setAlbums(transformed);
-      } else {
-        setAlbums(mockAlbums);
-      }
-    } catch {
-      setAlbums(mockAlbums);
+      await onLogin(passwordInput);
+      setPasswordError(null);
+    } catch (error) {
+      setPasswordError(error instanceof Error ? error.message : 'Nieprawidłowe hasło');
     } finally {
-      setIsLoading(false);
+      setIsLoggingIn(false);
     }
-  }, []);
-
-  useEffect(() => { fetchAlbums(); }, []);
-
-  // Scrollbar dragging logic for gallery
-  const updateGalleryScrollbar = useCallback((clientX: number) => {
-    if (!galleryScrollbarRef.current || !currentAlbum || currentAlbum.photos.length <= 1) return;
-    const rect = galleryScrollbarRef.current.getBoundingClientRect();
-    if (rect.width === 0) return;
-    const ratio = (clientX - rect.left) / rect.width;
-    const clamped = Math.min(Math.max(ratio, 0), 1);
-    const nextIndex = Math.round(clamped * (currentAlbum.photos.length - 1));
-    setActivePhotoIndex(nextIndex);
-  }, [currentAlbum]);
-
-  useEffect(() => {
-    const handlePointerMove = (event: PointerEvent) => {
-      if (!isGalleryScrollbarDragging.current) return;
-      event.preventDefault();
-      updateGalleryScrollbar(event.clientX);
-    };
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/5 backdrop-blur-xl rounded-2xl p-8 w-full max-w-sm border border-white/10"
+      >
+        <div className="flex justify-center mb-6">
+          <div className="p-4 bg-white/10 rounded-full">
+            <Lock className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h1 className="text-2xl font-bold text-white text-center mb-2">{title}</h1>
+        <p className="text-white/50 text-center text-sm mb-6">{subtitle}</p>
+        
+        {/* Password input with eye toggle */}
+        <div className="relative">
+          <input
+            type={showPassword ? 'text' : 'password'}
+            value={passwordInput}
+            onChange={(e) => {
+              setPasswordInput(e.target.value);
+              setPasswordError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+            placeholder="Hasło lub kod albumu"
+            className={`w-full px-4 py-3 pr-12 bg-white/10 border rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30 ${
+              passwordError ? 'border-red-500' : 'border-white/20'
+            }`}
+          />
+          <button
+            type="button"
+            onClick={() => setShowPassword(!showPassword)}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-white/50 hover:text-white/80 transition-colors"
+            title={showPassword ? 'Ukryj hasło' : 'Pokaż hasło'}
+          >
+            {showPassword ? (
+              <EyeOff className="w-5 h-5" />
+            ) : (
+              <Eye className="w-5 h-5" />
+            )}
+          </button>
+        </div>
+        
+        {passwordError && (
+          <p className="text-red-400 text-sm mt-2">{passwordError}</p>
+        )}
+        <button
+          onClick={handleLogin}
+          disabled={isLoggingIn}
+          className="w-full mt-4 py-3 bg-white text-black font-medium rounded-lg hover:bg-white/90 transition-colors disabled:opacity-60 flex items-center justify-center gap-2"
+        >
+          {isLoggingIn && <RefreshCw className="w-4 h-4 animate-spin" />}
+          Wejdź
+        </button>
+      </motion.div>
+    </div>
+  );
+};
+
+// ============================================
+// GUEST LINK PAGE - /a/:albumId?k=... opens a scoped guest session
+// ============================================
+const GuestLinkPage: React.FC = () => {
+  const { albumId } = useParams<{ albumId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+  const key = searchParams.get('k') || '';
+
+  useEffect(() => {
+    if (!key) {
+      setError('Link jest niekompletny');
+      return;
+    }
+    redeemShareLink(key)
+      .then(() => navigate(albumId ? albumPath(albumId) : '/', { replace: true }))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Link wygasł lub został odwołany'));
+  }, [key, albumId, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+      {error ? (
+        <div className="text-center">
+          <Lock className="w-10 h-10 mx-auto mb-4 text-white/40" />
+          <p className="text-white mb-2">{error}</p>
+          <p className="text-white/50 text-sm">Poproś fotografa o nowy link.</p>
+        </div>
+      ) : (
+        <RefreshCw className="w-10 h-10 text-white/50 animate-spin" />
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// GUEST UPLOAD PAGE - /upload, with ?k=... when opened from a share link's QR code
+// ============================================
+const GuestUploadPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [userRole, setUserRole] = useState<UserRole>(getSessionRole);
+  const [error, setError] = useState<string | null>(null);
+  const key = searchParams.get('k') || '';
+
+  useEffect(() => {
+    if (!key) return;
+    redeemShareLink(key)
+      .then((session) => {
+        setUserRole(session.role);
+        setSearchParams({}, { replace: true });
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Link wygasł lub został odwołany'));
+  }, [key, setSearchParams]);
+
+  if (!key && !userRole && !isDemoMode) {
+    return (
+      <PasswordScreen
+        title="Dodaj swoje zdjęcia"
+        subtitle="Wprowadź hasło galerii"
+        onLogin={async (password) => {
+          const session = await login(password);
+          setUserRole(session.role);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+      {error ? (
+        <div className="text-center">
+          <Lock className="w-10 h-10 mx-auto mb-4 text-white/40" />
+          <p className="text-white mb-2">{error}</p>
+          <p className="text-white/50 text-sm">Poproś fotografa o nowy link.</p>
+        </div>
+      ) : key ? (
+        <RefreshCw className="w-10 h-10 text-white/50 animate-spin" />
+      ) : isDemoMode ? (
+        <div className="text-center">
+          <p className="text-white mb-4">W wersji demo nie można wysyłać zdjęć.</p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm transition-colors"
+          >
+            Wróć do galerii
+          </button>
+        </div>
+      ) : (
+        <GuestUploadForm onBack={() => navigate('/')} />
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// GALLERY PAGE - Clean UI
+// ============================================
+// Number of cinema-mode history entries pushed on top of the gallery entry
+interface GalleryLocationState {
+  cinemaDepth?: number;
+}
+
+const DOWNLOAD_VARIANT_OPTIONS: { value: DownloadVariant; label: string; hint: string }[] = [
+  { value: 'light', label: 'Light', hint: 'Lżejsze pliki do telefonu i internetu' },
+  { value: 'max', label: 'Max', hint: 'Pełna rozdzielczość do druku' },
+  { value: 'both', label: 'Oba', hint: 'Light i Max w osobnych folderach' },
+];
+
+// Photos to have loaded while the slider or cinema mode shows the photo at photoIndex
+const photosNeeded = (photoIndex: number) => photoIndex + 1 + PHOTO_PREFETCH_MARGIN;
+
+const GalleryPage: React.FC = () => {
+  const isMobile = useIsMobile();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { albumId, photoId } = useParams<{ albumId?: string; photoId?: string }>();
+  const { albums: loadedAlbums, photosByTakenAt, error: loadError, isLoading } = useAlbumStore();
+  const [photoSort, setPhotoSort] = useState<PhotoSortMode>(getStoredPhotoSort);
+  const [activePhotoIndex, setActivePhotoIndex] = useState(0);
+  const [selectedAlbums, setSelectedAlbums] = useState<Set<string>>(new Set());
+  const [selectedPhotos, setSelectedPhotos] = useState<Set<string>>(new Set());
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [chosenVariant, setChosenVariant] = useState<DownloadVariant | null>(null);
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [showSearch, setShowSearch] = useState(false);
+  // Demo visitors look around as guests without logging in
+  const [userRole, setUserRole] = useState<UserRole>(() => (isDemoMode ? 'guest' : getSessionRole()));
+  
+  // Scrollbar dragging refs
+  const galleryScrollbarRef = useRef<HTMLDivElement>(null);
+  const isGalleryScrollbarDragging = useRef(false);
+
+  // Albums follow their event dates and manual positions; photo order follows the viewer's
+  // sort choice everywhere: slider, cinema mode and downloads
+  const albums = useMemo(
+    () => sortAlbumPhotos(sortAlbums(loadedAlbums), photoSort, photosByTakenAt),
+    [loadedAlbums, photoSort, photosByTakenAt]
+  );
+  const albumGroups = useMemo(() => groupAlbumsByEventDate(albums), [albums]);
+  const showAlbumGroups = albums.some(album => album.eventDate);
+
+  const togglePhotoSort = () => {
+    const next: PhotoSortMode = photoSort === 'takenAt' ? 'album' : 'takenAt';
+    storePhotoSort(next);
+    setPhotoSort(next);
+  };
+
+  // The URL decides which album is active and which photo is open in cinema mode
+  const activeAlbumIndex = useMemo(() => {
+    const index = albums.findIndex(album => album.id === albumId);
+    return index === -1 ? 0 : index;
+  }, [albums, albumId]);
+  const currentAlbum = albums[activeAlbumIndex];
+  const cinemaPhotoIndex = photoId && currentAlbum
+    ? currentAlbum.photos.findIndex(photo => photo.id === photoId)
+    : -1;
+  const cinemaDepth = (location.state as GalleryLocationState | null)?.cinemaDepth ?? 0;
+  const canDownload = userRole === 'owner';
+  const selectedCount = selectedAlbums.size;
+  // Phones get the lighter files unless the owner picks otherwise
+  const downloadVariant: DownloadVariant = chosenVariant ?? (isMobile ? 'light' : 'both');
+
+  // Albums depend on who is logged in (share links open only some of them)
+  useEffect(() => {
+    if (userRole) revalidateAlbums();
+  }, [userRole]);
+
+  // An expired or revoked session sends the visitor back to the password screen
+  useEffect(() => {
+    if (loadError) setUserRole(getSessionRole());
+  }, [loadError]);
+
+  // Photos arrive page by page, in the viewer's sort order: the first page when an album
+  // opens, the next one shortly before the slider gets to the end
+  const currentAlbumId = currentAlbum?.id;
+  const wantedPhotoCount = photosNeeded(activePhotoIndex);
+  const isMissingPhotos = !!currentAlbum && !hasAllPhotos(currentAlbum) && currentAlbum.photos.length < wantedPhotoCount;
+  const isLoadingPhotos = !!currentAlbum && !hasAllPhotos(currentAlbum) && !loadError &&
+    currentAlbum.photos.length === 0;
+
+  useEffect(() => {
+    if (currentAlbumId && isMissingPhotos) loadAlbumPhotos(currentAlbumId, wantedPhotoCount, photoSort);
+  }, [currentAlbumId, isMissingPhotos, wantedPhotoCount, photoSort]);
+
+  // The portrait grid scrolls freely instead of moving the active photo
+  const loadMorePhotos = useCallback(() => {
+    if (currentAlbum && !hasAllPhotos(currentAlbum)) {
+      loadAlbumPhotos(currentAlbum.id, currentAlbum.photos.length + 1, photoSort);
+    }
+  }, [currentAlbum, photoSort]);
+
+  // Scrollbar dragging logic for gallery - it spans the whole album, but stops
+  // at the last loaded photo until the next page is there
+  const updateGalleryScrollbar = useCallback((clientX: number) => {
+    if (!galleryScrollbarRef.current || !currentAlbum || currentAlbum.photos.length <= 1) return;
+    const rect = galleryScrollbarRef.current.getBoundingClientRect();
+    if (rect.width === 0) return;
+    const ratio = (clientX - rect.left) / rect.width;
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    const nextIndex = Math.round(clamped * (getPhotoCount(currentAlbum) - 1));
+    setActivePhotoIndex(Math.min(nextIndex, currentAlbum.photos.length - 1));
+  }, [currentAlbum]);
+
+  useEffect(() => {
+    const handlePointerMove = (event: PointerEvent) => {
+      if (!isGalleryScrollbarDragging.current) return;
+      event.preventDefault();
+      updateGalleryScrollbar(event.clientX);
+    };
 
     const handlePointerUp = () => {
       if (isGalleryScrollbarDragging.current) {
@@ -1654,6 +2586,19 @@ const GalleryPage: React.FC = () => {
     };
   }, [updateGalleryScrollbar]);
 
+  // The arrows wrap around the whole album, so a step from the first photo back to the
+  // last one waits for the pages up to it
+  const stepActivePhoto = async (step: 1 | -1) => {
+    if (!currentAlbum) return;
+    const count = getPhotoCount(currentAlbum);
+    const index = (activePhotoIndex + step + count) % count;
+    if (!currentAlbum.photos[index]) {
+      const photos = await loadAlbumPhotos(currentAlbum.id, index + 1, photoSort);
+      if (!photos[index]) return;
+    }
+    setActivePhotoIndex(index);
+  };
+
   const handleGalleryScrollbarPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
     if (!currentAlbum || currentAlbum.photos.length <= 1) return;
     event.preventDefault();
@@ -1664,7 +2609,7 @@ const GalleryPage: React.FC = () => {
   // Ambient image
   const ambientImage = useMemo(() => {
     if (currentAlbum?.photos[activePhotoIndex]) {
-      return currentAlbum.photos[activePhotoIndex].src;
+      return getPhotoVariantUrl(currentAlbum.photos[activePhotoIndex], 800);
     }
     return currentAlbum?.thumbnail || '';
   }, [currentAlbum, activePhotoIndex]);
@@ -1679,11 +2624,73 @@ const GalleryPage: React.FC = () => {
     });
   };
 
+  // Photo selection - only owners can download, so only they get the controls
+  const togglePhotoSelection = useCallback((albumId: string, photoId: string) => {
+    setSelectedPhotos(prev => {
+      const next = new Set(prev);
+      const key = photoSelectionKey(albumId, photoId);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+
+  const photoSelection = useMemo<PhotoSelection | undefined>(() => canDownload ? {
+    isSelected: (albumId, photoId) => selectedPhotos.has(photoSelectionKey(albumId, photoId)),
+    toggle: togglePhotoSelection,
+  } : undefined, [canDownload, selectedPhotos, togglePhotoSelection]);
+
+  // Favourites and proofing lists - for every viewer, kept per browser
+  const viewerSelections = useViewerSelections(!!userRole);
+  const { selections: proofingSelections, toggleFavorite } = viewerSelections;
+  const [listPickerPhoto, setListPickerPhoto] = useState<PhotoRef | null>(null);
+
+  const photoProofing = useMemo<PhotoProofing | undefined>(() => userRole ? {
+    isFavorite: (albumId, photoId) => proofingSelections.favorites.some(item => isSamePhoto(item, { albumId, photoId })),
+    isListed: (albumId, photoId) =>
+      proofingSelections.lists.some(list => list.photos.some(item => isSamePhoto(item, { albumId, photoId }))),
+    toggleFavorite: (albumId, photoId) => toggleFavorite({ albumId, photoId }),
+    openLists: (albumId, photoId) => setListPickerPhoto({ albumId, photoId }),
+  } : undefined, [userRole, proofingSelections, toggleFavorite]);
+
+  const listPickerPreview = useMemo(() => {
+    if (!listPickerPhoto) return undefined;
+    const photo = albums
+      .find(album => album.id === listPickerPhoto.albumId)
+      ?.photos.find(p => p.id === listPickerPhoto.photoId);
+    return photo ? photo.thumbnail || photo.src : undefined;
+  }, [listPickerPhoto, albums]);
+
+  const selectionPreviews = useMemo(() => {
+    return Array.from(selectedPhotos).slice(-4).reverse().flatMap(key => {
+      const { albumId, photoId } = parsePhotoSelectionKey(key);
+      const photo = albums.find(album => album.id === albumId)?.photos.find(p => p.id === photoId);
+      return photo ? [photo.thumbnail || photo.src] : [];
+    });
+  }, [selectedPhotos, albums]);
+
+  const handleDownloadSelectedPhotos = async () => {
+    if (selectedPhotos.size === 0) return;
+    setIsDownloading(true);
+    try {
+      await downloadPhotos(Array.from(selectedPhotos).map(parsePhotoSelectionKey), albums, downloadVariant);
+      setSelectedPhotos(new Set());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Nie udało się pobrać zdjęć');
+      setUserRole(getSessionRole());
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
   // Download handlers
   const handleDownloadAll = async () => {
     setIsDownloading(true);
     try {
-      await downloadMultipleAlbums(albums);
+      await downloadMultipleAlbums(albums, downloadVariant);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Nie udało się pobrać albumów');
+      setUserRole(getSessionRole());
     } finally {
       setIsDownloading(false);
     }
@@ -1695,6 +2702,15 @@ const GalleryPage: React.FC = () => {
     return 'Pobierz albumy';
   }, [selectedCount]);
 
+  // Sizes refer to the selected albums, or to everything when nothing is selected
+  const variantOptions = useMemo(() => {
+    const targets = selectedCount > 0 ? albums.filter(album => selectedAlbums.has(album.id)) : albums;
+    return DOWNLOAD_VARIANT_OPTIONS.map(option => ({
+      ...option,
+      size: estimateDownloadSize(targets, option.value),
+    }));
+  }, [albums, selectedAlbums, selectedCount]);
+
   const handlePrimaryDownload = async () => {
     if (selectedCount === 0) return;
     setIsDownloading(true);
@@ -1703,27 +2719,108 @@ const GalleryPage: React.FC = () => {
         const targetId = Array.from(selectedAlbums)[0];
         const selectedAlbum = albums.find(album => album.id === targetId);
         if (selectedAlbum) {
-          await downloadAlbum(selectedAlbum);
+          await downloadAlbum(selectedAlbum, downloadVariant);
         }
       } else {
         const albumsToDownload = albums.filter(album => selectedAlbums.has(album.id));
-        await downloadMultipleAlbums(albumsToDownload);
+        await downloadMultipleAlbums(albumsToDownload, downloadVariant);
       }
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Nie udało się pobrać albumów');
+      setUserRole(getSessionRole());
     } finally {
       setIsDownloading(false);
     }
   };
 
+  // Drop links to albums or photos that do not exist (or are outside a share link)
+  useEffect(() => {
+    if (isLoading || albums.length === 0) return;
+    if (albumId && !albums.some(album => album.id === albumId)) {
+      navigate('/', { replace: true });
+    } else if (photoId && cinemaPhotoIndex === -1 && currentAlbum) {
+      // The photo may be on a page that is not loaded yet
+      if (hasAllPhotos(currentAlbum)) {
+        navigate(albumPath(currentAlbum.id), { replace: true });
+      } else {
+        findAlbumPhoto(currentAlbum.id, photoId, photoSort);
+      }
+    }
+  }, [isLoading, albums, albumId, photoId, cinemaPhotoIndex, currentAlbum, photoSort, navigate]);
+
+  // Keep the slider on the album's first photo after switching albums,
+  // and on the cinema photo while one is open
+  const previousAlbumId = useRef(albumId);
+  useEffect(() => {
+    if (cinemaPhotoIndex >= 0) {
+      setActivePhotoIndex(cinemaPhotoIndex);
+    } else if (previousAlbumId.current !== albumId) {
+      setActivePhotoIndex(0);
+    }
+    previousAlbumId.current = albumId;
+  }, [albumId, cinemaPhotoIndex]);
+
   // Open cinema mode
   const openCinemaMode = (photoIndex: number) => {
-    setCinemaMode({ albumIndex: activeAlbumIndex, photoIndex });
+    const photo = currentAlbum?.photos[photoIndex];
+    if (!photo) return;
+    navigate(photoPath(currentAlbum.id, photo.id), { state: { cinemaDepth: 1 } });
+  };
+
+  // Every photo step is a history entry, so browser back/forward walks through photos.
+  // Steps onto photos that are not loaded yet wait for their page
+  const navigateCinema = useCallback(async (albumIndex: number, photoIndex: number, options?: { replace?: boolean }) => {
+    const album = albums[albumIndex];
+    if (!album) return;
+    let photo: Photo | undefined = album.photos[photoIndex];
+    if (!photo) {
+      const photos = await loadAlbumPhotos(album.id, photosNeeded(photoIndex), photoSort);
+      photo = photos[photoIndex];
+    }
+    if (!photo) return;
+    // Deep-linked photos have no gallery entry below them and keep depth 0
+    const nextDepth = options?.replace || cinemaDepth === 0 ? cinemaDepth : cinemaDepth + 1;
+    navigate(photoPath(album.id, photo.id), {
+      replace: options?.replace,
+      state: { cinemaDepth: nextDepth },
+    });
+  }, [albums, photoSort, cinemaDepth, navigate]);
+
+  // Closing walks back to the gallery entry; deep links have none, so they replace instead
+  const closeCinemaMode = useCallback(() => {
+    if (cinemaDepth > 0) {
+      navigate(-cinemaDepth);
+    } else if (currentAlbum) {
+      navigate(albumPath(currentAlbum.id), { replace: true });
+    }
+  }, [cinemaDepth, currentAlbum, navigate]);
+
+  // Ctrl+K (Cmd+K) or "/" opens the search; cinema mode keeps its own keys
+  useEffect(() => {
+    if (cinemaPhotoIndex >= 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isTyping = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+      if (((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') || (e.key === '/' && !isTyping)) {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cinemaPhotoIndex]);
+
+  // Photos open in cinema mode on top of their album, so closing it lands in that album
+  const handleSearchSelect = (result: SearchResult) => {
+    setShowSearch(false);
+    if (result.albumId !== currentAlbum?.id) navigate(albumPath(result.albumId));
+    if (result.photoId) navigate(photoPath(result.albumId, result.photoId), { state: { cinemaDepth: 1 } });
   };
 
   // Logout handler
   const handleLogout = () => {
-    sessionStorage.removeItem('gallery_role');
+    clearSession();
+    resetAlbumStore();
     setUserRole(null);
-    setPasswordInput('');
   };
 
   // Fullscreen toggle
@@ -1739,67 +2836,20 @@ const GalleryPage: React.FC = () => {
   // Password screen
   if (!userRole) {
     return (
-      <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="bg-white/5 backdrop-blur-xl rounded-2xl p-8 w-full max-w-sm border border-white/10"
-        >
-          <div className="flex justify-center mb-6">
-            <div className="p-4 bg-white/10 rounded-full">
-              <Lock className="w-8 h-8 text-white" />
-            </div>
-          </div>
-          <h1 className="text-2xl font-bold text-white text-center mb-2">Galeria</h1>
-          <p className="text-white/50 text-center text-sm mb-6">Wprowadź hasło aby kontynuować</p>
-          
-          {/* Password input with eye toggle */}
-          <div className="relative">
-            <input
-              type={showPassword ? 'text' : 'password'}
-              value={passwordInput}
-              onChange={(e) => {
-                setPasswordInput(e.target.value);
-                setPasswordError(false);
-              }}
-              onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
-              placeholder="Hasło"
-              className={`w-full px-4 py-3 pr-12 bg-white/10 border rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30 ${
-                passwordError ? 'border-red-500' : 'border-white/20'
-              }`}
-            />
-            <button
-              type="button"
-              onClick={() => setShowPassword(!showPassword)}
-              className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-white/50 hover:text-white/80 transition-colors"
-              title={showPassword ? 'Ukryj hasło' : 'Pokaż hasło'}
-            >
-              {showPassword ? (
-                <EyeOff className="w-5 h-5" />
-              ) : (
-                <Eye className="w-5 h-5" />
-              )}
-            </button>
-          </div>
-          
-          {passwordError && (
-            <p className="text-red-400 text-sm mt-2">Nieprawidłowe hasło</p>
-          )}
-          <button
-            onClick={handleLogin}
-            className="w-full mt-4 py-3 bg-white text-black font-medium rounded-lg hover:bg-white/90 transition-colors"
-          >
-            Wejdź
-          </button>
-        </motion.div>
-      </div>
+      <PasswordScreen
+        title="Galeria"
+        onLogin={async (password) => {
+          const session = await login(password);
+          setUserRole(session.role);
+        }}
+      />
     );
   }
 
   // Close sidebar on mobile when album selected
   const handleAlbumSelect = (index: number) => {
-    setActiveAlbumIndex(index);
-    setActivePhotoIndex(0);
+    const album = albums[index];
+    if (album) navigate(albumPath(album.id));
     if (window.innerWidth < 768) {
       setSidebarOpen(false);
     }
@@ -1813,6 +2863,12 @@ const GalleryPage: React.FC = () => {
     );
   }
 
+  // Failures are shown as such - visitors never get demo photos in place of their gallery.
+  // A failed background refresh keeps the albums already on screen
+  if (loadError && loadedAlbums.length === 0) {
+    return <ErrorState error={loadError} onRetry={revalidateAlbums} />;
+  }
+
   return (
     <div className="min-h-screen bg-black">
       {/* Ambient Background - Desktop only */}
@@ -1830,7 +2886,7 @@ const GalleryPage: React.FC = () => {
           <div className="fixed inset-0 z-0">
             {currentAlbum?.photos[activePhotoIndex] && (
               <img
-                src={currentAlbum.photos[activePhotoIndex].src}
+                src={getPhotoVariantUrl(currentAlbum.photos[activePhotoIndex], 400)}
                 alt=""
                 className="absolute inset-0 w-full h-full object-cover"
                 style={{
@@ -1846,12 +2902,16 @@ const GalleryPage: React.FC = () => {
             albums={albums}
             activeAlbumIndex={activeAlbumIndex}
             activePhotoIndex={activePhotoIndex}
-            onAlbumChange={(index) => {
-              setActiveAlbumIndex(index);
-              setActivePhotoIndex(0);
-            }}
+            onAlbumChange={(index) => navigate(albumPath(albums[index].id))}
             onPhotoChange={setActivePhotoIndex}
             onPhotoClick={openCinemaMode}
+            selection={photoSelection}
+            proofing={photoProofing}
+            photoSort={photoSort}
+            onPhotoSortToggle={togglePhotoSort}
+            onSearch={() => setShowSearch(true)}
+            isLoadingPhotos={isLoadingPhotos}
+            onLoadMorePhotos={loadMorePhotos}
           />
         </>
       ) : (
@@ -1875,67 +2935,110 @@ const GalleryPage: React.FC = () => {
               borderRight: '1px solid rgba(255, 255, 255, 0.1)',
             }}
           >
-            {/* Album List */}
+            {/* Search */}
+            <div className="p-4 pb-0">
+              <button
+                onClick={() => setShowSearch(true)}
+                className="w-full px-3 py-2 bg-white/5 hover:bg-white/10 rounded-lg text-white/60 hover:text-white text-sm flex items-center gap-2 transition-colors"
+                title="Szukaj albumów i zdjęć (Ctrl+K)"
+              >
+                <Search className="w-4 h-4" />
+                <span className="flex-1 text-left">Szukaj</span>
+                <kbd className="text-[10px] text-white/40 font-sans">Ctrl K</kbd>
+              </button>
+            </div>
+
+            {/* Album List - grouped by event date once any album has one */}
             <div className="flex-1 overflow-y-auto p-4 pt-4 space-y-3">
-              {albums.map((album, index) => (
-                <motion.div
-                  key={album.id}
-                  className={`relative rounded-xl overflow-hidden cursor-pointer transition-all ${
-                    index === activeAlbumIndex 
-                      ? 'ring-2 ring-white shadow-lg' 
-                      : 'opacity-70 hover:opacity-100'
-                  }`}
-                  onClick={() => handleAlbumSelect(index)}
-                  whileHover={{ scale: 1.02 }}
-                  whileTap={{ scale: 0.98 }}
-                >
-                  {/* Thumbnail */}
-                  <div className="aspect-[4/3] bg-gray-800">
-                    {album.thumbnail ? (
-                      <img
-                        src={album.thumbnail}
-                        alt={album.name}
-                        className="w-full h-full object-cover"
-                        onError={(e) => {
-                          (e.target as HTMLImageElement).style.display = 'none';
-                        }}
-                      />
-                    ) : (
-                      <div className="w-full h-full flex items-center justify-center">
-                        <Image className="w-8 h-8 text-white/30" />
+              {albumGroups.map(group => (
+                <div key={group.eventDate ?? 'undated'} className="space-y-3">
+                  {showAlbumGroups && (
+                    <p className="text-white/50 text-[11px] uppercase tracking-wide">{group.label}</p>
+                  )}
+                  {group.items.map(({ album, index }) => (
+                    <motion.div
+                      key={album.id}
+                      title={[album.name, album.location, album.clientName].filter(Boolean).join(' • ')}
+                      className={`relative rounded-xl overflow-hidden cursor-pointer transition-all ${
+                        index === activeAlbumIndex 
+                          ? 'ring-2 ring-white shadow-lg' 
+                          : 'opacity-70 hover:opacity-100'
+                      }`}
+                      onClick={() => handleAlbumSelect(index)}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      {/* Thumbnail */}
+                      <div className="aspect-[4/3] bg-gray-800">
+                        {album.thumbnail ? (
+                          <img
+                            src={album.thumbnail}
+                            alt={album.name}
+                            className="w-full h-full object-cover"
+                            onError={(e) => {
+                              (e.target as HTMLImageElement).style.display = 'none';
+                            }}
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <Image className="w-8 h-8 text-white/30" />
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
 
-                  {/* Album info overlay */}
-                  <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent">
-                    <p className="text-white text-xs font-medium">{album.photos.length} zdjęć</p>
-                  </div>
+                      {/* Album info overlay */}
+                      <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent">
+                        <p className="text-white text-xs font-medium">{getPhotoCount(album)} zdjęć</p>
+                      </div>
 
-                  {/* Selection checkbox - only for owners */}
-                  {canDownload && (
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleAlbumSelection(album.id);
-                      }}
-                      className="absolute top-2 right-2 p-1 bg-black/50 rounded-md hover:bg-black/70 transition-colors"
-                      title="Zaznacz album"
-                    >
-                      {selectedAlbums.has(album.id) ? (
-                        <CheckSquare className="w-5 h-5 text-green-400" />
-                      ) : (
-                        <Square className="w-5 h-5 text-white/60" />
+                      {/* Selection checkbox - only for owners */}
+                      {canDownload && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggleAlbumSelection(album.id);
+                          }}
+                          className="absolute top-2 right-2 p-1 bg-black/50 rounded-md hover:bg-black/70 transition-colors"
+                          title="Zaznacz album"
+                        >
+                          {selectedAlbums.has(album.id) ? (
+                            <CheckSquare className="w-5 h-5 text-green-400" />
+                          ) : (
+                            <Square className="w-5 h-5 text-white/60" />
+                          )}
+                        </button>
                       )}
-                    </button>
-                  )}
-                </motion.div>
+                    </motion.div>
+                  ))}
+                </div>
               ))}
             </div>
 
             {/* Download Section - only for owners */}
             {canDownload && (
               <div className="p-4 border-t border-white/10 space-y-2">
+                <div className="grid grid-cols-3 gap-1 p-1 bg-white/5 rounded-lg" role="radiogroup" aria-label="Wersja plików">
+                  {variantOptions.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setChosenVariant(option.value)}
+                      role="radio"
+                      aria-checked={downloadVariant === option.value}
+                      title={option.hint}
+                      className={`py-1.5 rounded-md text-xs transition-colors ${
+                        downloadVariant === option.value
+                          ? 'bg-white/20 text-white'
+                          : 'text-white/60 hover:text-white hover:bg-white/10'
+                      }`}
+                    >
+                      <span className="block">{option.label}</span>
+                      {option.size !== null && (
+                        <span className="block text-[10px] text-white/50">~{formatFileSize(option.size)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+
                 <button
                   onClick={handlePrimaryDownload}
                   disabled={isDownloading || selectedCount === 0}
@@ -1957,15 +3060,29 @@ const GalleryPage: React.FC = () => {
             )}
           </motion.aside>
 
-      {/* Fullscreen button - desktop only */}
-      <button
-        onClick={toggleFullscreen}
-        className="fixed top-4 right-4 z-50 p-2 bg-black/50 backdrop-blur-sm rounded-lg flex items-center gap-2 text-white/70 hover:text-white hover:bg-black/70 transition-colors"
-        title="Tryb pełnoekranowy"
-      >
-        <Maximize className="w-5 h-5" />
-        <span className="text-sm">Pełny ekran</span>
-      </button>
+      {/* Sort and fullscreen buttons - desktop only */}
+      <div className="fixed top-4 right-4 z-50 flex gap-2">
+        <button
+          onClick={togglePhotoSort}
+          className={`p-2 backdrop-blur-sm rounded-lg flex items-center gap-2 transition-colors ${
+            photoSort === 'takenAt'
+              ? 'bg-white/20 text-white'
+              : 'bg-black/50 text-white/70 hover:text-white hover:bg-black/70'
+          }`}
+          title={photoSort === 'takenAt' ? 'Przywróć kolejność albumu' : 'Sortuj według daty wykonania'}
+        >
+          <CalendarClock className="w-5 h-5" />
+          <span className="text-sm">{photoSort === 'takenAt' ? 'Wg daty' : 'Kolejność albumu'}</span>
+        </button>
+        <button
+          onClick={toggleFullscreen}
+          className="p-2 bg-black/50 backdrop-blur-sm rounded-lg flex items-center gap-2 text-white/70 hover:text-white hover:bg-black/70 transition-colors"
+          title="Tryb pełnoekranowy"
+        >
+          <Maximize className="w-5 h-5" />
+          <span className="text-sm">Pełny ekran</span>
+        </button>
+      </div>
 
       {/* Main Content - Desktop 3D Slider */}
       <main className="ml-52 h-screen relative z-10 flex items-center justify-center overflow-hidden">
@@ -1973,10 +3090,14 @@ const GalleryPage: React.FC = () => {
           <div className="w-full max-w-4xl flex flex-col items-center justify-center h-full">
             <div className="w-full" style={{ height: '55vh' }}>
               <Slider3D
+                albumId={currentAlbum.id}
                 photos={currentAlbum.photos}
+                isLoading={isLoadingPhotos}
                 activeIndex={activePhotoIndex}
                 onActiveChange={setActivePhotoIndex}
                 onPhotoClick={openCinemaMode}
+                selection={photoSelection}
+                proofing={photoProofing}
               />
             </div>
           </div>
@@ -1984,17 +3105,17 @@ const GalleryPage: React.FC = () => {
       </main>
 
       {/* Fixed navigation buttons - outside slider */}
-      {currentAlbum && currentAlbum.photos.length > 1 && (
+      {currentAlbum && getPhotoCount(currentAlbum) > 1 && (
         <>
           <button
-            onClick={() => setActivePhotoIndex((activePhotoIndex - 1 + currentAlbum.photos.length) % currentAlbum.photos.length)}
+            onClick={() => stepActivePhoto(-1)}
             className="fixed left-56 top-1/2 -translate-y-1/2 z-50 p-3 md:p-4 bg-white/10 hover:bg-white/20 rounded-full transition-colors backdrop-blur-sm"
             title="Poprzednie"
           >
             <ChevronLeft className="w-5 h-5 md:w-6 md:h-6 text-white" />
           </button>
           <button
-            onClick={() => setActivePhotoIndex((activePhotoIndex + 1) % currentAlbum.photos.length)}
+            onClick={() => stepActivePhoto(1)}
             className="fixed right-6 top-1/2 -translate-y-1/2 z-50 p-3 md:p-4 bg-white/10 hover:bg-white/20 rounded-full transition-colors backdrop-blur-sm"
             title="Następne"
           >
@@ -2014,7 +3135,7 @@ const GalleryPage: React.FC = () => {
             {/* Progress fill */}
             <motion.div 
               className="absolute left-0 top-0 bottom-0 bg-white/30 rounded-full pointer-events-none"
-              animate={{ width: `${(activePhotoIndex / Math.max(currentAlbum.photos.length - 1, 1)) * 100}%` }}
+              animate={{ width: `${(activePhotoIndex / Math.max(getPhotoCount(currentAlbum) - 1, 1)) * 100}%` }}
               transition={{ type: 'spring', stiffness: 300, damping: 30 }}
             />
             
@@ -2022,7 +3143,7 @@ const GalleryPage: React.FC = () => {
             <motion.div
               className="absolute w-4 h-4 bg-white rounded-full shadow-[0_0_10px_3px_rgba(255,255,255,0.5)] cursor-grab active:cursor-grabbing"
               style={{ top: '50%', marginTop: '-8px' }}
-              animate={{ left: `calc(${(activePhotoIndex / Math.max(currentAlbum.photos.length - 1, 1)) * 100}% - 8px)` }}
+              animate={{ left: `calc(${(activePhotoIndex / Math.max(getPhotoCount(currentAlbum) - 1, 1)) * 100}% - 8px)` }}
               whileHover={{ scale: 1.2, boxShadow: '0 0 15px 5px rgba(255,255,255,0.7)' }}
               whileTap={{ scale: 1.1 }}
               transition={{ type: 'spring', stiffness: 400, damping: 25 }}
@@ -2036,7 +3157,7 @@ const GalleryPage: React.FC = () => {
           {/* Counter */}
           <div className="text-center mt-2">
             <span className="text-white/40 text-xs">
-              {activePhotoIndex + 1} / {currentAlbum.photos.length}
+              {activePhotoIndex + 1} / {getPhotoCount(currentAlbum)}
             </span>
           </div>
         </div>
@@ -2046,36 +3167,96 @@ const GalleryPage: React.FC = () => {
 
       {/* Cinema Mode - Conditional Mobile/Desktop */}
       <AnimatePresence>
-        {cinemaMode && (
+        {cinemaPhotoIndex !== -1 && (
           isMobile ? (
             <MobileCinemaMode
               albums={albums}
-              initialAlbumIndex={cinemaMode.albumIndex}
-              initialPhotoIndex={cinemaMode.photoIndex}
-              onClose={() => setCinemaMode(null)}
+              albumIndex={activeAlbumIndex}
+              photoIndex={cinemaPhotoIndex}
+              onNavigate={navigateCinema}
+              onClose={closeCinemaMode}
             />
           ) : (
             <CinemaMode
               albums={albums}
-              initialAlbumIndex={cinemaMode.albumIndex}
-              initialPhotoIndex={cinemaMode.photoIndex}
-              onClose={() => setCinemaMode(null)}
+              albumIndex={activeAlbumIndex}
+              photoIndex={cinemaPhotoIndex}
+              onNavigate={navigateCinema}
+              onClose={closeCinemaMode}
+              selection={photoSelection}
+              proofing={photoProofing}
             />
           )
         )}
       </AnimatePresence>
 
+      {/* Proofing lists of the photo whose flag was tapped */}
+      <AnimatePresence>
+        {listPickerPhoto && (
+          <ProofingListPicker
+            photo={listPickerPhoto}
+            preview={listPickerPreview}
+            lists={proofingSelections.lists}
+            onToggle={(listId) => viewerSelections.toggleInList(listId, listPickerPhoto)}
+            onCreate={(name) => viewerSelections.createList(name, listPickerPhoto)}
+            onRemove={viewerSelections.removeList}
+            onClose={() => setListPickerPhoto(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Selection tray - photo-level downloads */}
+      <AnimatePresence>
+        {canDownload && selectedPhotos.size > 0 && (
+          <SelectionTray
+            count={selectedPhotos.size}
+            previews={selectionPreviews}
+            isDownloading={isDownloading}
+            onDownload={handleDownloadSelectedPhotos}
+            onClear={() => setSelectedPhotos(new Set())}
+            className={isMobile ? 'bottom-4 left-1/2' : 'bottom-16 left-[calc(50%+6.5rem)]'}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Search palette */}
+      <AnimatePresence>
+        {showSearch && (
+          <SearchPalette
+            albums={albums}
+            onSelect={handleSearchSelect}
+            onClose={() => setShowSearch(false)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Logout button - prawy dolny róg, minimalistyczny */}
-      <motion.button
-        onClick={handleLogout}
-        className="fixed bottom-4 right-4 z-50 px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur-sm rounded-lg text-white/60 hover:text-white text-xs flex items-center gap-2 transition-colors"
-        whileHover={{ scale: 1.05 }}
-        whileTap={{ scale: 0.95 }}
-        title="Wyloguj"
-      >
-        <LogOut className="w-4 h-4" />
-        <span className="hidden md:inline">Wyjdź</span>
-      </motion.button>
+      {isDemoMode ? (
+        <DemoBanner />
+      ) : (
+        <div className="fixed bottom-4 right-4 z-50 flex gap-2">
+          <motion.button
+            onClick={() => navigate('/upload')}
+            className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur-sm rounded-lg text-white/60 hover:text-white text-xs flex items-center gap-2 transition-colors"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title="Dodaj swoje zdjęcia"
+          >
+            <Camera className="w-4 h-4" />
+            <span className="hidden md:inline">Dodaj zdjęcia</span>
+          </motion.button>
+          <motion.button
+            onClick={handleLogout}
+            className="px-3 py-2 bg-black/40 hover:bg-black/60 backdrop-blur-sm rounded-lg text-white/60 hover:text-white text-xs flex items-center gap-2 transition-colors"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            title="Wyloguj"
+          >
+            <LogOut className="w-4 h-4" />
+            <span className="hidden md:inline">Wyjdź</span>
+          </motion.button>
+        </div>
+      )}
     </div>
   );
 };
@@ -2084,52 +3265,65 @@ const GalleryPage: React.FC = () => {
 // ADMIN PAGE
 // ============================================
 const AdminPage: React.FC = () => {
+  const [isOwner, setIsOwner] = useState(() => isDemoMode || getSessionRole() === 'owner');
   const [showUploadZone, setShowUploadZone] = useState(false);
-  const [albums, setAlbums] = useState<Album[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isOnline, setIsOnline] = useState(true);
+  const [showShareLinks, setShowShareLinks] = useState(false);
+  const [showClientSelections, setShowClientSelections] = useState(false);
+  const [showContributions, setShowContributions] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [uploadTarget, setUploadTarget] = useState<Album | null>(null);
+  const [editedAlbumId, setEditedAlbumId] = useState<string | null>(null);
+  const { albums, error: loadError, isLoading, isRevalidating } = useAlbumStore();
+  // The demo panel is read-only: with isOnline off every action is disabled
+  const isOnline = !isDemoMode && !(loadError instanceof NetworkError);
 
-  const fetchAlbums = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      const backendAvailable = await checkHealth();
-      setIsOnline(backendAvailable);
-      if (backendAvailable) {
-        const data = await getAlbums();
-        const transformed = data.map(album => ({
-          ...album,
-          thumbnail: getThumbnailUrl(album.thumbnail),
-          photos: album.photos.map(photo => ({
-            ...photo,
-            src: getImageUrl(photo.src),
-            thumbnail: photo.thumbnail ? getThumbnailUrl(photo.thumbnail) : undefined,
-          })),
-        }));
-        setAlbums(transformed);
-      } else {
-        setAlbums(mockAlbums);
-      }
-    } catch {
-      setAlbums(mockAlbums);
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+  useEffect(() => {
+    if (isOwner) revalidateAlbums();
+  }, [isOwner]);
 
-  useEffect(() => { fetchAlbums(); }, []);
+  useEffect(() => {
+    if (loadError && !isDemoMode) setIsOwner(getSessionRole() === 'owner');
+  }, [loadError]);
+
+  const editedAlbum = albums.find(album => album.id === editedAlbumId);
+  // Same order as the gallery sidebar
+  const sortedAlbums = useMemo(() => sortAlbums(albums), [albums]);
 
   const handleDeleteAlbum = async (albumId: string) => {
     if (!confirm('Czy na pewno chcesz usunąć ten album?')) return;
     try {
-      await deleteAlbum(albumId);
-      fetchAlbums();
+      await removeAlbum(albumId);
     } catch {
       alert('Nie udało się usunąć albumu');
     }
   };
 
+  if (!isOwner) {
+    return (
+      <PasswordScreen
+        title="Panel Administratora"
+        subtitle="Wprowadź hasło właściciela"
+        onLogin={async (password) => {
+          const session = await login(password);
+          if (session.role !== 'owner') {
+            clearSession();
+            throw new Error('To hasło nie daje dostępu do panelu');
+          }
+          setIsOwner(true);
+        }}
+      />
+    );
+  }
+
+  // A failed refresh keeps the last loaded list on screen, with a banner above it
+  if (loadError && albums.length === 0) {
+    return <ErrorState error={loadError} onRetry={revalidateAlbums} />;
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900">
+      {isDemoMode && <DemoBanner />}
+
       {/* Header */}
       <header className="p-4 md:p-6 flex items-center justify-between border-b border-white/10">
         <div className="flex items-center gap-3">
@@ -2138,7 +3332,9 @@ const AdminPage: React.FC = () => {
             <h1 className="text-lg md:text-xl font-bold text-white">Panel Administratora</h1>
 
             <p className="text-xs text-white/50 flex items-center gap-1">
-              {isOnline ? (
+              {isDemoMode ? (
+                <>Tryb demo - tylko podgląd</>
+              ) : isOnline ? (
                 <><Wifi className="w-3 h-3 text-green-400" /> Online</>
               ) : (
                 <><WifiOff className="w-3 h-3 text-red-400" /> Offline</>
@@ -2149,11 +3345,43 @@ const AdminPage: React.FC = () => {
 
         <div className="flex gap-2 md:gap-3">
           <button
-            onClick={fetchAlbums}
+            onClick={revalidateAlbums}
             className="p-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
             aria-label="Odśwież listę albumów"
           >
-            <RefreshCw className="w-4 h-4 md:w-5 md:h-5 text-white" />
+            <RefreshCw className={`w-4 h-4 md:w-5 md:h-5 text-white ${isRevalidating ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={() => setShowShareLinks(true)}
+            disabled={!isOnline}
+            className="px-3 md:px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white flex items-center gap-2 transition-colors disabled:opacity-50 text-sm"
+          >
+            <Link2 className="w-4 h-4" />
+            <span className="hidden sm:inline">Dostęp</span>
+          </button>
+          <button
+            onClick={() => setShowClientSelections(true)}
+            disabled={!isOnline}
+            className="px-3 md:px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white flex items-center gap-2 transition-colors disabled:opacity-50 text-sm"
+          >
+            <Heart className="w-4 h-4" />
+            <span className="hidden sm:inline">Wybory</span>
+          </button>
+          <button
+            onClick={() => setShowContributions(true)}
+            disabled={!isOnline}
+            className="px-3 md:px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white flex items-center gap-2 transition-colors disabled:opacity-50 text-sm"
+          >
+            <Camera className="w-4 h-4" />
+            <span className="hidden sm:inline">Od gości</span>
+          </button>
+          <button
+            onClick={() => setShowComments(true)}
+            disabled={!isOnline}
+            className="px-3 md:px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white flex items-center gap-2 transition-colors disabled:opacity-50 text-sm"
+          >
+            <MessageCircle className="w-4 h-4" />
+            <span className="hidden sm:inline">Komentarze</span>
           </button>
           <button
             onClick={() => setShowUploadZone(true)}
@@ -2175,6 +3403,21 @@ const AdminPage: React.FC = () => {
 
       {/* Albums Grid */}
       <main className="p-4 md:p-6">
+        {loadError !== null && (
+          <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/30 rounded-lg flex items-center justify-between gap-3">
+            <p className="text-red-300 text-sm">
+              {loadError instanceof Error ? loadError.message : 'Nie udało się odświeżyć albumów'}
+            </p>
+            <button
+              onClick={revalidateAlbums}
+              className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Spróbuj ponownie
+            </button>
+          </div>
+        )}
+
         <h2 className="text-lg font-semibold text-white mb-4">
           Albumy ({albums.length})
         </h2>
@@ -2190,37 +3433,59 @@ const AdminPage: React.FC = () => {
           </div>
         ) : (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-3 md:gap-4">
-            {albums.map((album) => (
+            {sortedAlbums.map((album) => (
               <div
                 key={album.id}
                 className="relative group bg-white/5 rounded-xl overflow-hidden"
               >
                 {isOnline && (
-                  <button
-                    onClick={() => handleDeleteAlbum(album.id)}
-                    className="absolute top-2 right-2 z-10 p-1.5 bg-red-500/80 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                    aria-label="Usuń album"
-                  >
-                    <X className="w-3 h-3 md:w-4 md:h-4 text-white" />
-                  </button>
+                  <>
+                    <button
+                      onClick={() => setUploadTarget(album)}
+                      className="absolute top-2 left-2 z-10 p-1.5 bg-black/60 hover:bg-black/80 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label="Dodaj zdjęcia do albumu"
+                      title="Dodaj zdjęcia"
+                    >
+                      <ImagePlus className="w-3 h-3 md:w-4 md:h-4 text-white" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteAlbum(album.id)}
+                      className="absolute top-2 right-2 z-10 p-1.5 bg-red-500/80 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      aria-label="Usuń album"
+                    >
+                      <X className="w-3 h-3 md:w-4 md:h-4 text-white" />
+                    </button>
+                  </>
                 )}
-                <div className="aspect-square">
-                  {album.thumbnail ? (
-                    <img
-                      src={album.thumbnail}
-                      alt={album.name}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center bg-gray-800">
-                      <Image className="w-8 h-8 text-white/30" />
-                    </div>
-                  )}
-                </div>
-                <div className="p-2 md:p-3">
-                  <p className="text-white text-xs md:text-sm font-medium truncate">{album.name}</p>
-                  <p className="text-white/50 text-xs">{album.photos.length} zdjęć</p>
-                </div>
+                <button
+                  onClick={() => isOnline && setEditedAlbumId(album.id)}
+                  className="block w-full text-left"
+                  aria-label={`Edytuj album ${album.name}`}
+                >
+                  <div className="aspect-square">
+                    {album.thumbnail ? (
+                      <img
+                        src={album.thumbnail}
+                        alt={album.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center bg-gray-800">
+                        <Image className="w-8 h-8 text-white/30" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="p-2 md:p-3">
+                    <p className="text-white text-xs md:text-sm font-medium truncate">{album.name}</p>
+                    <p className="text-white/50 text-xs truncate">
+                      {[
+                        album.eventDate ? formatEventDate(album.eventDate) : null,
+                        album.clientName,
+                        `${getPhotoCount(album)} zdjęć`,
+                      ].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                </button>
               </div>
             ))}
           </div>
@@ -2232,13 +3497,64 @@ const AdminPage: React.FC = () => {
         {showUploadZone && (
           <UploadZone
             onClose={() => setShowUploadZone(false)}
-            onUpload={() => {
-              setShowUploadZone(false);
-              fetchAlbums();
-            }}
+            onUpload={() => setShowUploadZone(false)}
             useBackend={isOnline}
           />
         )}
+        {uploadTarget && (
+          <UploadZone
+            key={uploadTarget.id}
+            targetAlbum={uploadTarget}
+            onClose={() => setUploadTarget(null)}
+            onUpload={() => setUploadTarget(null)}
+            useBackend={isOnline}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Album Editor Modal */}
+      <AnimatePresence>
+        {editedAlbum && (
+          <AlbumEditor
+            key={editedAlbum.id}
+            album={editedAlbum}
+            onClose={() => setEditedAlbumId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Share Links Modal */}
+      <AnimatePresence>
+        {showShareLinks && (
+          <ShareLinksPanel
+            albums={albums}
+            onClose={() => setShowShareLinks(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Client Selections Modal */}
+      <AnimatePresence>
+        {showClientSelections && (
+          <ClientSelectionsPanel onClose={() => setShowClientSelections(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Guest Contributions Modal */}
+      <AnimatePresence>
+        {showContributions && (
+          <ContributionsPanel
+            albums={albums}
+            onClose={() => setShowContributions(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Comments Moderation Modal */}
+      <AnimatePresence>
+        {showComments && (
+          <CommentsPanel onClose={() => setShowComments(false)} />
+        )}
       </AnimatePresence>
     </div>
   );
@@ -2254,6 +3570,10 @@ const App: React.FC = () => {
     <BrowserRouter>
       <Routes>
         <Route path="/" element={<GalleryPage />} />
+        <Route path="/album/:albumId" element={<GalleryPage />} />
+        <Route path="/album/:albumId/photo/:photoId" element={<GalleryPage />} />
+        <Route path="/a/:albumId" element={<GuestLinkPage />} />
+        <Route path="/upload" element={<GuestUploadPage />} />
         <Route path="/admin" element={<AdminPage />} />
         <Route path="/intro" element={<IntroTest />} />
       </Routes>
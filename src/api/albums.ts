@@ -1,4 +1,51 @@
-import type { Album, Photo } from '@/types';
+import type {
+  Album,
+  AlbumDetails,
+  AlbumFile,
+  AlbumSummary,
+  AlbumUpdate,
+  ClientSelections,
+  Contribution,
+  DownloadVariant,
+  ModeratedComment,
+  PhotoFeedback,
+  PhotoPage,
+  PhotoRef,
+  PhotoSearchHit,
+  PhotoSortMode,
+  Session,
+  ShareLink,
+  UploadJob,
+  UploadFileEntry,
+  UploadJobFile,
+  UploadSession,
+  UploadSessionKind,
+  UserRole,
+  ViewerSelections,
+} from '@/types';
+import { deleteUploadJob, getFileFingerprint, getUploadJob, getUploadJobKey, saveUploadJob } from '@/utils/uploadStore';
+import { batchForLightMaxPairing, selectPairedFiles } from '@/utils/uploadStructure';
+import { ApiError, AuthError, NetworkError, errorFromStatus } from '@/api/errors';
+import {
+  parseAlbum,
+  parseAlbumFiles,
+  parseAlbumResult,
+  parseAlbumSummaries,
+  parseClientSelections,
+  parseContributionReceipt,
+  parseContributions,
+  parseDeleteResult,
+  parseModeratedComment,
+  parseModeratedComments,
+  parsePhotoFeedback,
+  parsePhotoPage,
+  parsePhotoSearchHits,
+  parseSession,
+  parseShareLink,
+  parseShareLinks,
+  parseViewerKey,
+  parseViewerSelections,
+} from '@/api/schema';
 
 // ============================================
 // API CONFIGURATION
@@ -14,29 +61,254 @@ const DEFAULT_API_URL = (() => {
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || DEFAULT_API_URL;
 
+// ============================================
+// SESSION
+// ============================================
+
+const SESSION_STORAGE_KEY = 'gallery_session';
+
+/**
+ * Get the stored session, or null when missing or expired
+ */
+export function getSession(): Session | null {
+  const raw = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    const session = JSON.parse(raw) as Session;
+    if (!session.token || new Date(session.expiresAt).getTime() <= Date.now()) {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+}
+
+/**
+ * Forget the stored session (logout)
+ */
+export function clearSession(): void {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+function authHeaders(): Record<string, string> {
+  const session = getSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
+/**
+ * Send an authorized request and throw for error statuses (304 Not Modified passes through)
+ */
+async function fetchResponse(endpoint: string, options?: RequestInit): Promise<Response> {
+  const url = `${API_BASE_URL}${endpoint}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...options,
+      headers: {
+        ...authHeaders(),
+        ...options?.headers,
+      },
+    });
+  } catch {
+    throw new NetworkError();
+  }
+
+  if (response.status === 401) {
+    clearSession();
+  }
+
+  if (!response.ok && response.status !== 304) {
+    const error = await response.json().catch(() => null);
+    throw errorFromStatus(response.status, typeof error?.error === 'string' ? error.error : undefined);
+  }
+  return response;
+}
+
+async function readJSON<T>(response: Response, parse?: (data: unknown) => T): Promise<T> {
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    // A 2xx page that is not JSON comes from a misconfigured proxy or host, not from the API
+    throw errorFromStatus(502, 'Serwer zwrócił nieprawidłową odpowiedź');
+  }
+  return parse ? parse(data) : data as T;
+}
+
 async function fetchAPI<T>(
   endpoint: string,
-  options?: RequestInit
+  options?: RequestInit,
+  parse?: (data: unknown) => T
 ): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-  
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      ...options?.headers,
-    },
-  });
+  return readJSON(await fetchResponse(endpoint, options), parse);
+}
+
+const VIEWER_KEY_STORAGE_KEY = 'gallery_viewer_key';
+let pendingViewerKey: Promise<string> | null = null;
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Błąd połączenia z serwerem' }));
-    throw new Error(error.error || `HTTP Error: ${response.status}`);
+/**
+ * This browser's signed viewer id, asked for once and kept across sessions, since
+ * everyone with the same password or link shares a session
+ */
+async function getViewerKey(): Promise<string> {
+  const stored = localStorage.getItem(VIEWER_KEY_STORAGE_KEY);
+  if (stored) return stored;
+  if (!pendingViewerKey) {
+    pendingViewerKey = fetchAPI('/api/viewers', { method: 'POST' }, parseViewerKey)
+      .then(({ key }) => {
+        localStorage.setItem(VIEWER_KEY_STORAGE_KEY, key);
+        return key;
+      })
+      .finally(() => {
+        pendingViewerKey = null;
+      });
   }
+  return pendingViewerKey;
+}
+
+/**
+ * fetchAPI on behalf of this browser's viewer. A key the server refuses (signed with an
+ * older AUTH_SECRET) is forgotten, so the next request gets a new one
+ */
+async function fetchAsViewer<T>(
+  endpoint: string,
+  options?: RequestInit,
+  parse?: (data: unknown) => T
+): Promise<T> {
+  const key = await getViewerKey();
+  try {
+    return await fetchAPI(endpoint, { ...options, headers: { ...options?.headers, 'X-Viewer-Key': key } }, parse);
+  } catch (error) {
+    if (error instanceof AuthError && error.status === 403) localStorage.removeItem(VIEWER_KEY_STORAGE_KEY);
+    throw error;
+  }
+}
+
+// ============================================
+// AUTH API
+// ============================================
+
+/**
+ * Exchange a gallery password for a signed session token
+ */
+export async function login(password: string): Promise<Session> {
+  const session = await fetchAPI('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ password }),
+  }, parseSession);
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+/**
+ * Exchange a share link key for a guest session limited to the link's albums
+ */
+export async function redeemShareLink(key: string): Promise<Session> {
+  const session = await fetchAPI('/api/auth/link', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ key }),
+  }, parseSession);
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+/**
+ * Role of the current session, or null when logged out
+ */
+export function getSessionRole(): UserRole {
+  return getSession()?.role ?? null;
+}
+
+// ============================================
+// SHARE LINKS API (owner only)
+// ============================================
+
+/**
+ * Get all share links, including expired and revoked ones
+ */
+export async function getShareLinks(): Promise<ShareLink[]> {
+  return fetchAPI('/api/links', undefined, parseShareLinks);
+}
+
+/**
+ * Create a guest link for the given albums
+ */
+export async function createShareLink(
+  albumIds: string[],
+  label: string,
+  expiresAt: string | null
+): Promise<ShareLink> {
+  return fetchAPI('/api/links', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ albumIds, label, expiresAt }),
+  }, parseShareLink);
+}
 
-  return response.json();
+/**
+ * Revoke a share link - sessions opened through it stop working immediately
+ */
+export async function revokeShareLink(id: string): Promise<ShareLink> {
+  return fetchAPI(`/api/links/${id}`, {
+    method: 'DELETE',
+  }, parseShareLink);
+}
+
+/**
+ * Public URL guests open to use a share link
+ */
+export function getShareLinkUrl(link: ShareLink): string {
+  return `${window.location.origin}/a/${link.albumIds[0]}?k=${encodeURIComponent(link.key)}`;
+}
+
+/**
+ * URL of the guest upload page opened with a share link, e.g. for a QR code at the venue
+ */
+export function getContributionUrl(link: ShareLink): string {
+  return `${window.location.origin}/upload?k=${encodeURIComponent(link.key)}`;
+}
+
+// ============================================
+// FAVORITES AND PROOFING LISTS
+// ============================================
+
+/**
+ * Favourites and proofing lists of this viewer, only from the albums this session opens
+ */
+export async function getViewerSelections(): Promise<ViewerSelections> {
+  return fetchAsViewer('/api/selections/me', undefined, parseViewerSelections);
+}
+
+/**
+ * Replace the viewer's favourites and lists; picks from albums outside this session are kept
+ */
+export async function saveViewerSelections(selections: ViewerSelections): Promise<ViewerSelections> {
+  return fetchAsViewer('/api/selections/me', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      viewerName: selections.viewerName,
+      favorites: selections.favorites,
+      lists: selections.lists,
+    }),
+  }, parseViewerSelections);
+}
+
+/**
+ * Every client's favourites and lists with file names (owner only)
+ */
+export async function getClientSelections(): Promise<ClientSelections[]> {
+  return fetchAPI('/api/selections', undefined, parseClientSelections);
 }
 
 // ============================================
@@ -44,39 +316,145 @@ async function fetchAPI<T>(
 // ============================================
 
 /**
- * Get all albums
+ * Get all albums, without their photos (see getAlbumPhotos)
  */
-export async function getAlbums(): Promise<Album[]> {
-  return fetchAPI<Album[]>('/api/albums');
+export async function getAlbums(): Promise<AlbumSummary[]> {
+  return fetchAPI('/api/albums', undefined, parseAlbumSummaries);
 }
 
 /**
- * Get single album by ID
+ * Get all albums unless they still match the given ETag - then resolves to null.
+ * The browser cache is bypassed, so a 304 always reaches the caller
+ */
+export async function getAlbumsIfChanged(
+  etag: string | null
+): Promise<{ albums: AlbumSummary[]; etag: string | null } | null> {
+  const response = await fetchResponse('/api/albums', {
+    cache: 'no-store',
+    headers: etag ? { 'If-None-Match': etag } : undefined,
+  });
+  if (response.status === 304) return null;
+  const albums = await readJSON(response, parseAlbumSummaries);
+  return { albums, etag: response.headers.get('ETag') };
+}
+
+/**
+ * One page of an album's photos, in album order or by capture time; pass the previous
+ * page's nextCursor (from the same sort) to continue
+ */
+export async function getAlbumPhotos(
+  albumId: string,
+  cursor: string | null = null,
+  sort: PhotoSortMode = 'album',
+  limit?: number
+): Promise<PhotoPage> {
+  const params = new URLSearchParams();
+  if (cursor) params.set('cursor', cursor);
+  if (sort !== 'album') params.set('sort', sort);
+  if (limit) params.set('limit', String(limit));
+  const query = params.toString();
+  return fetchAPI(`/api/albums/${albumId}/photos${query ? `?${query}` : ''}`, undefined, parsePhotoPage);
+}
+
+/**
+ * Get single album by ID, with all its photos
  */
 export async function getAlbumById(id: string): Promise<Album> {
-  return fetchAPI<Album>(`/api/albums/${id}`);
+  return fetchAPI(`/api/albums/${id}`, undefined, parseAlbum);
+}
+
+/**
+ * Photos whose file name or title matches the query, from every album the session may see
+ */
+export async function searchPhotos(query: string): Promise<PhotoSearchHit[]> {
+  const params = new URLSearchParams({ q: query }).toString();
+  return fetchAPI(`/api/search/photos?${params}`, undefined, parsePhotoSearchHits);
 }
 
 /**
- * Create new album
+ * Comments and reaction counts of a photo, marking the reactions this viewer gave
  */
-export async function createAlbum(name: string): Promise<Album> {
-  return fetchAPI<Album>('/api/albums', {
+export async function getPhotoFeedback(albumId: string, photoId: string): Promise<PhotoFeedback> {
+  return fetchAsViewer(`/api/albums/${albumId}/photos/${photoId}/feedback`, undefined, parsePhotoFeedback);
+}
+
+/**
+ * Comment on a photo; returns the photo's feedback with the new comment
+ */
+export async function addPhotoComment(
+  albumId: string,
+  photoId: string,
+  comment: { authorName: string; text: string }
+): Promise<PhotoFeedback> {
+  return fetchAsViewer(`/api/albums/${albumId}/photos/${photoId}/comments`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ name }),
-  });
+    body: JSON.stringify(comment),
+  }, parsePhotoFeedback);
 }
 
 /**
- * Update album
+ * Give or take back a reaction on a photo
  */
-export async function updateAlbum(id: string, name: string): Promise<Album> {
-  return fetchAPI<Album>(`/api/albums/${id}`, {
+export async function togglePhotoReaction(
+  albumId: string,
+  photoId: string,
+  emoji: string
+): Promise<PhotoFeedback> {
+  return fetchAsViewer(`/api/albums/${albumId}/photos/${photoId}/reactions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ emoji }),
+  }, parsePhotoFeedback);
+}
+
+/**
+ * Every comment with the photo it was left on, hidden ones included (owner only)
+ */
+export async function getComments(): Promise<ModeratedComment[]> {
+  return fetchAPI('/api/comments', undefined, parseModeratedComments);
+}
+
+/**
+ * Hide a comment from the gallery or show it again (owner only)
+ */
+export async function setCommentHidden(id: string, hidden: boolean): Promise<ModeratedComment> {
+  return fetchAPI(`/api/comments/${id}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ name }),
-  });
+    body: JSON.stringify({ hidden }),
+  }, parseModeratedComment);
+}
+
+/**
+ * Delete a comment for good (owner only)
+ */
+export async function deleteComment(id: string): Promise<{ message: string; id: string }> {
+  return fetchAPI(`/api/comments/${id}`, {
+    method: 'DELETE',
+  }, parseDeleteResult);
+}
+
+/**
+ * Create new album, optionally with its event details
+ */
+export async function createAlbum(name: string, details: AlbumDetails = {}): Promise<Album> {
+  return fetchAPI('/api/albums', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...details, name }),
+  }, parseAlbum);
+}
+
+/**
+ * Update album (owner only). An empty accessCode removes the album's code.
+ */
+export async function updateAlbum(id: string, changes: AlbumUpdate): Promise<Album> {
+  return fetchAPI(`/api/albums/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  }, parseAlbum);
 }
 
 /**
@@ -85,7 +463,7 @@ export async function updateAlbum(id: string, name: string): Promise<Album> {
 export async function deleteAlbum(id: string): Promise<{ message: string; id: string }> {
   return fetchAPI(`/api/albums/${id}`, {
     method: 'DELETE',
-  });
+  }, parseDeleteResult);
 }
 
 // ============================================
@@ -93,49 +471,28 @@ export async function deleteAlbum(id: string): Promise<{ message: string; id: st
 // ============================================
 
 /**
- * Upload photos to existing album
+ * Upload photos to existing album (resumable, same pipeline as uploadAlbum)
  */
 export async function uploadPhotosToAlbum(
-  albumId: string,
-  files: File[],
+  album: Pick<Album, 'id' | 'name'>,
+  files: UploadFileEntry[],
   onProgress?: (progress: number) => void
-): Promise<{ message: string; photos: Photo[] }> {
-  const formData = new FormData();
-  
-  files.forEach((file) => {
-    formData.append('photos', file);
-  });
+): Promise<{ message: string; album: Album }> {
+  const uploadFiles = selectPairedFiles(files);
+  const job = await prepareUploadJob(album.name, album.id, uploadFiles);
+  const updatedAlbum = await runUploadJob(job, uploadFiles, onProgress);
 
-  // Using XMLHttpRequest for progress tracking
-  return new Promise((resolve, reject) => {
-    const xhr = new XMLHttpRequest();
-    
-    xhr.open('POST', `${API_BASE_URL}/api/albums/${albumId}/photos`);
-    
-    xhr.upload.onprogress = (event) => {
-      if (event.lengthComputable && onProgress) {
-        const progress = (event.loaded / event.total) * 100;
-        onProgress(progress);
-      }
-    };
-    
-    xhr.onload = () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        resolve(JSON.parse(xhr.responseText));
-      } else {
-        try {
-          const error = JSON.parse(xhr.responseText);
-          reject(new Error(error.error || 'Upload failed'));
-        } catch {
-          reject(new Error('Upload failed'));
-        }
-      }
-    };
-    
-    xhr.onerror = () => reject(new Error('Network error'));
-    
-    xhr.send(formData);
-  });
+  return {
+    message: `Dodano ${uploadFiles.length} plików do albumu "${album.name}"`,
+    album: updatedAlbum,
+  };
+}
+
+/**
+ * Names and sizes of files already stored in an album (owner only)
+ */
+export async function getAlbumFiles(albumId: string): Promise<AlbumFile[]> {
+  return fetchAPI(`/api/albums/${albumId}/files`, undefined, parseAlbumFiles);
 }
 
 /**
@@ -147,139 +504,424 @@ export async function deletePhoto(
 ): Promise<{ message: string; id: string }> {
   return fetchAPI(`/api/albums/${albumId}/photos/${photoId}`, {
     method: 'DELETE',
-  });
+  }, parseDeleteResult);
 }
 
 // ============================================
 // BULK UPLOAD (Create album + upload photos)
 // ============================================
 
-const BATCH_SIZE = 5; // Upload 5 files at a time (for large files like 50MB each)
-const UPLOAD_TIMEOUT = 600000; // 10 minutes timeout per batch
+// Every file goes up in chunks to its own server-side upload session; the album
+// is only created once all bytes are on the server, and progress is kept in
+// IndexedDB, so an interrupted upload continues where it stopped
+const CHUNK_SIZE = 4 * 1024 * 1024; // 4MB per request
+const CHUNK_TIMEOUT = 120000; // 2 minutes per chunk
+const MAX_UPLOAD_RETRIES = 5;
+const RETRY_BASE_DELAY = 1000; // doubles after every failed attempt
+const COMMIT_BATCH_SIZE = 20; // finished files attached to the album per request
+
+interface UploadResponse<T> {
+  status: number; // 0 = network error or timeout
+  data: T | null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number): boolean =>
+  status === 0 || status === 408 || status === 429 || status >= 500;
+
+/**
+ * Run an upload request, retrying network and server errors with exponential backoff
+ */
+async function withRetries<T>(request: () => Promise<UploadResponse<T>>): Promise<UploadResponse<T>> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await request();
+    if (!isRetryableStatus(response.status) || attempt >= MAX_UPLOAD_RETRIES) {
+      return response;
+    }
+    await sleep(RETRY_BASE_DELAY * 2 ** attempt);
+  }
+}
+
+function uploadError(response: UploadResponse<{ error?: string }>, fallback: string): ApiError {
+  if (response.status === 0) return new NetworkError('Brak połączenia z serwerem - spróbuj ponownie');
+  return errorFromStatus(response.status, response.data?.error || fallback);
+}
+
+async function uploadSessionRequest<T>(
+  method: string,
+  endpoint: string,
+  body?: unknown
+): Promise<UploadResponse<T>> {
+  try {
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 401) {
+      clearSession();
+    }
+    return { status: response.status, data: await response.json().catch(() => null) };
+  } catch {
+    return { status: 0, data: null };
+  }
+}
 
 /**
- * Upload a single batch of files
+ * Append one chunk at the given offset (XHR, because fetch has no upload progress)
  */
-async function uploadBatch(
-  url: string,
-  formData: FormData,
-  onProgress?: (loaded: number, total: number) => void
-): Promise<unknown> {
-  return new Promise((resolve, reject) => {
+function sendChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (loaded: number) => void
+): Promise<UploadResponse<UploadSession & { error?: string }>> {
+  return new Promise((resolve) => {
     const xhr = new XMLHttpRequest();
-    
-    xhr.open('POST', url);
-    
-    xhr.upload.onprogress = (event) => {
-      if (event.lengthComputable && onProgress) {
-        onProgress(event.loaded, event.total);
-      }
-    };
-    
+
+    xhr.open('PATCH', `${API_BASE_URL}/api/uploads/${uploadId}`);
+    Object.entries(authHeaders()).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+    xhr.setRequestHeader('Upload-Offset', String(offset));
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+
     xhr.onload = () => {
-      if (xhr.status >= 200 && xhr.status < 300) {
-        resolve(JSON.parse(xhr.responseText));
-      } else {
-        try {
-          const error = JSON.parse(xhr.responseText);
-          reject(new Error(error.error || 'Upload failed'));
-        } catch {
-          reject(new Error(`Upload failed: ${xhr.status}`));
-        }
+      if (xhr.status === 401) {
+        clearSession();
       }
+      let data = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Proxies may answer with an HTML error page
+      }
+      resolve({ status: xhr.status, data });
     };
-    
-    xhr.onerror = () => reject(new Error('Network error'));
-    xhr.ontimeout = () => reject(new Error('Upload timeout - plik za duży lub wolne połączenie'));
-    
-    xhr.timeout = UPLOAD_TIMEOUT;
-    xhr.send(formData);
+    xhr.onerror = () => resolve({ status: 0, data: null });
+    xhr.ontimeout = () => resolve({ status: 0, data: null });
+
+    xhr.timeout = CHUNK_TIMEOUT;
+    xhr.send(chunk);
   });
 }
 
 /**
- * Upload entire album (creates album + uploads all photos in batches)
+ * Start a new server-side upload session for one file
  */
-export async function uploadAlbum(
-  albumName: string,
-  files: File[],
-  onProgress?: (progress: number) => void
-): Promise<{ message: string; album: Album }> {
-  
-  // If small number of files, upload directly
-  if (files.length <= BATCH_SIZE) {
-    const formData = new FormData();
-    formData.append('albumName', albumName);
-    files.forEach((file) => formData.append('photos', file));
-    
-    const result = await uploadBatch(
-      `${API_BASE_URL}/api/upload`,
-      formData,
-      (loaded, total) => onProgress?.(loaded / total * 100)
+async function createUploadSession(entry: UploadJobFile, kind: UploadSessionKind): Promise<UploadSession> {
+  const response = await withRetries(() =>
+    uploadSessionRequest<UploadSession & { error?: string }>('POST', '/api/uploads', {
+      name: entry.path,
+      size: entry.size,
+      kind,
+    })
+  );
+  if (response.status !== 201 || !response.data) {
+    throw uploadError(response, `Nie udało się rozpocząć wysyłki pliku ${entry.path}`);
+  }
+  return response.data;
+}
+
+/**
+ * Server-side state of an upload, or null when it no longer exists
+ */
+async function getUploadSession(uploadId: string): Promise<UploadSession | null> {
+  const response = await withRetries(() =>
+    uploadSessionRequest<UploadSession & { error?: string }>('GET', `/api/uploads/${uploadId}`)
+  );
+  if (response.status === 404) return null;
+  if (response.status !== 200 || !response.data) {
+    throw uploadError(response, 'Nie udało się sprawdzić stanu uploadu');
+  }
+  return response.data;
+}
+
+/**
+ * Upload the part of a file the server does not have yet
+ */
+async function uploadFileInChunks(
+  file: File,
+  entry: UploadJobFile,
+  onSessionCreated: () => Promise<void>,
+  onProgress: (uploaded: number) => void,
+  kind: UploadSessionKind = 'album'
+): Promise<void> {
+  let offset = 0;
+  const remote = entry.uploadId ? await getUploadSession(entry.uploadId) : null;
+  if (remote) {
+    offset = remote.offset;
+  } else {
+    // Never started, or the server already purged the session
+    entry.uploadId = (await createUploadSession(entry, kind)).id;
+    await onSessionCreated();
+  }
+  onProgress(offset);
+
+  while (offset < file.size) {
+    const start = offset;
+    const uploadId = entry.uploadId!;
+    const response = await withRetries(() =>
+      sendChunk(uploadId, start, file.slice(start, start + CHUNK_SIZE), loaded => onProgress(start + loaded))
     );
-    return result as { message: string; album: Album };
+
+    if (response.status === 200 && response.data) {
+      offset = response.data.offset;
+    } else if (response.status === 409 && typeof response.data?.offset === 'number') {
+      // The server got more (or less) than we thought - continue from its offset
+      offset = response.data.offset;
+    } else if (response.status === 404) {
+      entry.uploadId = (await createUploadSession(entry, kind)).id;
+      await onSessionCreated();
+      offset = 0;
+    } else {
+      throw uploadError(response, `Nie udało się przesłać pliku ${file.name}`);
+    }
+    onProgress(offset);
   }
-  
-  // For large uploads, use batch upload
-  console.log(`📦 Batch upload: ${files.length} files in batches of ${BATCH_SIZE}`);
-  
-  // Step 1: Create album with first batch
-  const firstBatch = files.slice(0, BATCH_SIZE);
-  const formData = new FormData();
-  formData.append('albumName', albumName);
-  firstBatch.forEach((file) => formData.append('photos', file));
-  
-  let totalUploaded = 0;
-  const totalFiles = files.length;
-  
-  const createResult = await uploadBatch(
-    `${API_BASE_URL}/api/upload`,
-    formData,
-    (loaded, total) => {
-      const batchProgress = loaded / total;
-      const overallProgress = (totalUploaded + batchProgress * firstBatch.length) / totalFiles * 100;
-      onProgress?.(overallProgress);
+}
+
+/**
+ * Cancel an unfinished upload (frees the server space and forgets local progress)
+ */
+export async function discardUploadJob(job: UploadJob): Promise<void> {
+  await Promise.all(
+    job.files
+      .filter(entry => entry.uploadId && !entry.committed)
+      .map(entry => uploadSessionRequest('DELETE', `/api/uploads/${entry.uploadId}`))
+  );
+  await deleteUploadJob(job.key);
+}
+
+/**
+ * Resume the saved job when it covers exactly the same files, otherwise start fresh
+ */
+async function prepareUploadJob(
+  albumName: string,
+  albumId: string | undefined,
+  files: UploadFileEntry[]
+): Promise<UploadJob> {
+  const key = getUploadJobKey(albumName, albumId);
+  const fingerprints = files.map(getFileFingerprint);
+  const saved = await getUploadJob(key);
+  if (
+    saved &&
+    saved.files.length === fingerprints.length &&
+    saved.files.every(entry => fingerprints.includes(entry.fingerprint))
+  ) {
+    return saved;
+  }
+
+  const job: UploadJob = {
+    key,
+    albumName,
+    albumId,
+    files: files.map(({ file, path }, index) => ({
+      fingerprint: fingerprints[index],
+      path,
+      size: file.size,
+      committed: false,
+    })),
+    updatedAt: new Date().toISOString(),
+  };
+  await saveUploadJob(job);
+  return job;
+}
+
+/**
+ * Upload every file of a job, then attach them to its album (creating the album
+ * first when the job has none yet); returns the album's final state
+ */
+async function runUploadJob(
+  job: UploadJob,
+  files: UploadFileEntry[],
+  onProgress?: (progress: number) => void
+): Promise<Album> {
+  const filesByFingerprint = new Map(files.map(entry => [getFileFingerprint(entry), entry.file]));
+  const persist = () => saveUploadJob(job);
+
+  // Bytes are 95% of the progress bar, attaching the files to the album the rest
+  const totalBytes = job.files.reduce((sum, entry) => sum + entry.size, 0) || 1;
+  const uploadedBytes = new Map<string, number>();
+  const reportBytes = () => {
+    const uploaded = Array.from(uploadedBytes.values()).reduce((sum, bytes) => sum + bytes, 0);
+    onProgress?.((uploaded / totalBytes) * 95);
+  };
+
+  for (const entry of job.files) {
+    if (entry.committed) {
+      uploadedBytes.set(entry.fingerprint, entry.size);
+      continue;
     }
-  ) as { message: string; album: Album };
-  
-  totalUploaded += firstBatch.length;
-  onProgress?.((totalUploaded / totalFiles) * 100);
-  
-  const albumId = createResult.album.id;
-  
-  // Step 2: Upload remaining files in batches
-  const remainingFiles = files.slice(BATCH_SIZE);
-  
-  for (let i = 0; i < remainingFiles.length; i += BATCH_SIZE) {
-    const batch = remainingFiles.slice(i, i + BATCH_SIZE);
-    const batchFormData = new FormData();
-    batch.forEach((file) => batchFormData.append('photos', file));
-    
-    await uploadBatch(
-      `${API_BASE_URL}/api/albums/${albumId}/photos`,
-      batchFormData,
-      (loaded, total) => {
-        const batchProgress = loaded / total;
-        const overallProgress = (totalUploaded + batchProgress * batch.length) / totalFiles * 100;
-        onProgress?.(overallProgress);
-      }
-    );
-    
-    totalUploaded += batch.length;
-    onProgress?.((totalUploaded / totalFiles) * 100);
-    
-    console.log(`✅ Batch ${Math.ceil((i + BATCH_SIZE) / BATCH_SIZE) + 1}: ${totalUploaded}/${totalFiles} files`);
+    const file = filesByFingerprint.get(entry.fingerprint)!;
+    await uploadFileInChunks(file, entry, persist, (uploaded) => {
+      uploadedBytes.set(entry.fingerprint, uploaded);
+      reportBytes();
+    });
+  }
+  reportBytes();
+
+  const batches = batchForLightMaxPairing(job.files.filter(entry => !entry.committed), COMMIT_BATCH_SIZE);
+  const pendingCount = batches.reduce((sum, batch) => sum + batch.length, 0);
+  // A new album is created on its own and remembered before any files go in, so a resumed
+  // job keeps filling the same album instead of creating a second one
+  if (!job.albumId && batches.length > 0) {
+    job.albumId = (await createAlbum(job.albumName)).id;
+    await persist();
   }
-  
+
+  let committedCount = 0;
+  for (const batch of batches) {
+    await fetchAPI(`/api/albums/${job.albumId}/photos`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uploadIds: batch.map(entry => entry.uploadId) }),
+    });
+
+    batch.forEach(entry => { entry.committed = true; });
+    await persist();
+    committedCount += batch.length;
+    onProgress?.(95 + (committedCount / pendingCount) * 5);
+  }
+
+  if (!job.albumId) {
+    throw new ApiError('Brak zdjęć do przesłania');
+  }
+
   // Fetch final album state
-  const finalAlbum = await getAlbumById(albumId);
-  
+  const finalAlbum = await getAlbumById(job.albumId);
+  await deleteUploadJob(job.key);
+  return finalAlbum;
+}
+
+/**
+ * Upload entire album (creates album + uploads all photos, resuming a previous attempt if there was one)
+ */
+export async function uploadAlbum(
+  albumName: string,
+  files: UploadFileEntry[],
+  onProgress?: (progress: number) => void
+): Promise<{ message: string; album: Album }> {
+  const uploadFiles = selectPairedFiles(files);
+  const job = await prepareUploadJob(albumName, undefined, uploadFiles);
+  const album = await runUploadJob(job, uploadFiles, onProgress);
+
   return {
-    message: `Album "${albumName}" utworzony z ${finalAlbum.photos.length} zdjęciami`,
-    album: finalAlbum,
+    message: `Album "${albumName}" utworzony z ${album.photos.length} zdjęciami`,
+    album,
   };
 }
 
+// ============================================
+// SLIDESHOW AUDIO
+// ============================================
+
+/**
+ * Set the album's slideshow soundtrack, replacing the previous one. The file goes up
+ * in chunks like photos do (progress 0-100), but is not remembered across reloads
+ */
+export async function uploadAlbumAudio(
+  albumId: string,
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<Album> {
+  const entry: UploadJobFile = {
+    fingerprint: getFileFingerprint({ file, path: file.name }),
+    path: file.name,
+    size: file.size,
+    committed: false,
+  };
+  await uploadFileInChunks(file, entry, async () => {}, uploaded => onProgress?.((uploaded / (file.size || 1)) * 100));
+  return fetchAPI(`/api/albums/${albumId}/audio`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uploadId: entry.uploadId }),
+  }, parseAlbum);
+}
+
+/**
+ * Remove the album's slideshow soundtrack
+ */
+export async function deleteAlbumAudio(albumId: string): Promise<Album> {
+  return fetchAPI(`/api/albums/${albumId}/audio`, {
+    method: 'DELETE',
+  }, parseAlbum);
+}
+
+// ============================================
+// GUEST CONTRIBUTIONS
+// ============================================
+
+/**
+ * Send one guest photo for the owner's approval. It goes up in chunks like the owner's
+ * uploads (progress 0-100), so a flaky connection at the venue only repeats a chunk
+ */
+export async function submitContribution(
+  file: File,
+  contributorName: string,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const entry: UploadJobFile = {
+    fingerprint: getFileFingerprint({ file, path: file.name }),
+    path: file.name,
+    size: file.size,
+    committed: false,
+  };
+  await uploadFileInChunks(
+    file,
+    entry,
+    async () => {},
+    uploaded => onProgress?.((uploaded / (file.size || 1)) * 100),
+    'contribution'
+  );
+  await fetchAPI('/api/contributions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uploadIds: [entry.uploadId], contributorName }),
+  }, parseContributionReceipt);
+}
+
+/**
+ * Guest photos waiting for approval (owner only)
+ */
+export async function getContributions(): Promise<Contribution[]> {
+  return fetchAPI('/api/contributions', undefined, parseContributions);
+}
+
+/**
+ * A pending guest photo or its thumbnail (owner only). They are not public until approved,
+ * so they come through the API with the session token instead of a plain image URL
+ */
+export async function getContributionImage(path: string): Promise<Blob> {
+  const response = await fetchResponse(path);
+  try {
+    return await response.blob();
+  } catch {
+    throw new NetworkError();
+  }
+}
+
+/**
+ * Move guest photos into an album, by default the guest album made on the first approval
+ */
+export async function approveContributions(ids: string[], albumId?: string): Promise<{ album: Album }> {
+  return fetchAPI('/api/contributions/approve', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids, albumId }),
+  }, parseAlbumResult);
+}
+
+/**
+ * Reject a guest photo; its file is deleted
+ */
+export async function rejectContribution(id: string): Promise<{ message: string; id: string }> {
+  return fetchAPI(`/api/contributions/${id}`, {
+    method: 'DELETE',
+  }, parseDeleteResult);
+}
+
 // ============================================
 // HEALTH CHECK
 // ============================================
@@ -321,25 +963,56 @@ export function getThumbnailUrl(thumbnail: string): string {
 }
 
 /**
- * Get download URL for album
+ * Fetch a ZIP archive with the session token in the header, never in the URL, so it stays
+ * out of server logs and browser history; a connection lost while the archive streams in
+ * is a NetworkError too
+ */
+async function downloadZip(endpoint: string, body?: unknown): Promise<Blob> {
+  let response: Response;
+  try {
+    response = await fetchResponse(endpoint, body === undefined ? undefined : {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      throw new AuthError('Pobieranie dostępne tylko dla właściciela galerii', error.status ?? 403);
+    }
+    throw error;
+  }
+
+  try {
+    return await response.blob();
+  } catch {
+    throw new NetworkError();
+  }
+}
+
+/**
+ * Download one album as a ZIP
  */
-export function getAlbumDownloadUrl(albumId: string): string {
-  return `${API_BASE_URL}/api/albums/${albumId}/download`;
+export async function downloadAlbumFromBackend(albumId: string, variant: DownloadVariant = 'both'): Promise<Blob> {
+  const params = new URLSearchParams({ variant }).toString();
+  return downloadZip(`/api/albums/${albumId}/download?${params}`);
 }
 
 /**
  * Download multiple albums - returns blob URL
  */
-export async function downloadMultipleAlbumsFromBackend(albumIds: string[]): Promise<Blob> {
-  const response = await fetch(`${API_BASE_URL}/api/download-multiple`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ albumIds }),
-  });
-  
-  if (!response.ok) {
-    throw new Error('Błąd podczas pobierania albumów');
-  }
-  
-  return response.blob();
+export async function downloadMultipleAlbumsFromBackend(
+  albumIds: string[],
+  variant: DownloadVariant = 'both'
+): Promise<Blob> {
+  return downloadZip('/api/download-multiple', { albumIds, variant });
+}
+
+/**
+ * Download an arbitrary set of photos (from any albums) as one ZIP
+ */
+export async function downloadPhotosFromBackend(
+  photos: PhotoRef[],
+  variant: DownloadVariant = 'both'
+): Promise<Blob> {
+  return downloadZip('/api/download-photos', { photos, variant });
 }
@@ -0,0 +1,81 @@
+// ============================================
+// API ERRORS
+// ============================================
+
+/**
+ * Base class for everything the API client throws; status is the HTTP status, if there was a response
+ */
+export class ApiError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/**
+ * The request never got an answer (offline, DNS, CORS, timeout)
+ */
+export class NetworkError extends ApiError {
+  constructor(message = 'Brak połączenia z serwerem') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 401 / 403 - the session is missing, expired or lacks the role
+ */
+export class AuthError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The server answered 2xx, but the body does not match the expected shape.
+ * path points at the offending value, e.g. "albums[2].photos[0].src"
+ */
+export class ValidationError extends ApiError {
+  readonly path: string;
+
+  constructor(path: string, expected: string) {
+    super(`Nieprawidłowe dane z serwera (${path || 'odpowiedź'}: oczekiwano ${expected})`);
+    this.name = 'ValidationError';
+    this.path = path;
+  }
+}
+
+/**
+ * 5xx, or a proxy answering with something that is not our API
+ */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Error for a non-2xx response; status 0 means there was no response at all.
+ * Other 4xx answers (bad input, conflicts, expired links) stay plain ApiErrors
+ */
+export function errorFromStatus(status: number, message?: string): ApiError {
+  if (status === 0) return new NetworkError(message);
+  if (status === 401 || status === 403) {
+    return new AuthError(message || 'Brak uprawnień', status);
+  }
+  if (status === 404) return new NotFoundError(message || 'Nie znaleziono');
+  if (status >= 500) return new ServerError(message || `Błąd serwera (${status})`, status);
+  return new ApiError(message || `HTTP Error: ${status}`, status);
+}
@@ -0,0 +1,287 @@
+import { ValidationError } from '@/api/errors';
+import type {
+  Album,
+  AlbumFile,
+  AlbumSummary,
+  ClientSelections,
+  Contribution,
+  ModeratedComment,
+  Photo,
+  PhotoFeedback,
+  PhotoPage,
+  PhotoSearchHit,
+  ShareLink,
+  Session,
+  ViewerKey,
+  ViewerSelections,
+} from '@/types';
+
+// ============================================
+// RESPONSE VALIDATION
+// ============================================
+
+// Hand-written checks for the payloads the UI relies on. Unknown extra fields are
+// kept as they are; a missing required field or a wrong type throws a ValidationError
+// pointing at the value, so a backend bug shows up as an error instead of a blank gallery.
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function expectObject(value: unknown, path: string): JsonObject {
+  if (!isObject(value)) throw new ValidationError(path, 'obiektu');
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new ValidationError(path, 'listy');
+  return value;
+}
+
+function expectString(object: JsonObject, key: string, path: string): void {
+  if (typeof object[key] !== 'string') throw new ValidationError(`${path}.${key}`, 'tekstu');
+}
+
+function optionalString(object: JsonObject, key: string, path: string): void {
+  if (object[key] !== undefined && object[key] !== null) expectString(object, key, path);
+}
+
+function optionalNumber(object: JsonObject, key: string, path: string): void {
+  const value = object[key];
+  if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+    throw new ValidationError(`${path}.${key}`, 'liczby');
+  }
+}
+
+function optionalStringList(object: JsonObject, key: string, path: string): void {
+  if (object[key] === undefined || object[key] === null) return;
+  expectArray(object[key], `${path}.${key}`).forEach((item, index) => {
+    if (typeof item !== 'string') throw new ValidationError(`${path}.${key}[${index}]`, 'tekstu');
+  });
+}
+
+function optionalNumberMap(object: JsonObject, key: string, keys: string[], path: string): void {
+  if (object[key] === undefined || object[key] === null) return;
+  const map = expectObject(object[key], `${path}.${key}`);
+  keys.forEach(name => optionalNumber(map, name, `${path}.${key}`));
+}
+
+export function parsePhoto(value: unknown, path = 'photo'): Photo {
+  const photo = expectObject(value, path);
+  expectString(photo, 'id', path);
+  expectString(photo, 'src', path);
+  ['thumbnail', 'title', 'originalFilename', 'uploadedAt', 'takenAt', 'camera', 'lens', 'placeholder', 'maxSrc']
+    .forEach(key => optionalString(photo, key, path));
+  ['width', 'height', 'orientation'].forEach(key => optionalNumber(photo, key, path));
+  optionalNumberMap(photo, 'exposure', ['aperture', 'exposureTime', 'iso', 'focalLength'], path);
+  if (photo.variants !== undefined && photo.variants !== null) {
+    const variants = expectObject(photo.variants, `${path}.variants`);
+    Object.entries(variants).forEach(([format, sizes]) => {
+      const sizesPath = `${path}.variants.${format}`;
+      Object.keys(expectObject(sizes, sizesPath)).forEach(size => expectString(sizes as JsonObject, size, sizesPath));
+    });
+  }
+  if (photo.fileSize !== undefined && photo.fileSize !== null) {
+    const fileSize = expectObject(photo.fileSize, `${path}.fileSize`);
+    if (typeof fileSize.light !== 'number') throw new ValidationError(`${path}.fileSize.light`, 'liczby');
+    optionalNumber(fileSize, 'max', `${path}.fileSize`);
+  }
+  return photo as unknown as Photo;
+}
+
+function checkAlbumFields(album: JsonObject, path: string): void {
+  expectString(album, 'id', path);
+  expectString(album, 'name', path);
+  expectString(album, 'thumbnail', path);
+  ['accessCode', 'eventDate', 'description', 'location', 'clientName', 'photosVersion']
+    .forEach(key => optionalString(album, key, path));
+  optionalStringList(album, 'tags', path);
+  ['sortOrder', 'photoCount'].forEach(key => optionalNumber(album, key, path));
+  optionalNumberMap(album, 'downloadSizes', ['light', 'max', 'both'], path);
+  if (album.audioTrack !== undefined && album.audioTrack !== null) {
+    const audioTrack = expectObject(album.audioTrack, `${path}.audioTrack`);
+    expectString(audioTrack, 'src', `${path}.audioTrack`);
+    expectString(audioTrack, 'name', `${path}.audioTrack`);
+  }
+}
+
+export function parseAlbum(value: unknown, path = 'album'): Album {
+  const album = expectObject(value, path);
+  checkAlbumFields(album, path);
+  expectArray(album.photos, `${path}.photos`).forEach((photo, index) => parsePhoto(photo, `${path}.photos[${index}]`));
+  return album as unknown as Album;
+}
+
+export function parseAlbumSummaries(value: unknown): AlbumSummary[] {
+  return expectArray(value, 'albums').map((item, index) => {
+    const path = `albums[${index}]`;
+    const album = expectObject(item, path);
+    checkAlbumFields(album, path);
+    if (typeof album.photoCount !== 'number') throw new ValidationError(`${path}.photoCount`, 'liczby');
+    expectString(album, 'photosVersion', path);
+    return album as unknown as AlbumSummary;
+  });
+}
+
+export function parsePhotoPage(value: unknown): PhotoPage {
+  const page = expectObject(value, 'page');
+  expectArray(page.photos, 'page.photos').forEach((photo, index) => parsePhoto(photo, `page.photos[${index}]`));
+  optionalString(page, 'nextCursor', 'page');
+  if (typeof page.total !== 'number') throw new ValidationError('page.total', 'liczby');
+  return page as unknown as PhotoPage;
+}
+
+/**
+ * Upload commits answer with a message and the album they created or extended
+ */
+export function parseAlbumResult(value: unknown): { album: Album } {
+  const result = expectObject(value, 'result');
+  parseAlbum(result.album, 'result.album');
+  return result as { album: Album };
+}
+
+// The { message, id } answer of DELETE routes
+export function parseDeleteResult(value: unknown): { message: string; id: string } {
+  const result = expectObject(value, 'result');
+  expectString(result, 'message', 'result');
+  expectString(result, 'id', 'result');
+  return result as { message: string; id: string };
+}
+
+export function parseAlbumFiles(value: unknown): AlbumFile[] {
+  const result = expectObject(value, 'result');
+  return expectArray(result.files, 'result.files').map((item, index) => {
+    const path = `result.files[${index}]`;
+    const file = expectObject(item, path);
+    expectString(file, 'name', path);
+    if (typeof file.size !== 'number') throw new ValidationError(`${path}.size`, 'liczby');
+    return file as unknown as AlbumFile;
+  });
+}
+
+export function parsePhotoSearchHits(value: unknown): PhotoSearchHit[] {
+  return expectArray(value, 'photos').map((item, index) => {
+    const path = `photos[${index}]`;
+    const hit = expectObject(item, path);
+    ['albumId', 'albumName', 'photoId', 'title', 'fileName', 'thumbnail'].forEach(key => expectString(hit, key, path));
+    return hit as unknown as PhotoSearchHit;
+  });
+}
+
+export function parseSession(value: unknown): Session {
+  const session = expectObject(value, 'session');
+  expectString(session, 'token', 'session');
+  expectString(session, 'expiresAt', 'session');
+  if (session.role !== 'owner' && session.role !== 'guest') {
+    throw new ValidationError('session.role', '"owner" lub "guest"');
+  }
+  optionalStringList(session, 'albumIds', 'session');
+  return session as unknown as Session;
+}
+
+export function parseShareLink(value: unknown, path = 'link'): ShareLink {
+  const link = expectObject(value, path);
+  ['id', 'key', 'label', 'createdAt'].forEach(key => expectString(link, key, path));
+  ['expiresAt', 'revokedAt'].forEach(key => optionalString(link, key, path));
+  expectArray(link.albumIds, `${path}.albumIds`);
+  optionalStringList(link, 'albumIds', path);
+  return link as unknown as ShareLink;
+}
+
+export function parseShareLinks(value: unknown): ShareLink[] {
+  return expectArray(value, 'links').map((link, index) => parseShareLink(link, `links[${index}]`));
+}
+
+function checkPhotoRefs(value: unknown, path: string, fields: string[]): void {
+  expectArray(value, path).forEach((item, index) => {
+    const ref = expectObject(item, `${path}[${index}]`);
+    ['albumId', 'photoId', ...fields].forEach(key => expectString(ref, key, `${path}[${index}]`));
+  });
+}
+
+// Clients get bare photo references, owners also the album and file names
+function checkSelections(selections: JsonObject, path: string, photoFields: string[]): void {
+  expectString(selections, 'viewerName', path);
+  optionalString(selections, 'updatedAt', path);
+  checkPhotoRefs(selections.favorites, `${path}.favorites`, photoFields);
+  expectArray(selections.lists, `${path}.lists`).forEach((item, index) => {
+    const listPath = `${path}.lists[${index}]`;
+    const list = expectObject(item, listPath);
+    expectString(list, 'id', listPath);
+    expectString(list, 'name', listPath);
+    checkPhotoRefs(list.photos, `${listPath}.photos`, photoFields);
+  });
+}
+
+export function parseViewerKey(value: unknown): ViewerKey {
+  const viewer = expectObject(value, 'viewer');
+  expectString(viewer, 'viewerId', 'viewer');
+  expectString(viewer, 'key', 'viewer');
+  return viewer as unknown as ViewerKey;
+}
+
+export function parseViewerSelections(value: unknown): ViewerSelections {
+  const selections = expectObject(value, 'selections');
+  checkSelections(selections, 'selections', []);
+  return selections as unknown as ViewerSelections;
+}
+
+export function parseClientSelections(value: unknown): ClientSelections[] {
+  return expectArray(value, 'clients').map((item, index) => {
+    const path = `clients[${index}]`;
+    const client = expectObject(item, path);
+    expectString(client, 'viewerId', path);
+    checkSelections(client, path, ['albumName', 'fileName']);
+    return client as unknown as ClientSelections;
+  });
+}
+
+export function parseContributions(value: unknown): Contribution[] {
+  return expectArray(value, 'contributions').map((item, index) => {
+    const path = `contributions[${index}]`;
+    const contribution = expectObject(item, path);
+    ['id', 'src', 'thumbnail', 'originalFilename', 'contributorName', 'submittedAt']
+      .forEach(key => expectString(contribution, key, path));
+    ['width', 'height'].forEach(key => optionalNumber(contribution, key, path));
+    return contribution as unknown as Contribution;
+  });
+}
+
+export function parseContributionReceipt(value: unknown): { message: string; count: number } {
+  const receipt = expectObject(value, 'result');
+  expectString(receipt, 'message', 'result');
+  if (typeof receipt.count !== 'number') throw new ValidationError('result.count', 'liczby');
+  return receipt as { message: string; count: number };
+}
+
+function checkComment(comment: JsonObject, path: string): void {
+  ['id', 'albumId', 'photoId', 'authorName', 'text', 'createdAt'].forEach(key => expectString(comment, key, path));
+  if (typeof comment.hidden !== 'boolean') throw new ValidationError(`${path}.hidden`, 'wartości logicznej');
+}
+
+export function parsePhotoFeedback(value: unknown): PhotoFeedback {
+  const feedback = expectObject(value, 'feedback');
+  expectArray(feedback.comments, 'feedback.comments').forEach((item, index) => {
+    checkComment(expectObject(item, `feedback.comments[${index}]`), `feedback.comments[${index}]`);
+  });
+  expectArray(feedback.reactions, 'feedback.reactions').forEach((item, index) => {
+    const path = `feedback.reactions[${index}]`;
+    const reaction = expectObject(item, path);
+    expectString(reaction, 'emoji', path);
+    if (typeof reaction.count !== 'number') throw new ValidationError(`${path}.count`, 'liczby');
+    if (typeof reaction.reacted !== 'boolean') throw new ValidationError(`${path}.reacted`, 'wartości logicznej');
+  });
+  return feedback as unknown as PhotoFeedback;
+}
+
+export function parseModeratedComment(value: unknown, path = 'comment'): ModeratedComment {
+  const comment = expectObject(value, path);
+  checkComment(comment, path);
+  ['albumName', 'fileName', 'thumbnail'].forEach(key => expectString(comment, key, path));
+  return comment as unknown as ModeratedComment;
+}
+
+export function parseModeratedComments(value: unknown): ModeratedComment[] {
+  return expectArray(value, 'comments').map((comment, index) => parseModeratedComment(comment, `comments[${index}]`));
+}
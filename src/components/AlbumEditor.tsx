@@ -0,0 +1,405 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, Loader2, Star, Trash2, GripVertical, Save, Music, Upload } from 'lucide-react';
+import { saveAlbum, removePhoto, loadAlbumPhotos, setAlbumAudio } from '@/store/albumStore';
+import { parseTags } from '@/utils/albumOrder';
+import { getPhotoCount, hasAllPhotos } from '@/utils/photoPages';
+import type { Album, Photo } from '@/types';
+
+interface AlbumEditorProps {
+  album: Album;
+  onClose: () => void;
+}
+
+interface DetailsForm {
+  eventDate: string;
+  location: string;
+  clientName: string;
+  description: string;
+  tags: string;
+  sortOrder: string;
+}
+
+const isCover = (album: Album, photo: Photo): boolean =>
+  album.thumbnail === (photo.thumbnail || photo.src);
+
+const toDetailsForm = (album: Album): DetailsForm => ({
+  eventDate: album.eventDate || '',
+  location: album.location || '',
+  clientName: album.clientName || '',
+  description: album.description || '',
+  tags: (album.tags || []).join(', '),
+  sortOrder: album.sortOrder !== undefined ? String(album.sortOrder) : '',
+});
+
+const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30';
+
+const AlbumEditor: React.FC<AlbumEditorProps> = ({ album, onClose }) => {
+  const [name, setName] = useState(album.name);
+  const [photos, setPhotos] = useState<Photo[]>(album.photos);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [isOrderDirty, setIsOrderDirty] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null); // what is being saved right now
+  const [error, setError] = useState<string | null>(null);
+  const [audioProgress, setAudioProgress] = useState(0);
+  const savedDetailsKey = JSON.stringify(toDetailsForm(album));
+  const [details, setDetails] = useState<DetailsForm>(() => toDetailsForm(album));
+  const isDetailsDirty = JSON.stringify(details) !== savedDetailsKey;
+  // Sorting needs every photo, so the editor loads the pages the gallery has not
+  const isComplete = hasAllPhotos(album);
+
+  useEffect(() => {
+    if (!isComplete) loadAlbumPhotos(album.id, Infinity);
+  }, [album.id, isComplete]);
+
+  // Follow the server copy unless the owner is in the middle of sorting
+  useEffect(() => {
+    if (!isOrderDirty) setPhotos(album.photos);
+  }, [album.photos, isOrderDirty]);
+
+  useEffect(() => { setName(album.name); }, [album.name]);
+
+  useEffect(() => { setDetails(JSON.parse(savedDetailsKey)); }, [savedDetailsKey]);
+
+  const run = async (key: string, action: () => Promise<unknown>, failure: string) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRename = () => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === album.name) return;
+    run('name', () => saveAlbum(album.id, { name: trimmed }), 'Nie udało się zmienić nazwy');
+  };
+
+  const updateDetail = (field: keyof DetailsForm, value: string) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Empty fields are sent as empty values so the server removes them
+  const handleSaveDetails = () => {
+    const sortOrder = details.sortOrder.trim();
+    if (sortOrder !== '' && !Number.isInteger(Number(sortOrder))) {
+      setError('Pozycja albumu musi być liczbą całkowitą');
+      return;
+    }
+    run('details', () => saveAlbum(album.id, {
+      eventDate: details.eventDate,
+      location: details.location.trim(),
+      clientName: details.clientName.trim(),
+      description: details.description.trim(),
+      tags: parseTags(details.tags),
+      sortOrder: sortOrder === '' ? null : Number(sortOrder),
+    }), 'Nie udało się zapisać szczegółów');
+  };
+
+  const handleAudioChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // the same file can be picked again after a failure
+    if (!file) return;
+    setAudioProgress(0);
+    run('audio', () => setAlbumAudio(album.id, file, setAudioProgress), 'Nie udało się wysłać muzyki');
+  };
+
+  const handleRemoveAudio = () => {
+    if (!confirm('Usunąć muzykę do pokazu slajdów?')) return;
+    run('audio', () => setAlbumAudio(album.id, null), 'Nie udało się usunąć muzyki');
+  };
+
+  const handleSetCover = (photo: Photo) => {
+    run(`cover:${photo.id}`, () => saveAlbum(album.id, { coverPhotoId: photo.id }), 'Nie udało się ustawić okładki');
+  };
+
+  const handleDeletePhoto = (photo: Photo) => {
+    if (!confirm(`Usunąć zdjęcie "${photo.title || photo.id}"? Usunięta zostanie też wersja Max.`)) return;
+    run(`delete:${photo.id}`, async () => {
+      await removePhoto(album.id, photo.id);
+      setPhotos(prev => prev.filter(item => item.id !== photo.id));
+    }, 'Nie udało się usunąć zdjęcia');
+  };
+
+  const handleSaveOrder = async () => {
+    const saved = await run(
+      'order',
+      () => saveAlbum(album.id, { photoOrder: photos.map(photo => photo.id) }),
+      'Nie udało się zapisać kolejności'
+    );
+    if (saved) setIsOrderDirty(false);
+  };
+
+  const handleResetOrder = () => {
+    setPhotos(album.photos);
+    setIsOrderDirty(false);
+  };
+
+  // Native drag and drop: the list reorders live while hovering over other photos
+  const handleDragEnter = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+    setPhotos(prev => {
+      const from = prev.findIndex(photo => photo.id === draggedId);
+      const to = prev.findIndex(photo => photo.id === targetId);
+      if (from === -1 || to === -1) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+    setIsOrderDirty(true);
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(20px)',
+      }}
+    >
+      <motion.div
+        className="w-full max-w-5xl max-h-[90vh] flex flex-col glass-elevated p-6 md:p-8"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex-1 flex items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-xl font-bold focus:outline-none focus:ring-2 focus:ring-white/30"
+              aria-label="Nazwa albumu"
+            />
+            <button
+              onClick={handleRename}
+              disabled={busy !== null || !name.trim() || name.trim() === album.name}
+              className="p-2.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-40"
+              title="Zapisz nazwę"
+            >
+              {busy === 'name' ? <Loader2 className="w-5 h-5 text-white animate-spin" /> : <Check className="w-5 h-5 text-white" />}
+            </button>
+          </div>
+          <motion.button
+            onClick={onClose}
+            className="p-2 glass rounded-full"
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <X className="w-5 h-5 text-white" />
+          </motion.button>
+        </div>
+
+        {/* Event details */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+          <label className="text-white/50 text-xs">
+            Data wydarzenia
+            <input
+              type="date"
+              value={details.eventDate}
+              onChange={(e) => updateDetail('eventDate', e.target.value)}
+              className={`${inputClass} mt-1 [color-scheme:dark]`}
+            />
+          </label>
+          <label className="text-white/50 text-xs">
+            Miejsce
+            <input
+              type="text"
+              value={details.location}
+              onChange={(e) => updateDetail('location', e.target.value)}
+              placeholder="np. Dwór w Tomaszowicach"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="text-white/50 text-xs">
+            Klient
+            <input
+              type="text"
+              value={details.clientName}
+              onChange={(e) => updateDetail('clientName', e.target.value)}
+              placeholder="np. Anna i Piotr"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="text-white/50 text-xs">
+            Pozycja na liście
+            <input
+              type="number"
+              step={1}
+              value={details.sortOrder}
+              onChange={(e) => updateDetail('sortOrder', e.target.value)}
+              placeholder="automatycznie"
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+        <div className="flex flex-col md:flex-row gap-2 mb-2">
+          <textarea
+            value={details.description}
+            onChange={(e) => updateDetail('description', e.target.value)}
+            placeholder="Krótki opis albumu"
+            rows={2}
+            className={`${inputClass} flex-1 resize-none`}
+            aria-label="Opis"
+          />
+          <div className="flex-1 flex gap-2 items-start">
+            <input
+              type="text"
+              value={details.tags}
+              onChange={(e) => updateDetail('tags', e.target.value)}
+              placeholder="Tagi, po przecinku: wesele, plener"
+              className={inputClass}
+              aria-label="Tagi"
+            />
+            <button
+              onClick={handleSaveDetails}
+              disabled={busy !== null || !isDetailsDirty}
+              className="p-2.5 bg-white/10 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-40"
+              title="Zapisz szczegóły"
+            >
+              {busy === 'details' ? <Loader2 className="w-5 h-5 text-white animate-spin" /> : <Save className="w-5 h-5 text-white" />}
+            </button>
+          </div>
+        </div>
+
+        {/* Slideshow music */}
+        <div className="flex flex-wrap items-center gap-3 mb-6 text-sm">
+          <Music className="w-4 h-4 text-white/50 shrink-0" />
+          {album.audioTrack ? (
+            <>
+              <span className="text-white/70 truncate max-w-[200px]" title={album.audioTrack.name}>
+                {album.audioTrack.name}
+              </span>
+              <audio src={album.audioTrack.src} controls preload="none" className="h-8 max-w-[260px]" />
+            </>
+          ) : (
+            <span className="text-white/40">Bez muzyki w pokazie slajdów</span>
+          )}
+          <div className="ml-auto flex gap-2">
+            <label
+              className={`px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors ${
+                busy !== null ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+              }`}
+            >
+              {busy === 'audio' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {busy === 'audio'
+                ? `${Math.round(audioProgress)}%`
+                : album.audioTrack ? 'Zmień muzykę' : 'Dodaj muzykę'}
+              <input type="file" accept="audio/*" className="hidden" onChange={handleAudioChange} disabled={busy !== null} />
+            </label>
+            {album.audioTrack && (
+              <button
+                onClick={handleRemoveAudio}
+                disabled={busy !== null}
+                className="p-2 bg-white/5 hover:bg-red-500/50 rounded-lg transition-colors disabled:opacity-50"
+                title="Usuń muzykę"
+              >
+                <Trash2 className="w-4 h-4 text-white" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Order toolbar */}
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <p className="text-white/60 text-sm">
+            {isComplete
+              ? `${photos.length} zdjęć • przeciągnij, aby zmienić kolejność w galerii`
+              : `Wczytuję zdjęcia: ${photos.length} z ${getPhotoCount(album)}…`}
+          </p>
+          {isOrderDirty && (
+            <div className="flex gap-2">
+              <button
+                onClick={handleResetOrder}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-white/70 text-sm transition-colors disabled:opacity-50"
+              >
+                Cofnij
+              </button>
+              <button
+                onClick={handleSaveOrder}
+                disabled={busy !== null}
+                className="px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+              >
+                {busy === 'order' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Zapisz kolejność
+              </button>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+        {/* Photos */}
+        <div className="flex-1 overflow-y-auto grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-2">
+          {photos.map(photo => {
+            const cover = isCover(album, photo);
+            return (
+              <div
+                key={photo.id}
+                draggable={busy === null && isComplete}
+                onDragStart={() => setDraggedId(photo.id)}
+                onDragEnter={() => handleDragEnter(photo.id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDragEnd={() => setDraggedId(null)}
+                className={`relative group aspect-square rounded-lg overflow-hidden bg-white/5 cursor-grab active:cursor-grabbing ${
+                  draggedId === photo.id ? 'opacity-40' : ''
+                } ${cover ? 'ring-2 ring-amber-300' : ''}`}
+              >
+                <img
+                  src={photo.thumbnail || photo.src}
+                  alt={photo.title || ''}
+                  className="w-full h-full object-cover pointer-events-none"
+                  loading="lazy"
+                />
+                <GripVertical className="absolute top-1 left-1 w-4 h-4 text-white/70 opacity-0 group-hover:opacity-100 transition-opacity" />
+
+                <div className="absolute bottom-0 left-0 right-0 p-1 flex justify-between bg-gradient-to-t from-black/80 to-transparent">
+                  <button
+                    onClick={() => handleSetCover(photo)}
+                    disabled={busy !== null || cover}
+                    className="p-1 rounded-md hover:bg-white/20 transition-colors"
+                    title={cover ? 'Okładka albumu' : 'Ustaw jako okładkę'}
+                  >
+                    {busy === `cover:${photo.id}` ? (
+                      <Loader2 className="w-4 h-4 text-white animate-spin" />
+                    ) : (
+                      <Star className={`w-4 h-4 ${cover ? 'text-amber-300 fill-amber-300' : 'text-white/70'}`} />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => handleDeletePhoto(photo)}
+                    disabled={busy !== null}
+                    className="p-1 rounded-md hover:bg-red-500/40 transition-colors"
+                    title="Usuń zdjęcie"
+                  >
+                    {busy === `delete:${photo.id}` ? (
+                      <Loader2 className="w-4 h-4 text-white animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4 text-red-300" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default AlbumEditor;
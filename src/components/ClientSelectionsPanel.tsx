@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Heart, Flag, Copy, Check, FileDown, Loader2, RefreshCw } from 'lucide-react';
+import { getClientSelections } from '@/api/albums';
+import { FAVORITES_LIST_NAME, downloadSelectionsCsv, formatFileNames } from '@/utils/selectionExport';
+import type { ClientSelections, SelectedPhoto } from '@/types';
+
+interface ClientSelectionsPanelProps {
+  onClose: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const countPhotos = (client: ClientSelections): number =>
+  client.favorites.length + client.lists.reduce((sum, list) => sum + list.photos.length, 0);
+
+const ClientSelectionsPanel: React.FC<ClientSelectionsPanelProps> = ({ onClose }) => {
+  const [clients, setClients] = useState<ClientSelections[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+
+  const fetchClients = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getClientSelections();
+      // Clients who picked nothing (or whose photos are gone) have nothing to show
+      setClients(
+        data
+          .filter(client => countPhotos(client) > 0)
+          .sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''))
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się pobrać wyborów');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchClients(); }, [fetchClients]);
+
+  const handleCopy = async (key: string, photos: SelectedPhoto[]) => {
+    await navigator.clipboard.writeText(formatFileNames(photos));
+    setCopiedKey(key);
+    setTimeout(() => setCopiedKey(null), 2000);
+  };
+
+  const renderList = (client: ClientSelections, key: string, name: string, photos: SelectedPhoto[], isFavorites: boolean) => (
+    <div key={key} className="glass-subtle px-3 py-2">
+      <div className="flex items-center gap-2">
+        {isFavorites ? <Heart className="w-4 h-4 text-red-400" /> : <Flag className="w-4 h-4 text-amber-400" />}
+        <span className="flex-1 text-white text-sm truncate">{name}</span>
+        <span className="text-white/40 text-xs">{photos.length}</span>
+        {photos.length > 0 && (
+          <button
+            onClick={() => handleCopy(`${client.viewerId}/${key}`, photos)}
+            className="p-1.5 hover:bg-white/10 rounded-full transition-colors"
+            title="Kopiuj nazwy plików"
+          >
+            {copiedKey === `${client.viewerId}/${key}` ? (
+              <Check className="w-3.5 h-3.5 text-green-400" />
+            ) : (
+              <Copy className="w-3.5 h-3.5 text-white/70" />
+            )}
+          </button>
+        )}
+      </div>
+      {photos.length > 0 && (
+        <p className="mt-1 text-white/50 text-xs break-words max-h-20 overflow-y-auto">
+          {photos.map(photo => photo.fileName).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(20px)',
+      }}
+    >
+      <motion.div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto glass-elevated p-6 md:p-8"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Wybory klientów</h2>
+            <p className="text-white/60 text-sm mt-1">
+              Ulubione i listy wyboru, z nazwami plików do odszukania w oryginałach
+            </p>
+          </div>
+          <motion.button
+            onClick={onClose}
+            className="p-2 glass rounded-full"
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <X className="w-5 h-5 text-white" />
+          </motion.button>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <button
+            onClick={fetchClients}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Odśwież
+          </button>
+          <button
+            onClick={() => downloadSelectionsCsv(clients, 'Lena wybory klientów.csv')}
+            disabled={clients.length === 0}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <FileDown className="w-4 h-4" />
+            Pobierz CSV (wszyscy)
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {isLoading && clients.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-white/50 animate-spin" />
+          </div>
+        ) : clients.length === 0 ? (
+          <p className="text-white/40 text-sm">Żaden klient nie wybrał jeszcze zdjęć</p>
+        ) : (
+          <div className="space-y-6">
+            {clients.map(client => (
+              <section key={client.viewerId}>
+                <div className="flex items-center gap-3 mb-2">
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-white font-medium truncate">{client.viewerName}</h3>
+                    <p className="text-white/50 text-xs">
+                      {countPhotos(client)} wybranych
+                      {client.updatedAt && ` • ${formatDate(client.updatedAt)}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => downloadSelectionsCsv([client], `Lena wybory - ${client.viewerName}.csv`)}
+                    className="px-2 py-1 bg-white/10 hover:bg-white/20 rounded-md text-xs text-white/80 flex items-center gap-1 transition-colors"
+                    title="Pobierz CSV tego klienta"
+                  >
+                    <FileDown className="w-3 h-3" />
+                    CSV
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {renderList(client, 'favorites', FAVORITES_LIST_NAME, client.favorites, true)}
+                  {client.lists.map(list => renderList(client, list.id, list.name, list.photos, false))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ClientSelectionsPanel;
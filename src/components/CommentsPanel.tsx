@@ -0,0 +1,170 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Eye, EyeOff, Trash2, Loader2, RefreshCw } from 'lucide-react';
+import { getComments, setCommentHidden, deleteComment, getThumbnailUrl } from '@/api/albums';
+import type { ModeratedComment } from '@/types';
+
+interface CommentsPanelProps {
+  onClose: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Every comment left in the gallery, newest first. Hidden comments stay here and can be
+ * shown again; deleted ones are gone for good
+ */
+const CommentsPanel: React.FC<CommentsPanelProps> = ({ onClose }) => {
+  const [comments, setComments] = useState<ModeratedComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchComments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getComments();
+      setComments(data.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się pobrać komentarzy');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchComments(); }, [fetchComments]);
+
+  const handleToggleHidden = async (comment: ModeratedComment) => {
+    setBusyId(comment.id);
+    try {
+      const updated = await setCommentHidden(comment.id, !comment.hidden);
+      setComments(prev => prev.map(item => (item.id === updated.id ? updated : item)));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Nie udało się zmienić komentarza');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (comment: ModeratedComment) => {
+    if (!confirm(`Usunąć komentarz od "${comment.authorName}"?`)) return;
+    setBusyId(comment.id);
+    try {
+      await deleteComment(comment.id);
+      setComments(prev => prev.filter(item => item.id !== comment.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Nie udało się usunąć komentarza');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const hiddenCount = comments.filter(comment => comment.hidden).length;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(20px)',
+      }}
+    >
+      <motion.div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto glass-elevated p-6 md:p-8"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Komentarze</h2>
+            <p className="text-white/60 text-sm mt-1">
+              Ukryte komentarze znikają z galerii, ale można je przywrócić
+            </p>
+          </div>
+          <motion.button
+            onClick={onClose}
+            className="p-2 glass rounded-full"
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <X className="w-5 h-5 text-white" />
+          </motion.button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-6">
+          <button
+            onClick={fetchComments}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Odśwież
+          </button>
+          <span className="text-white/50 text-sm">
+            {comments.length} {comments.length === 1 ? 'komentarz' : comments.length < 5 && comments.length > 0 ? 'komentarze' : 'komentarzy'}
+            {hiddenCount > 0 && `, ukryte: ${hiddenCount}`}
+          </span>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {isLoading && comments.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-white/50 animate-spin" />
+          </div>
+        ) : comments.length === 0 ? (
+          <p className="text-white/40 text-sm">Nikt jeszcze nie skomentował zdjęć</p>
+        ) : (
+          <div className="space-y-2">
+            {comments.map(comment => (
+              <div
+                key={comment.id}
+                className={`glass-subtle px-3 py-2 flex items-start gap-3 ${comment.hidden ? 'opacity-50' : ''}`}
+              >
+                <img
+                  src={getThumbnailUrl(comment.thumbnail)}
+                  alt=""
+                  className="w-12 h-12 shrink-0 rounded-md object-cover"
+                  loading="lazy"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-white/50 text-xs truncate">
+                    <span className="text-white/90">{comment.authorName}</span>
+                    {' • '}{formatDate(comment.createdAt)}
+                    {' • '}{comment.albumName} / {comment.fileName}
+                    {comment.hidden && ' • ukryty'}
+                  </p>
+                  <p className="text-white text-sm whitespace-pre-wrap break-words">{comment.text}</p>
+                </div>
+                <button
+                  onClick={() => handleToggleHidden(comment)}
+                  disabled={busyId === comment.id}
+                  className="p-2 hover:bg-white/10 rounded-full transition-colors disabled:opacity-50"
+                  title={comment.hidden ? 'Pokaż w galerii' : 'Ukryj w galerii'}
+                >
+                  {comment.hidden ? <Eye className="w-4 h-4 text-white/70" /> : <EyeOff className="w-4 h-4 text-white/70" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(comment)}
+                  disabled={busyId === comment.id}
+                  className="p-2 hover:bg-red-500/30 rounded-full transition-colors disabled:opacity-50"
+                  title="Usuń komentarz"
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CommentsPanel;
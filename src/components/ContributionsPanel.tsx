@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, Trash2, FolderInput, Loader2, RefreshCw } from 'lucide-react';
+import { getContributions, rejectContribution, getContributionImage } from '@/api/albums';
+import { acceptContributions } from '@/store/albumStore';
+import type { Album, Contribution } from '@/types';
+
+interface ContributionsPanelProps {
+  albums: Album[];
+  onClose: () => void;
+}
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const photoCount = (count: number): string =>
+  `${count} ${count === 1 ? 'zdjęcie' : count < 5 ? 'zdjęcia' : 'zdjęć'}`;
+
+/**
+ * A pending photo's thumbnail, fetched with the owner's session as the file is not public
+ */
+const ContributionThumbnail: React.FC<{ contribution: Contribution }> = ({ contribution }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getContributionImage(contribution.thumbnail)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        // The tile stays empty; the photo can still be approved or rejected
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [contribution.thumbnail]);
+
+  if (!url) return <div className="w-full h-full" />;
+  return <img src={url} alt={contribution.originalFilename} className="w-full h-full object-cover" />;
+};
+
+/**
+ * Guest photos waiting for approval. Approved ones land in the guest album (made on the
+ * first approval) or in an album picked here; rejected ones are deleted
+ */
+const ContributionsPanel: React.FC<ContributionsPanelProps> = ({ albums, onClose }) => {
+  const [contributions, setContributions] = useState<Contribution[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [targetAlbumId, setTargetAlbumId] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const fetchContributions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getContributions();
+      setContributions(data.sort((a, b) => a.submittedAt.localeCompare(b.submittedAt)));
+      setSelectedIds(prev => new Set(data.filter(item => prev.has(item.id)).map(item => item.id)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się pobrać zdjęć od gości');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchContributions(); }, [fetchContributions]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = contributions.length > 0 && selectedIds.size === contributions.length;
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(contributions.map(item => item.id)));
+  };
+
+  // The full photo opens in a new tab from a blob, since its address needs the session token
+  const handleOpen = async (contribution: Contribution) => {
+    const tab = window.open('', '_blank');
+    try {
+      const blob = await getContributionImage(contribution.src);
+      const url = URL.createObjectURL(blob);
+      if (tab) tab.location.href = url;
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      tab?.close();
+      setError(err instanceof Error ? err.message : 'Nie udało się otworzyć zdjęcia');
+    }
+  };
+
+  const removeHandled = (ids: string[]) => {
+    setContributions(prev => prev.filter(item => !ids.includes(item.id)));
+    setSelectedIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+  };
+
+  const handleApprove = async (albumId?: string) => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      await acceptContributions(ids, albumId);
+      removeHandled(ids);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się zatwierdzić zdjęć');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // One request per photo; the ones that fail stay on the list
+  const handleReject = async () => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0 || !confirm(`Odrzucić ${photoCount(ids.length)}? Pliki zostaną usunięte.`)) return;
+    setIsWorking(true);
+    const rejected: string[] = [];
+    for (const id of ids) {
+      try {
+        await rejectContribution(id);
+        rejected.push(id);
+      } catch {
+        // Reported below
+      }
+    }
+    removeHandled(rejected);
+    setError(rejected.length < ids.length ? 'Części zdjęć nie udało się odrzucić' : null);
+    setIsWorking(false);
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(20px)',
+      }}
+    >
+      <motion.div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto glass-elevated p-6 md:p-8"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Zdjęcia od gości</h2>
+            <p className="text-white/60 text-sm mt-1">
+              Goście nie zobaczą ich w galerii, dopóki ich nie zatwierdzisz
+            </p>
+          </div>
+          <motion.button
+            onClick={onClose}
+            className="p-2 glass rounded-full"
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <X className="w-5 h-5 text-white" />
+          </motion.button>
+        </div>
+
+        {/* Actions on the selected photos */}
+        <div className="flex flex-wrap gap-2 mb-6">
+          <button
+            onClick={fetchContributions}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Odśwież
+          </button>
+          <button
+            onClick={toggleAll}
+            disabled={contributions.length === 0}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm transition-colors disabled:opacity-50"
+          >
+            {allSelected ? 'Odznacz wszystkie' : 'Zaznacz wszystkie'}
+          </button>
+          <button
+            onClick={() => handleApprove()}
+            disabled={isWorking || selectedIds.size === 0}
+            className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+            title="Dodaj do albumu gości"
+          >
+            {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4 text-green-400" />}
+            Zatwierdź ({selectedIds.size})
+          </button>
+          <div className="flex gap-2">
+            <select
+              value={targetAlbumId}
+              onChange={(e) => setTargetAlbumId(e.target.value)}
+              className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none max-w-[12rem]"
+            >
+              <option value="" className="bg-gray-900">Wybierz album…</option>
+              {albums.map(album => (
+                <option key={album.id} value={album.id} className="bg-gray-900">
+                  {album.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleApprove(targetAlbumId)}
+              disabled={isWorking || selectedIds.size === 0 || !targetAlbumId}
+              className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <FolderInput className="w-4 h-4" />
+              Przenieś
+            </button>
+          </div>
+          <button
+            onClick={handleReject}
+            disabled={isWorking || selectedIds.size === 0}
+            className="px-3 py-2 bg-red-500/20 hover:bg-red-500/30 rounded-lg text-red-300 text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            Odrzuć
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {isLoading && contributions.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-white/50 animate-spin" />
+          </div>
+        ) : contributions.length === 0 ? (
+          <p className="text-white/40 text-sm">Brak zdjęć czekających na zatwierdzenie</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {contributions.map(contribution => {
+              const isSelected = selectedIds.has(contribution.id);
+              return (
+                <div
+                  key={contribution.id}
+                  className={`glass-subtle overflow-hidden transition-shadow ${isSelected ? 'ring-2 ring-white' : ''}`}
+                >
+                  <button
+                    onClick={() => toggleSelected(contribution.id)}
+                    className="relative block w-full aspect-square bg-white/5"
+                  >
+                    <ContributionThumbnail contribution={contribution} />
+                    <span
+                      className={`absolute top-2 left-2 w-5 h-5 rounded-md border flex items-center justify-center transition-colors ${
+                        isSelected ? 'bg-white border-white' : 'bg-black/40 border-white/60'
+                      }`}
+                    >
+                      {isSelected && <Check className="w-3.5 h-3.5 text-black" />}
+                    </span>
+                  </button>
+                  <div className="px-2 py-1.5">
+                    <button
+                      onClick={() => handleOpen(contribution)}
+                      className="block w-full text-left text-white text-xs truncate hover:underline"
+                      title="Otwórz w pełnym rozmiarze"
+                    >
+                      {contribution.contributorName || 'Gość bez imienia'}
+                    </button>
+                    <p className="text-white/40 text-xs">{formatDate(contribution.submittedAt)}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ContributionsPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { canExitDemoMode, exitDemoMode } from '@/utils/demoMode';
+
+/**
+ * Always-visible marker that the photos on screen are samples, not a real gallery
+ */
+const DemoBanner: React.FC = () => (
+  <div
+    className="fixed bottom-4 md:bottom-auto md:top-3 left-1/2 -translate-x-1/2 z-[110] px-3 py-1.5 bg-amber-400/90 text-black text-xs md:text-sm rounded-full shadow-lg flex items-center gap-2"
+    role="status"
+  >
+    <FlaskConical className="w-4 h-4" />
+    <span>Tryb demo - przykładowe zdjęcia, nie prawdziwa galeria</span>
+    {canExitDemoMode && (
+      <button onClick={exitDemoMode} className="underline font-medium">
+        Wyłącz
+      </button>
+    )}
+  </div>
+);
+
+export default DemoBanner;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { WifiOff, ServerCrash, SearchX, FileWarning, Lock, RefreshCw } from 'lucide-react';
+import { checkHealth } from '@/api/albums';
+import { AuthError, NetworkError, NotFoundError, ServerError, ValidationError } from '@/api/errors';
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry: () => void;
+}
+
+const HEALTH_CHECK_DELAYS = [5, 10, 20, 30]; // seconds between checks, the last one repeats
+
+// Down or unreachable, as opposed to a server that answers with an error
+const isServerUnavailable = (error: unknown): boolean =>
+  error instanceof NetworkError ||
+  (error instanceof ServerError && [502, 503, 504].includes(error.status ?? 0));
+
+const describeError = (error: unknown): { icon: React.ElementType; title: string; hint: string } => {
+  if (isServerUnavailable(error)) {
+    return {
+      icon: WifiOff,
+      title: 'Serwer galerii jest niedostępny',
+      hint: 'Sprawdź połączenie z internetem. Galeria wczyta się sama, gdy serwer znów odpowie.',
+    };
+  }
+  if (error instanceof ServerError) {
+    return {
+      icon: ServerCrash,
+      title: 'Serwer galerii ma chwilowe problemy',
+      hint: 'Spróbuj ponownie za kilka minut.',
+    };
+  }
+  if (error instanceof ValidationError) {
+    return {
+      icon: FileWarning,
+      title: 'Serwer zwrócił nieoczekiwane dane',
+      hint: 'Spróbuj ponownie. Jeśli problem wraca, daj znać fotografowi.',
+    };
+  }
+  if (error instanceof NotFoundError) {
+    return { icon: SearchX, title: 'Nie znaleziono galerii', hint: error.message };
+  }
+  if (error instanceof AuthError) {
+    return { icon: Lock, title: 'Brak dostępu', hint: error.message };
+  }
+  return {
+    icon: FileWarning,
+    title: 'Nie udało się wczytać galerii',
+    hint: error instanceof Error ? error.message : 'Spróbuj ponownie.',
+  };
+};
+
+/**
+ * Full-screen replacement for content that failed to load. While the server is
+ * unavailable it polls the health endpoint and retries on its own once it answers
+ */
+const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry }) => {
+  const { icon: Icon, title, hint } = describeError(error);
+  const waitsForServer = isServerUnavailable(error);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!waitsForServer) return;
+    let cancelled = false;
+    let attempt = 0;
+    let timer: number | undefined;
+
+    const scheduleCheck = () => {
+      let remaining = HEALTH_CHECK_DELAYS[Math.min(attempt, HEALTH_CHECK_DELAYS.length - 1)];
+      setSecondsLeft(remaining);
+      timer = window.setInterval(async () => {
+        remaining -= 1;
+        if (remaining > 0) {
+          setSecondsLeft(remaining);
+          return;
+        }
+        window.clearInterval(timer);
+        setSecondsLeft(0);
+        const healthy = await checkHealth();
+        if (cancelled) return;
+        if (healthy) {
+          onRetry();
+        } else {
+          attempt += 1;
+          scheduleCheck();
+        }
+      }, 1000);
+    };
+
+    scheduleCheck();
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [waitsForServer, onRetry]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white/5 backdrop-blur-xl rounded-2xl p-8 w-full max-w-sm border border-white/10 text-center"
+        role="alert"
+      >
+        <div className="flex justify-center mb-6">
+          <div className="p-4 bg-white/10 rounded-full">
+            <Icon className="w-8 h-8 text-white" />
+          </div>
+        </div>
+        <h1 className="text-xl font-bold text-white mb-2">{title}</h1>
+        <p className="text-white/50 text-sm mb-6">{hint}</p>
+        {waitsForServer && secondsLeft !== null && (
+          <p className="text-white/40 text-xs -mt-3 mb-6">
+            {secondsLeft > 0 ? `Kolejna próba za ${secondsLeft} s` : 'Sprawdzam połączenie…'}
+          </p>
+        )}
+        <button
+          onClick={onRetry}
+          className="w-full py-3 bg-white text-black font-medium rounded-lg hover:bg-white/90 transition-colors flex items-center justify-center gap-2"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Spróbuj ponownie
+        </button>
+      </motion.div>
+    </div>
+  );
+};
+
+export default ErrorState;
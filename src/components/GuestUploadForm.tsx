@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Camera, Check, Loader2, AlertCircle, X, Send } from 'lucide-react';
+import { submitContribution } from '@/api/albums';
+
+interface GuestUploadFormProps {
+  onBack: () => void;
+}
+
+interface PickedPhoto {
+  key: string;
+  file: File;
+  preview: string;
+  progress: number; // 0-100
+  status: 'waiting' | 'sending' | 'done' | 'failed';
+  error?: string;
+}
+
+const CONTRIBUTOR_NAME_KEY = 'gallery_contributor';
+
+// Same formats the server accepts for gallery photos
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+/**
+ * Photos taken by guests, sent one by one for the owner's approval. Sent photos stay on the
+ * list with a tick, failed ones can be sent again with the next press
+ */
+const GuestUploadForm: React.FC<GuestUploadFormProps> = ({ onBack }) => {
+  const [contributorName, setContributorName] = useState(() => localStorage.getItem(CONTRIBUTOR_NAME_KEY) || '');
+  const [photos, setPhotos] = useState<PickedPhoto[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const previewsRef = useRef<string[]>([]);
+
+  useEffect(() => () => previewsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const updatePhoto = (key: string, changes: Partial<PickedPhoto>) => {
+    setPhotos(prev => prev.map(photo => (photo.key === key ? { ...photo, ...changes } : photo)));
+  };
+
+  const handleFilesPicked = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    const picked = files.map(file => {
+      const preview = URL.createObjectURL(file);
+      previewsRef.current.push(preview);
+      return {
+        key: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        file,
+        preview,
+        progress: 0,
+        status: 'waiting' as const,
+      };
+    });
+    setPhotos(prev => [...prev, ...picked]);
+  };
+
+  const handleRemove = (key: string) => {
+    setPhotos(prev => prev.filter(photo => photo.key !== key));
+  };
+
+  const handleSend = async () => {
+    const pending = photos.filter(photo => photo.status === 'waiting' || photo.status === 'failed');
+    if (pending.length === 0) return;
+    const name = contributorName.trim();
+    localStorage.setItem(CONTRIBUTOR_NAME_KEY, name);
+    setIsSending(true);
+    for (const photo of pending) {
+      updatePhoto(photo.key, { status: 'sending', progress: 0, error: undefined });
+      try {
+        await submitContribution(photo.file, name, progress => updatePhoto(photo.key, { progress }));
+        updatePhoto(photo.key, { status: 'done', progress: 100 });
+      } catch (err) {
+        updatePhoto(photo.key, {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Nie udało się wysłać zdjęcia',
+        });
+      }
+    }
+    setIsSending(false);
+  };
+
+  const waitingCount = photos.filter(photo => photo.status === 'waiting' || photo.status === 'failed').length;
+  const sentCount = photos.filter(photo => photo.status === 'done').length;
+
+  return (
+    <motion.div
+      className="w-full max-w-lg glass-elevated p-6"
+      initial={{ y: 20, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+    >
+      <h1 className="text-2xl font-bold text-white">Dodaj swoje zdjęcia</h1>
+      <p className="text-white/60 text-sm mt-1 mb-6">
+        Zdjęcia pojawią się w galerii, gdy fotograf je zaakceptuje
+      </p>
+
+      <input
+        type="text"
+        value={contributorName}
+        onChange={(e) => setContributorName(e.target.value)}
+        placeholder="Twoje imię (opcjonalnie)"
+        className="w-full px-3 py-2 mb-4 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30"
+      />
+
+      <label className="flex flex-col items-center justify-center gap-2 py-8 mb-4 border-2 border-dashed border-white/20 hover:border-white/40 rounded-xl cursor-pointer transition-colors">
+        <Camera className="w-8 h-8 text-white/60" />
+        <span className="text-white text-sm">Wybierz zdjęcia</span>
+        <input
+          type="file"
+          accept={ACCEPTED_TYPES}
+          multiple
+          className="hidden"
+          onChange={handleFilesPicked}
+          disabled={isSending}
+        />
+      </label>
+
+      {photos.length > 0 && (
+        <div className="grid grid-cols-4 gap-2 mb-4 max-h-64 overflow-y-auto">
+          {photos.map(photo => (
+            <div key={photo.key} className="relative aspect-square rounded-lg overflow-hidden bg-white/5">
+              <img src={photo.preview} alt="" className="w-full h-full object-cover" />
+              {photo.status === 'sending' && (
+                <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white text-xs font-medium">
+                  {Math.round(photo.progress)}%
+                </div>
+              )}
+              {photo.status === 'done' && (
+                <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
+                  <Check className="w-6 h-6 text-green-400" />
+                </div>
+              )}
+              {photo.status === 'failed' && (
+                <div className="absolute inset-0 bg-red-900/50 flex items-center justify-center" title={photo.error}>
+                  <AlertCircle className="w-6 h-6 text-red-300" />
+                </div>
+              )}
+              {(photo.status === 'waiting' || photo.status === 'failed') && !isSending && (
+                <button
+                  onClick={() => handleRemove(photo.key)}
+                  className="absolute top-1 right-1 p-0.5 bg-black/60 rounded-full"
+                  title="Usuń z listy"
+                >
+                  <X className="w-3 h-3 text-white" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sentCount > 0 && waitingCount === 0 && !isSending && (
+        <p className="text-green-400 text-sm mb-4">
+          Dziękujemy! Wysłano {sentCount} {sentCount === 1 ? 'zdjęcie' : sentCount < 5 ? 'zdjęcia' : 'zdjęć'}.
+        </p>
+      )}
+      {photos.some(photo => photo.status === 'failed') && !isSending && (
+        <p className="text-red-400 text-sm mb-4">
+          Części zdjęć nie udało się wysłać. Spróbuj ponownie.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onBack}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm transition-colors"
+        >
+          Wróć do galerii
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={isSending || waitingCount === 0}
+          className="flex-1 px-4 py-2 bg-white text-black rounded-lg text-sm font-medium flex items-center justify-center gap-2 hover:bg-white/90 transition-colors disabled:opacity-50"
+        >
+          {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          {isSending ? 'Wysyłanie...' : `Wyślij (${waitingCount})`}
+        </button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default GuestUploadForm;
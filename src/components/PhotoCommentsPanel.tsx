@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, Send, Loader2 } from 'lucide-react';
+import { getPhotoFeedback, addPhotoComment, togglePhotoReaction } from '@/api/albums';
+import type { PhotoFeedback } from '@/types';
+
+interface PhotoCommentsPanelProps {
+  albumId: string;
+  photoId: string;
+  // Desktop cinema mode docks it on the right, the mobile viewer slides it up from the bottom
+  variant: 'sidebar' | 'sheet';
+  onClose: () => void;
+}
+
+const AUTHOR_NAME_KEY = 'gallery_commenter';
+const MAX_COMMENT_LENGTH = 500; // as in the backend config
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const VARIANT_PROPS = {
+  sidebar: {
+    className: 'absolute top-20 right-4 bottom-12 z-30 w-72 flex flex-col bg-black/60 backdrop-blur-md rounded-xl p-4 text-sm',
+    initial: { opacity: 0, x: 24 },
+    exit: { opacity: 0, x: 24 },
+  },
+  sheet: {
+    className: 'absolute left-0 right-0 bottom-0 z-30 max-h-[65%] flex flex-col bg-black/80 backdrop-blur-md rounded-t-2xl p-4 text-sm',
+    initial: { opacity: 0, y: 40 },
+    exit: { opacity: 0, y: 40 },
+  },
+};
+
+/**
+ * Reactions and comments of the photo on screen, loaded again whenever the photo changes.
+ * Keys and touches stay inside, so typing does not flip photos and taps do not zoom them
+ */
+const PhotoCommentsPanel: React.FC<PhotoCommentsPanelProps> = ({ albumId, photoId, variant, onClose }) => {
+  const [feedback, setFeedback] = useState<PhotoFeedback | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [authorName, setAuthorName] = useState(() => localStorage.getItem(AUTHOR_NAME_KEY) || '');
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [pendingEmoji, setPendingEmoji] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFeedback(null);
+    setError(null);
+    getPhotoFeedback(albumId, photoId)
+      .then(loaded => {
+        if (!cancelled) setFeedback(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Nie udało się pobrać komentarzy');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [albumId, photoId]);
+
+  const handleReaction = async (emoji: string) => {
+    if (pendingEmoji) return;
+    setPendingEmoji(emoji);
+    try {
+      setFeedback(await togglePhotoReaction(albumId, photoId, emoji));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się zapisać reakcji');
+    } finally {
+      setPendingEmoji(null);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = authorName.trim();
+    const comment = text.trim();
+    if (!name || !comment || isSending) return;
+    localStorage.setItem(AUTHOR_NAME_KEY, name);
+    setIsSending(true);
+    try {
+      setFeedback(await addPhotoComment(albumId, photoId, { authorName: name, text: comment }));
+      setText('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się dodać komentarza');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const stopTouch = (e: React.TouchEvent) => e.stopPropagation();
+  const { className, initial, exit } = VARIANT_PROPS[variant];
+
+  return (
+    <motion.aside
+      className={className}
+      initial={initial}
+      animate={{ opacity: 1, x: 0, y: 0 }}
+      exit={exit}
+      transition={{ duration: 0.2 }}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+      onTouchStart={stopTouch}
+      onTouchMove={stopTouch}
+      onTouchEnd={stopTouch}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-medium">
+          Komentarze{feedback && feedback.comments.length > 0 ? ` (${feedback.comments.length})` : ''}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-white/10 rounded-full transition-colors"
+          title="Zamknij (C)"
+        >
+          <X className="w-4 h-4 text-white/70" />
+        </button>
+      </div>
+
+      {/* Reactions */}
+      {feedback && (
+        <div className="flex flex-wrap gap-1.5 mb-3">
+          {feedback.reactions.map(reaction => (
+            <button
+              key={reaction.emoji}
+              onClick={() => handleReaction(reaction.emoji)}
+              disabled={pendingEmoji !== null}
+              className={`px-2 py-1 rounded-full flex items-center gap-1 transition-colors ${
+                reaction.reacted ? 'bg-white/25 ring-1 ring-white/50' : 'bg-white/5 hover:bg-white/15'
+              }`}
+              title={reaction.reacted ? 'Cofnij reakcję' : 'Zareaguj'}
+            >
+              <span className="text-base leading-none">{reaction.emoji}</span>
+              {reaction.count > 0 && <span className="text-white/70 text-xs">{reaction.count}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Comments */}
+      <div className="flex-1 min-h-0 overflow-y-auto touch-pan-y space-y-3 mb-3">
+        {!feedback && !error ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 text-white/50 animate-spin" />
+          </div>
+        ) : feedback && feedback.comments.length === 0 ? (
+          <p className="text-white/40 text-xs">Nikt jeszcze nie skomentował tego zdjęcia</p>
+        ) : (
+          feedback?.comments.map(comment => (
+            <div key={comment.id}>
+              <p className="text-white/40 text-xs">
+                <span className="text-white/80">{comment.authorName}</span> • {formatDate(comment.createdAt)}
+              </p>
+              <p className="text-white/90 whitespace-pre-wrap break-words">{comment.text}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+      {/* New comment */}
+      <form className="space-y-2" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          value={authorName}
+          onChange={(e) => setAuthorName(e.target.value)}
+          placeholder="Twoje imię"
+          className="w-full px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30"
+        />
+        <div className="flex gap-2">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Napisz komentarz…"
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={2}
+            className="flex-1 px-3 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 resize-none focus:outline-none focus:ring-2 focus:ring-white/30"
+          />
+          <button
+            type="submit"
+            disabled={isSending || !authorName.trim() || !text.trim()}
+            className="self-end p-2 bg-white text-black rounded-lg hover:bg-white/90 transition-colors disabled:opacity-50"
+            title="Wyślij"
+          >
+            {isSending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </button>
+        </div>
+      </form>
+    </motion.aside>
+  );
+};
+
+export default PhotoCommentsPanel;
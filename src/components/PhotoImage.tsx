@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { motion, type HTMLMotionProps } from 'framer-motion';
+import { getPhotoSrcSet } from '@/utils/imageVariants';
+import type { Photo } from '@/types';
+
+type PhotoImageProps = Omit<HTMLMotionProps<'img'>, 'src' | 'srcSet' | 'sizes'> & {
+  photo: Photo;
+  sizes: string; // rendered width, as for the img sizes attribute
+  src?: string; // used when the photo has no copies (uploaded before they existed), defaults to photo.src
+  placeholderClassName?: string; // fit and padding of the preview, which fills the nearest positioned parent
+};
+
+const MODERN_FORMATS = ['avif', 'webp'] as const;
+
+/**
+ * Photo with its server-made copies: AVIF and WebP where the browser takes them, JPEG
+ * otherwise, each picked by the browser for the rendered size and pixel ratio. The picture
+ * wrapper has no box of its own, so classes and styles work as on a plain img.
+ *
+ * Until the file arrives the photo's blurred placeholder stands in, and the two cross-fade.
+ * Callers that handle loading themselves can override the fade with their own animate
+ */
+const PhotoImage = React.forwardRef<HTMLImageElement, PhotoImageProps>(({
+  photo,
+  sizes,
+  src,
+  placeholderClassName = 'object-cover',
+  className = '',
+  onLoad,
+  ...imgProps
+}, ref) => {
+  // Kept per photo, so a reused element does not show the next photo as already loaded
+  const [loadedPhotoId, setLoadedPhotoId] = useState<string | null>(null);
+  const loaded = loadedPhotoId === photo.id;
+
+  return (
+    <>
+      {photo.placeholder && (
+        <img
+          src={photo.placeholder}
+          alt=""
+          aria-hidden
+          className={`absolute inset-0 w-full h-full blur-lg pointer-events-none transition-opacity duration-500 ${placeholderClassName} ${
+            loaded ? 'opacity-0' : 'opacity-100'
+          }`}
+          draggable={false}
+        />
+      )}
+      <picture className="contents">
+        {MODERN_FORMATS.map(format => {
+          const srcSet = getPhotoSrcSet(photo, format);
+          return srcSet && <source key={format} type={`image/${format}`} srcSet={srcSet} sizes={sizes} />;
+        })}
+        <motion.img
+          initial={{ opacity: 0 }}
+          animate={{ opacity: loaded ? 1 : 0 }}
+          transition={{ duration: 0.3 }}
+          {...imgProps}
+          ref={ref}
+          // Positioned so it paints above the placeholder
+          className={`relative ${className}`}
+          src={src ?? photo.src}
+          srcSet={getPhotoSrcSet(photo, 'jpeg')}
+          sizes={sizes}
+          onLoad={event => {
+            setLoadedPhotoId(photo.id);
+            onLoad?.(event);
+          }}
+        />
+      </picture>
+    </>
+  );
+});
+
+PhotoImage.displayName = 'PhotoImage';
+
+export default PhotoImage;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { formatFileSize } from '@/utils/downloader';
+import { formatExposure, formatTakenAt } from '@/utils/photoMetadata';
+import type { Photo } from '@/types';
+
+interface PhotoInfoPanelProps {
+  photo: Photo;
+  albumName?: string;
+  onClose: () => void;
+}
+
+const PhotoInfoPanel: React.FC<PhotoInfoPanelProps> = ({ photo, albumName, onClose }) => {
+  const exposure = photo.exposure ? formatExposure(photo.exposure) : '';
+  const rows: { label: string; value: string }[] = [
+    { label: 'Plik', value: photo.originalFilename || photo.title || '' },
+    { label: 'Album', value: albumName || '' },
+    { label: 'Data wykonania', value: photo.takenAt ? formatTakenAt(photo.takenAt) : '' },
+    { label: 'Aparat', value: photo.camera || '' },
+    { label: 'Obiektyw', value: photo.lens || '' },
+    { label: 'Ekspozycja', value: exposure },
+    { label: 'Wymiary', value: photo.width && photo.height ? `${photo.width} × ${photo.height} px` : '' },
+    { label: 'Rozmiar Light', value: photo.fileSize ? formatFileSize(photo.fileSize.light) : '' },
+    { label: 'Rozmiar Max', value: photo.fileSize?.max ? formatFileSize(photo.fileSize.max) : '' },
+  ].filter(row => row.value !== '');
+  const hasCaptureData = Boolean(photo.takenAt || photo.camera || exposure);
+
+  return (
+    <motion.aside
+      className="absolute top-20 right-4 bottom-12 z-30 w-72 overflow-y-auto bg-black/60 backdrop-blur-md rounded-xl p-4 text-sm"
+      initial={{ opacity: 0, x: 24 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 24 }}
+      transition={{ duration: 0.2 }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white font-medium">Informacje</h3>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-white/10 rounded-full transition-colors"
+          title="Zamknij (I)"
+        >
+          <X className="w-4 h-4 text-white/70" />
+        </button>
+      </div>
+
+      <dl className="space-y-2.5">
+        {rows.map(row => (
+          <div key={row.label}>
+            <dt className="text-white/40 text-xs">{row.label}</dt>
+            <dd className="text-white/90 break-words">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {!hasCaptureData && (
+        <p className="text-white/40 text-xs mt-4">
+          Brak danych EXIF - zdjęcie dodano bez nich lub przed ich odczytywaniem
+        </p>
+      )}
+    </motion.aside>
+  );
+};
+
+export default PhotoInfoPanel;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, Plus, Trash2, Flag } from 'lucide-react';
+import { MAX_PROOFING_LISTS, isSamePhoto } from '@/utils/viewerSelections';
+import type { PhotoRef, ProofingList } from '@/types';
+
+interface ProofingListPickerProps {
+  photo: PhotoRef;
+  preview?: string;
+  lists: ProofingList[];
+  onToggle: (listId: string) => void;
+  onCreate: (name: string) => void;
+  onRemove: (listId: string) => void;
+  onClose: () => void;
+}
+
+const NAME_SUGGESTIONS = ['Do druku', 'Do fotoksiążki', 'Do retuszu'];
+
+/**
+ * Proofing lists of the viewer with the given photo ticked where it belongs; a new list
+ * starts with the photo already on it
+ */
+const ProofingListPicker: React.FC<ProofingListPickerProps> = ({
+  photo,
+  preview,
+  lists,
+  onToggle,
+  onCreate,
+  onRemove,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const canCreate = lists.length < MAX_PROOFING_LISTS;
+  const suggestions = NAME_SUGGESTIONS.filter(suggestion => !lists.some(list => list.name === suggestion));
+
+  const handleCreate = (listName: string) => {
+    const trimmed = listName.trim();
+    if (!trimmed || !canCreate) return;
+    onCreate(trimmed);
+    setName('');
+  };
+
+  const handleRemove = (list: ProofingList) => {
+    if (!confirm(`Usunąć listę "${list.name}"?`)) return;
+    onRemove(list.id);
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[120] flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={onClose}
+      // Typing a list name must not reach the gallery's arrow and Space shortcuts underneath
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <motion.div
+        className="w-full max-w-sm max-h-[85vh] overflow-y-auto glass-elevated p-5"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-4">
+          {preview && (
+            <img src={preview} alt="" className="w-12 h-12 rounded-lg object-cover border border-white/20" />
+          )}
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg font-bold text-white">Listy wyboru</h2>
+            <p className="text-white/50 text-xs">Fotograf zobaczy, które zdjęcia są na Twoich listach</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full transition-colors" title="Zamknij">
+            <X className="w-5 h-5 text-white" />
+          </button>
+        </div>
+
+        {/* Existing lists */}
+        {lists.length === 0 ? (
+          <p className="text-white/40 text-sm mb-4">Nie masz jeszcze list</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {lists.map(list => {
+              const isOnList = list.photos.some(item => isSamePhoto(item, photo));
+              return (
+                <div key={list.id} className="glass-subtle px-3 py-2 flex items-center gap-3">
+                  <button
+                    onClick={() => onToggle(list.id)}
+                    className="flex-1 min-w-0 flex items-center gap-3 text-left"
+                  >
+                    <span
+                      className={`w-5 h-5 shrink-0 rounded-md border flex items-center justify-center transition-colors ${
+                        isOnList ? 'bg-white border-white' : 'border-white/40'
+                      }`}
+                    >
+                      {isOnList && <Check className="w-3.5 h-3.5 text-black" />}
+                    </span>
+                    <span className="flex-1 text-white text-sm truncate">{list.name}</span>
+                    <span className="text-white/40 text-xs">{list.photos.length}</span>
+                  </button>
+                  <button
+                    onClick={() => handleRemove(list)}
+                    className="p-1.5 hover:bg-red-500/30 rounded-full transition-colors"
+                    title="Usuń listę"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-red-400" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* New list */}
+        {canCreate ? (
+          <>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate(name);
+              }}
+            >
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Nowa lista, np. Do druku"
+                className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30"
+              />
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center gap-1 transition-colors disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Dodaj
+              </button>
+            </form>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => handleCreate(suggestion)}
+                    className="px-2.5 py-1 bg-white/5 hover:bg-white/15 rounded-full text-white/70 text-xs flex items-center gap-1 transition-colors"
+                  >
+                    <Flag className="w-3 h-3" />
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-white/40 text-xs">Można mieć najwyżej {MAX_PROOFING_LISTS} list</p>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ProofingListPicker;
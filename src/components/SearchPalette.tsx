@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Search, Image, Loader2 } from 'lucide-react';
+import { searchPhotos, getThumbnailUrl } from '@/api/albums';
+import { buildSearchIndex, searchGallery, toPhotoSearchHits } from '@/utils/gallerySearch';
+import { isDemoMode } from '@/utils/demoMode';
+import type { SearchResult } from '@/utils/gallerySearch';
+import type { Album, PhotoSearchHit } from '@/types';
+
+interface SearchPaletteProps {
+  albums: Album[];
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const PHOTO_SEARCH_DELAY = 250; // ms of no typing before the server is asked
+
+/**
+ * Search over albums and photo file names, driven by the keyboard: arrows pick a result,
+ * Enter opens it, Escape closes. Albums are matched here from their summaries; photos
+ * come from the server once typing pauses, so no album has to be loaded in full
+ */
+const SearchPalette: React.FC<SearchPaletteProps> = ({ albums, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [photoHits, setPhotoHits] = useState<PhotoSearchHit[]>([]);
+  const [isSearchingPhotos, setIsSearchingPhotos] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const searchIndex = useMemo(
+    () => buildSearchIndex(albums, isDemoMode ? toPhotoSearchHits(albums) : photoHits),
+    [albums, photoHits]
+  );
+  const results = useMemo(() => searchGallery(searchIndex, query), [searchIndex, query]);
+
+  // Answers to an older query are dropped when they arrive late
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (isDemoMode || !trimmed) {
+      setPhotoHits([]);
+      setIsSearchingPhotos(false);
+      return;
+    }
+    let cancelled = false;
+    setIsSearchingPhotos(true);
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await searchPhotos(trimmed);
+        if (!cancelled) setPhotoHits(hits.map(hit => ({ ...hit, thumbnail: getThumbnailUrl(hit.thumbnail) })));
+      } catch {
+        // Album results still work; the photos simply stay out
+        if (!cancelled) setPhotoHits([]);
+      } finally {
+        if (!cancelled) setIsSearchingPhotos(false);
+      }
+    }, PHOTO_SEARCH_DELAY);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    const item = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // Keys stay inside, so the gallery's own arrow shortcuts do not move the slider underneath
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      const result = results[activeIndex];
+      if (result) onSelect(result);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[110] flex items-start justify-center p-4 pt-[12vh]"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.7)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={onClose}
+      onKeyDown={handleKeyDown}
+    >
+      <motion.div
+        className="w-full max-w-xl glass-elevated overflow-hidden"
+        initial={{ y: -12, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: -12, opacity: 0 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-white/10">
+          <Search className="w-5 h-5 text-white/50" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Szukaj albumów, tagów, dat i plików…"
+            className="flex-1 bg-transparent text-white placeholder-white/40 focus:outline-none"
+            autoFocus
+          />
+          {isSearchingPhotos && (
+            <Loader2 className="w-4 h-4 text-white/40 animate-spin" aria-label="Szukanie zdjęć" />
+          )}
+        </div>
+
+        {results.length === 0 ? (
+          <p className="px-4 py-6 text-white/40 text-sm text-center">Nic nie znaleziono</p>
+        ) : (
+          <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2" role="listbox">
+            {results.map((result, index) => (
+              <button
+                key={result.key}
+                onClick={() => onSelect(result)}
+                onMouseMove={() => setActiveIndex(index)}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`w-full px-4 py-2 flex items-center gap-3 text-left transition-colors ${
+                  index === activeIndex ? 'bg-white/15' : ''
+                }`}
+              >
+                <div className="w-10 h-10 shrink-0 rounded-md overflow-hidden bg-white/5">
+                  {result.thumbnail ? (
+                    <img src={result.thumbnail} alt="" className="w-full h-full object-cover" loading="lazy" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Image className="w-4 h-4 text-white/30" />
+                    </div>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white text-sm truncate">{result.title}</p>
+                  <p className="text-white/50 text-xs truncate">{result.subtitle}</p>
+                </div>
+                <span className="text-white/30 text-[11px] uppercase tracking-wide">
+                  {result.photoId ? 'Zdjęcie' : 'Album'}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default SearchPalette;
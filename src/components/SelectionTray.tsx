@@ -0,0 +1,68 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Download, X, Loader2 } from 'lucide-react';
+
+interface SelectionTrayProps {
+  count: number;
+  previews: string[];
+  isDownloading: boolean;
+  onDownload: () => void;
+  onClear: () => void;
+  className?: string;
+}
+
+const SelectionTray: React.FC<SelectionTrayProps> = ({
+  count,
+  previews,
+  isDownloading,
+  onDownload,
+  onClear,
+  className = '',
+}) => {
+  return (
+    <motion.div
+      className={`fixed z-[110] flex items-center gap-3 px-3 py-2 bg-black/70 backdrop-blur-xl border border-white/10 rounded-2xl shadow-2xl ${className}`}
+      style={{ x: '-50%' }}
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 40, opacity: 0 }}
+      transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+    >
+      {/* Stacked previews of the latest picks */}
+      <div className="flex -space-x-2">
+        {previews.slice(0, 4).map((preview, i) => (
+          <div
+            key={preview}
+            className="w-8 h-8 rounded-md border border-white/30 overflow-hidden"
+            style={{ zIndex: 4 - i }}
+          >
+            <img src={preview} alt="" className="w-full h-full object-cover" />
+          </div>
+        ))}
+      </div>
+
+      <span className="text-white text-sm whitespace-nowrap">
+        Zaznaczono: {count}
+      </span>
+
+      <button
+        onClick={onDownload}
+        disabled={isDownloading}
+        className="px-3 py-1.5 bg-white text-black rounded-lg text-sm font-medium flex items-center gap-2 hover:bg-white/90 transition-colors disabled:opacity-60"
+      >
+        {isDownloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        <span className="hidden sm:inline">Pobierz zaznaczone</span>
+      </button>
+
+      <button
+        onClick={onClear}
+        className="p-1.5 hover:bg-white/10 rounded-full transition-colors"
+        title="Wyczyść zaznaczenie"
+      >
+        <X className="w-4 h-4 text-white/70" />
+      </button>
+    </motion.div>
+  );
+};
+
+export default SelectionTray;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { X, Link2, Copy, Check, Ban, Loader2, KeyRound, QrCode } from 'lucide-react';
+import {
+  getShareLinks,
+  createShareLink,
+  revokeShareLink,
+  getShareLinkUrl,
+  getContributionUrl,
+} from '@/api/albums';
+import { saveAlbum } from '@/store/albumStore';
+import type { Album, ShareLink } from '@/types';
+
+interface ShareLinksPanelProps {
+  albums: Album[];
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Bez wygaśnięcia', days: 0 },
+  { label: '1 dzień', days: 1 },
+  { label: '7 dni', days: 7 },
+  { label: '30 dni', days: 30 },
+  { label: '90 dni', days: 90 },
+];
+
+const getLinkStatus = (link: ShareLink): 'active' | 'expired' | 'revoked' => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+const formatDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString('pl-PL', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ albums, onClose }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAlbumIds, setSelectedAlbumIds] = useState<Set<string>>(new Set());
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const albumNames = new Map(albums.map(album => [album.id, album.name]));
+
+  const fetchLinks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getShareLinks();
+      setLinks(data.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się pobrać linków');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchLinks(); }, [fetchLinks]);
+
+  const toggleAlbum = (albumId: string) => {
+    setSelectedAlbumIds(prev => {
+      const next = new Set(prev);
+      if (next.has(albumId)) next.delete(albumId);
+      else next.add(albumId);
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    if (selectedAlbumIds.size === 0) return;
+    setIsCreating(true);
+    try {
+      const expiresAt = expiryDays > 0
+        ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+      const link = await createShareLink(Array.from(selectedAlbumIds), label.trim(), expiresAt);
+      setLinks(prev => [link, ...prev]);
+      setSelectedAlbumIds(new Set());
+      setLabel('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Nie udało się utworzyć linku');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Odwołać ten link? Goście stracą dostęp natychmiast.')) return;
+    try {
+      const revoked = await revokeShareLink(link.id);
+      setLinks(prev => prev.map(item => (item.id === revoked.id ? revoked : item)));
+    } catch {
+      alert('Nie udało się odwołać linku');
+    }
+  };
+
+  const handleCopy = async (copyKey: string, url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopiedId(copyKey);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const handleAccessCode = async (album: Album) => {
+    const code = prompt(
+      `Kod dostępu do albumu "${album.name}" (puste pole usuwa kod):`,
+      album.accessCode || ''
+    );
+    if (code === null) return;
+    try {
+      await saveAlbum(album.id, { accessCode: code.trim() });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Nie udało się zapisać kodu');
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      style={{
+        background: 'rgba(0, 0, 0, 0.8)',
+        backdropFilter: 'blur(20px)',
+      }}
+    >
+      <motion.div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto glass-elevated p-6 md:p-8"
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Dostęp dla gości</h2>
+            <p className="text-white/60 text-sm mt-1">
+              Kody dostępu do albumów i linki, które można odwołać w każdej chwili
+            </p>
+          </div>
+          <motion.button
+            onClick={onClose}
+            className="p-2 glass rounded-full"
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+          >
+            <X className="w-5 h-5 text-white" />
+          </motion.button>
+        </div>
+
+        {/* Albums - pick for a new link, set access codes */}
+        <h3 className="text-white font-medium mb-3">Albumy</h3>
+        <div className="space-y-2 max-h-56 overflow-y-auto mb-4">
+          {albums.map(album => (
+            <div key={album.id} className="glass-subtle px-3 py-2 flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={selectedAlbumIds.has(album.id)}
+                onChange={() => toggleAlbum(album.id)}
+                className="w-4 h-4 accent-white"
+              />
+              <span className="flex-1 text-white text-sm truncate">{album.name}</span>
+              <button
+                onClick={() => handleAccessCode(album)}
+                className="px-2 py-1 bg-white/10 hover:bg-white/20 rounded-md text-xs text-white/80 flex items-center gap-1 transition-colors"
+                title="Ustaw kod dostępu"
+              >
+                <KeyRound className="w-3 h-3" />
+                {album.accessCode ? album.accessCode : 'Brak kodu'}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* New link form */}
+        <div className="flex flex-col sm:flex-row gap-2 mb-6">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Opis linku (np. Wesele Ani - goście)"
+            className="flex-1 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/30"
+          />
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.days} value={option.days} className="bg-gray-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating || selectedAlbumIds.size === 0}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Utwórz link ({selectedAlbumIds.size})
+          </button>
+        </div>
+
+        {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+        {/* Existing links */}
+        <h3 className="text-white font-medium mb-3">Linki ({links.length})</h3>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-white/50 animate-spin" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-white/40 text-sm">Brak linków</p>
+        ) : (
+          <div className="space-y-2">
+            {links.map(link => {
+              const status = getLinkStatus(link);
+              return (
+                <div
+                  key={link.id}
+                  className={`glass-subtle px-3 py-2 flex items-center gap-3 ${status === 'active' ? '' : 'opacity-50'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm truncate">
+                      {link.label || link.albumIds.map(id => albumNames.get(id) || '?').join(', ')}
+                    </p>
+                    <p className="text-white/50 text-xs">
+                      {link.albumIds.length} {link.albumIds.length === 1 ? 'album' : 'albumy'}
+                      {' • '}
+                      {status === 'revoked'
+                        ? 'odwołany'
+                        : status === 'expired'
+                          ? 'wygasł'
+                          : link.expiresAt
+                            ? `ważny do ${formatDate(link.expiresAt)}`
+                            : 'bezterminowy'}
+                    </p>
+                  </div>
+                  {status === 'active' && (
+                    <>
+                      <button
+                        onClick={() => handleCopy(link.id, getShareLinkUrl(link))}
+                        className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                        title="Kopiuj link"
+                      >
+                        {copiedId === link.id ? (
+                          <Check className="w-4 h-4 text-green-400" />
+                        ) : (
+                          <Copy className="w-4 h-4 text-white/70" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleCopy(`${link.id}/upload`, getContributionUrl(link))}
+                        className="p-2 hover:bg-white/10 rounded-full transition-colors"
+                        title="Kopiuj link do dodawania zdjęć przez gości (np. do kodu QR)"
+                      >
+                        {copiedId === `${link.id}/upload` ? (
+                          <Check className="w-4 h-4 text-green-400" />
+                        ) : (
+                          <QrCode className="w-4 h-4 text-white/70" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(link)}
+                        className="p-2 hover:bg-red-500/30 rounded-full transition-colors"
+                        title="Odwołaj link"
+                      >
+                        <Ban className="w-4 h-4 text-red-400" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ShareLinksPanel;
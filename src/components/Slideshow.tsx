@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnimatePresence, motion, type Transition, type Variants } from 'framer-motion';
+import PhotoImage from '@/components/PhotoImage';
+import type { Photo, SlideshowSettings, SlideshowTransition } from '@/types';
+
+interface SlideshowProps {
+  photo: Photo;
+  position: number; // of the photo in the gallery, varies the Ken Burns movement
+  settings: SlideshowSettings;
+  sizes: string;
+  onAdvance: () => void;
+}
+
+const TRANSITION_SECONDS: Record<SlideshowTransition, number> = {
+  kenBurns: 1.5,
+  crossfade: 1.2,
+  slide: 0.8,
+};
+
+// Entering slide, shown slide and leaving slide for each transition
+const SLIDE_VARIANTS: Record<SlideshowTransition, Variants> = {
+  kenBurns: { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } },
+  crossfade: { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } },
+  slide: { initial: { x: '100%' }, animate: { x: 0 }, exit: { x: '-100%' } },
+};
+
+// Ken Burns zooms towards a different corner on consecutive photos
+const KEN_BURNS_ORIGINS = ['20% 30%', '80% 70%', '75% 25%', '25% 75%'];
+const KEN_BURNS_SCALE = 1.15;
+
+/**
+ * Full-screen slides of cinema mode. The photo stays up for the set interval counted from
+ * the moment it has loaded, so a slow connection never skips photos
+ */
+const Slideshow: React.FC<SlideshowProps> = ({ photo, position, settings, sizes, onAdvance }) => {
+  const [shownPhotoId, setShownPhotoId] = useState<string | null>(null);
+  const isShown = shownPhotoId === photo.id;
+  const onAdvanceRef = useRef(onAdvance);
+  onAdvanceRef.current = onAdvance;
+
+  useEffect(() => {
+    if (!isShown) return;
+    const timer = window.setTimeout(() => onAdvanceRef.current(), settings.interval * 1000);
+    return () => window.clearTimeout(timer);
+  }, [isShown, settings.interval]);
+
+  const transition: Transition = { duration: TRANSITION_SECONDS[settings.transition], ease: 'easeInOut' };
+  const isKenBurns = settings.transition === 'kenBurns';
+
+  return (
+    <div className="absolute inset-0 overflow-hidden">
+      <AnimatePresence initial={false}>
+        <motion.div
+          key={photo.id}
+          className="absolute inset-0"
+          variants={SLIDE_VARIANTS[settings.transition]}
+          initial="initial"
+          animate="animate"
+          exit="exit"
+          transition={transition}
+        >
+          <motion.div
+            className="absolute inset-0"
+            style={isKenBurns ? { transformOrigin: KEN_BURNS_ORIGINS[position % KEN_BURNS_ORIGINS.length] } : undefined}
+            initial={{ scale: 1 }}
+            animate={{ scale: isKenBurns ? KEN_BURNS_SCALE : 1 }}
+            // Keeps moving through the fade out, so the zoom never stops on screen
+            transition={{ duration: settings.interval + TRANSITION_SECONDS.kenBurns * 2, ease: 'linear' }}
+          >
+            <PhotoImage
+              photo={photo}
+              sizes={sizes}
+              placeholderClassName="object-contain"
+              alt={photo.title || ''}
+              className="w-full h-full object-contain"
+              draggable={false}
+              onLoad={() => setShownPhotoId(photo.id)}
+              onError={() => setShownPhotoId(photo.id)}
+            />
+          </motion.div>
+        </motion.div>
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Slideshow;
@@ -1,37 +1,132 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, FolderUp, X, Image, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
-import { uploadAlbum } from '@/api/albums';
+import { Upload, FolderUp, X, Image, CheckCircle, AlertCircle, AlertTriangle, Loader2, History, Check } from 'lucide-react';
+import { uploadAlbum, uploadPhotosToAlbum, getAlbumFiles, discardUploadJob } from '@/api/albums';
+import { putAlbum } from '@/store/albumStore';
+import { getUploadJobs, getUploadJobKey } from '@/utils/uploadStore';
+import {
+  analyzeUploadStructure,
+  findDuplicateFiles,
+  getUploadFolderType,
+  type UploadStructure,
+} from '@/utils/uploadStructure';
+import {
+  createLightVersions,
+  isLightGenerationSupported,
+  DEFAULT_LIGHT_OPTIONS,
+  type LightVersionOptions,
+} from '@/utils/lightVersions';
+import type { Album, AlbumFile, UploadFileEntry, UploadJob } from '@/types';
 
 interface UploadedFolder {
   name: string;
-  files: File[];
+  files: UploadFileEntry[];
   previews: string[];
+  structure: UploadStructure;
+  generateLight: boolean; // resize originals into light/max pairs before upload
 }
 
+const sortByPath = (files: UploadFileEntry[]) =>
+  files.sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+
+// Light files make the best previews - max ones are the heavy originals
+const createPreviews = (files: UploadFileEntry[], structure: UploadStructure): string[] => {
+  const previewSource = structure.isLightMax
+    ? files.filter(entry => getUploadFolderType(entry.path) === 'light')
+    : files;
+  return previewSource.slice(0, 10).map(entry => URL.createObjectURL(entry.file));
+};
+
+const createFolder = (name: string, files: UploadFileEntry[]): UploadedFolder => {
+  const sorted = sortByPath(files);
+  const structure = analyzeUploadStructure(sorted);
+  return { name, files: sorted, previews: createPreviews(sorted, structure), structure, generateLight: false };
+};
+
+const LONG_EDGE_OPTIONS = [1600, 2048, 2560, 3200];
+
+const MAX_LISTED_NAMES = 3;
+
+const listNames = (names: string[]): string =>
+  names.length > MAX_LISTED_NAMES
+    ? `${names.slice(0, MAX_LISTED_NAMES).join(', ')} i ${names.length - MAX_LISTED_NAMES} więcej`
+    : names.join(', ');
+
 interface UploadZoneProps {
   onUpload?: (folders: UploadedFolder[]) => void;
   onClose?: () => void;
   useBackend?: boolean;
+  targetAlbum?: Album; // add photos to this album instead of creating new ones
 }
 
 const UploadZone: React.FC<UploadZoneProps> = ({
   onUpload,
   onClose,
   useBackend = true,
+  targetAlbum,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadedFolders, setUploadedFolders] = useState<UploadedFolder[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [existingFiles, setExistingFiles] = useState<AlbumFile[]>([]);
+  const [pendingJobs, setPendingJobs] = useState<UploadJob[]>([]);
+  const [expandedFolder, setExpandedFolder] = useState<number | null>(null);
+  const [lightOptions, setLightOptions] = useState<LightVersionOptions>(DEFAULT_LIGHT_OPTIONS);
+  const [lightProgress, setLightProgress] = useState<{ done: number; total: number } | null>(null);
+  const canGenerateLight = useBackend && isLightGenerationSupported();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Helper function to recursively read all files from a directory
+  // Uploads interrupted by a reload or a lost connection, waiting for the same folder again
+  const refreshPendingJobs = useCallback(async () => {
+    setPendingJobs(useBackend ? await getUploadJobs() : []);
+  }, [useBackend]);
+
+  useEffect(() => { refreshPendingJobs(); }, [refreshPendingJobs]);
+
+  // Files already in the target album are skipped (same name and size)
+  useEffect(() => {
+    if (!targetAlbum || !useBackend) return;
+    getAlbumFiles(targetAlbum.id)
+      .then(setExistingFiles)
+      .catch(() => setExistingFiles([]));
+  }, [targetAlbum, useBackend]);
+
+  const duplicatesByFolder = useMemo(
+    () => uploadedFolders.map(folder => findDuplicateFiles(folder.files, existingFiles)),
+    [uploadedFolders, existingFiles]
+  );
+
+  // Adding to an existing album collects everything dropped into that one album
+  const addFolders = useCallback((folders: UploadedFolder[]) => {
+    if (!targetAlbum) {
+      setUploadedFolders(prev => [...prev, ...folders]);
+      return;
+    }
+    const previous = uploadedFolders[0];
+    [previous, ...folders].forEach(folder => folder?.previews.forEach(url => URL.revokeObjectURL(url)));
+    const merged = createFolder(targetAlbum.name, [
+      ...(previous?.files ?? []),
+      ...folders.flatMap(folder => folder.files),
+    ]);
+    setUploadedFolders([{ ...merged, generateLight: previous?.generateLight ?? false }]);
+  }, [targetAlbum, uploadedFolders]);
+
+  const handleDiscardJob = useCallback(async (job: UploadJob) => {
+    if (!confirm(`Porzucić niedokończony upload albumu "${job.albumName}"?`)) return;
+    await discardUploadJob(job);
+    refreshPendingJobs();
+  }, [refreshPendingJobs]);
+
+  // Helper function to recursively read all files from a directory,
+  // keeping each file's path below the dropped folder (light/max subfolders matter)
   const readAllFilesFromDirectory = async (
-    dirEntry: FileSystemDirectoryEntry
-  ): Promise<File[]> => {
-    const files: File[] = [];
+    dirEntry: FileSystemDirectoryEntry,
+    basePath = ''
+  ): Promise<UploadFileEntry[]> => {
+    const files: UploadFileEntry[] = [];
     const dirReader = dirEntry.createReader();
 
     // Read all entries (readEntries may need multiple calls for large directories)
@@ -61,11 +156,14 @@ const UploadZone: React.FC<UploadZoneProps> = ({
           (entry as FileSystemFileEntry).file(resolve);
         });
         if (file.type.startsWith('image/')) {
-          files.push(file);
+          files.push({ file, path: basePath + entry.name });
         }
       } else if (entry.isDirectory) {
         // Recursively read subdirectories
-        const subFiles = await readAllFilesFromDirectory(entry as FileSystemDirectoryEntry);
+        const subFiles = await readAllFilesFromDirectory(
+          entry as FileSystemDirectoryEntry,
+          `${basePath}${entry.name}/`
+        );
         files.push(...subFiles);
       }
     }
@@ -88,20 +186,14 @@ const UploadZone: React.FC<UploadZoneProps> = ({
         
         if (entry?.isDirectory) {
           // Handle folder - read all files recursively
-          const files = await readAllFilesFromDirectory(entry as FileSystemDirectoryEntry);
+          // When adding to an album the dropped folder itself may be "light" or "max"
+          const files = await readAllFilesFromDirectory(
+            entry as FileSystemDirectoryEntry,
+            targetAlbum ? `${entry.name}/` : ''
+          );
           
           if (files.length > 0) {
-            // Sort files by name for consistent ordering
-            files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
-            
-            // Create previews (limit to first 10 for performance)
-            const previews = files.slice(0, 10).map(file => URL.createObjectURL(file));
-            
-            return {
-              name: entry.name,
-              files,
-              previews,
-            };
+            return createFolder(entry.name, files);
           }
         } else {
           // Handle single file
@@ -125,7 +217,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({
     for (const result of results) {
       if (result === null) continue;
       
-      if ('isSingleFile' in result && result.file) {
+      if ('isSingleFile' in result) {
         singleFiles.push(result.file);
       } else {
         folders.push(result);
@@ -134,56 +226,46 @@ const UploadZone: React.FC<UploadZoneProps> = ({
 
     // Group single files into one album
     if (singleFiles.length > 0) {
-      folders.push({
-        name: 'Nowy Album',
-        files: singleFiles,
-        previews: singleFiles.slice(0, 10).map(f => URL.createObjectURL(f)),
-      });
+      folders.push(createFolder('Nowy Album', singleFiles.map(file => ({ file, path: file.name }))));
     }
 
     if (folders.length > 0) {
-      setUploadedFolders(prev => [...prev, ...folders]);
+      addFolders(folders);
     }
-  }, []);
+  }, [targetAlbum, addFolders]);
 
   // Handle folder input change (for button click)
   const handleFolderSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
-    // Group files by their folder path
-    const folderMap = new Map<string, { files: File[]; previews: string[] }>();
+    // Group files by their top-level folder, keeping the path below it
+    const folderMap = new Map<string, UploadFileEntry[]>();
 
     files.forEach((file) => {
-      // Get folder name from path
-      const pathParts = file.webkitRelativePath?.split('/') || [file.name];
+      const pathParts = file.webkitRelativePath ? file.webkitRelativePath.split('/') : [file.name];
       const folderName = pathParts.length > 1 ? pathParts[0] : 'Nowy Album';
+      const path = pathParts.length > 1 && !targetAlbum ? pathParts.slice(1).join('/') : pathParts.join('/');
 
       if (file.type.startsWith('image/')) {
         if (!folderMap.has(folderName)) {
-          folderMap.set(folderName, { files: [], previews: [] });
+          folderMap.set(folderName, []);
         }
-        const folder = folderMap.get(folderName)!;
-        folder.files.push(file);
-        folder.previews.push(URL.createObjectURL(file));
+        folderMap.get(folderName)!.push({ file, path });
       }
     });
 
     const newFolders: UploadedFolder[] = Array.from(folderMap.entries()).map(
-      ([name, data]) => ({
-        name,
-        files: data.files,
-        previews: data.previews,
-      })
+      ([name, folderFiles]) => createFolder(name, folderFiles)
     );
 
-    setUploadedFolders(prev => [...prev, ...newFolders]);
+    addFolders(newFolders);
     
     // Reset input
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, []);
+  }, [targetAlbum, addFolders]);
 
   // Handle drag events
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -204,6 +286,14 @@ const UploadZone: React.FC<UploadZoneProps> = ({
       folder.previews.forEach(url => URL.revokeObjectURL(url));
       return prev.filter((_, i) => i !== index);
     });
+    setExpandedFolder(null);
+  }, []);
+
+  // Only folders without light files can have them generated
+  const toggleGenerateLight = useCallback((index: number) => {
+    setUploadedFolders(prev => prev.map((folder, i) => (
+      i === index ? { ...folder, generateLight: !folder.generateLight } : folder
+    )));
   }, []);
 
   // Upload to server
@@ -213,28 +303,48 @@ const UploadZone: React.FC<UploadZoneProps> = ({
     setIsUploading(true);
     setUploadStatus('idle');
     setUploadProgress(0);
+    setUploadError(null);
+
+    const finishedFolders: UploadedFolder[] = [];
 
     try {
       const totalFolders = uploadedFolders.length;
       let completedFolders = 0;
 
-      for (const folder of uploadedFolders) {
+      for (const [index, folder] of uploadedFolders.entries()) {
         if (useBackend) {
-          // Upload to real backend
-          await uploadAlbum(
-            folder.name,
-            folder.files,
-            (progress) => {
-              // Calculate overall progress
-              const folderProgress = (completedFolders + progress / 100) / totalFolders;
-              setUploadProgress(Math.round(folderProgress * 100));
-            }
-          );
+          const duplicates = duplicatesByFolder[index];
+          let files = folder.files.filter(entry => !duplicates?.has(entry));
+          if (files.length === 0) {
+            finishedFolders.push(folder);
+            completedFolders++;
+            continue;
+          }
+          if (folder.generateLight) {
+            setLightProgress({ done: 0, total: files.length });
+            files = await createLightVersions(files, lightOptions, (done, total) => {
+              setLightProgress({ done, total });
+            });
+            setLightProgress(null);
+          }
+
+          // Calculate overall progress
+          const reportProgress = (progress: number) => {
+            const folderProgress = (completedFolders + progress / 100) / totalFolders;
+            setUploadProgress(Math.round(folderProgress * 100));
+          };
+
+          // Upload to real backend; each finished album shows up in the gallery right away
+          const result = targetAlbum
+            ? await uploadPhotosToAlbum(targetAlbum, files, reportProgress)
+            : await uploadAlbum(folder.name, files, reportProgress);
+          putAlbum(result.album);
         } else {
           // Simulate upload when backend is not available
           console.log(`[Mock] Uploading album "${folder.name}" with ${folder.files.length} files`);
           await new Promise(resolve => setTimeout(resolve, 500));
         }
+        finishedFolders.push(folder);
         completedFolders++;
         setUploadProgress(Math.round((completedFolders / totalFolders) * 100));
       }
@@ -253,10 +363,16 @@ const UploadZone: React.FC<UploadZoneProps> = ({
     } catch (error) {
       console.error('Upload error:', error);
       setUploadStatus('error');
+      setUploadError(error instanceof Error ? error.message : null);
+      // Keep only what is left, so "try again" resumes instead of uploading finished albums twice
+      finishedFolders.forEach(folder => folder.previews.forEach(url => URL.revokeObjectURL(url)));
+      setUploadedFolders(prev => prev.filter(folder => !finishedFolders.includes(folder)));
     } finally {
       setIsUploading(false);
+      setLightProgress(null);
+      refreshPendingJobs();
     }
-  }, [uploadedFolders, useBackend, onUpload]);
+  }, [uploadedFolders, duplicatesByFolder, useBackend, targetAlbum, lightOptions, onUpload, refreshPendingJobs]);
 
   return (
     <motion.div
@@ -278,9 +394,13 @@ const UploadZone: React.FC<UploadZoneProps> = ({
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
           <div>
-            <h2 className="text-2xl font-bold text-white">Upload Albumów</h2>
+            <h2 className="text-2xl font-bold text-white">
+              {targetAlbum ? `Dodaj zdjęcia: ${targetAlbum.name}` : 'Upload Albumów'}
+            </h2>
             <p className="text-white/60 text-sm mt-1">
-              Przeciągnij wiele folderów naraz lub wybierz je z dysku
+              {targetAlbum
+                ? 'Pliki, które już są w albumie (ta sama nazwa i rozmiar), zostaną pominięte'
+                : 'Przeciągnij wiele folderów naraz lub wybierz je z dysku'}
             </p>
           </div>
           {onClose && (
@@ -295,6 +415,32 @@ const UploadZone: React.FC<UploadZoneProps> = ({
           )}
         </div>
 
+        {/* Interrupted uploads */}
+        {pendingJobs.length > 0 && !isUploading && (
+          <div className="mb-4 space-y-2">
+            {pendingJobs.map(job => {
+              const started = job.files.filter(entry => entry.uploadId).length;
+              return (
+                <div key={job.key} className="glass-subtle px-4 py-3 flex items-center gap-3">
+                  <History className="w-5 h-5 text-amber-300 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white text-sm truncate">Niedokończony upload: {job.albumName}</p>
+                    <p className="text-white/50 text-xs">
+                      {started}/{job.files.length} zdjęć rozpoczętych • wybierz ten sam folder, aby wznowić
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDiscardJob(job)}
+                    className="px-2 py-1 bg-white/10 hover:bg-white/20 rounded-md text-xs text-white/80 transition-colors"
+                  >
+                    Porzuć
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Drop Zone */}
         <div
           className={`upload-zone p-8 md:p-12 ${isDragOver ? 'drag-over' : ''}`}
@@ -318,7 +464,9 @@ const UploadZone: React.FC<UploadZoneProps> = ({
               {isDragOver ? 'Upuść tutaj!' : 'Przeciągnij foldery ze zdjęciami'}
             </h3>
             <p className="text-white/50 text-sm mb-6">
-              Możesz przeciągnąć wiele folderów naraz • Jeden folder = Jeden album
+              {targetAlbum
+                ? 'Wszystkie pliki trafią do tego albumu • foldery light/max są zachowane'
+                : 'Możesz przeciągnąć wiele folderów naraz • Jeden folder = Jeden album'}
             </p>
 
             {/* Folder Select Button */}
@@ -391,12 +539,98 @@ const UploadZone: React.FC<UploadZoneProps> = ({
                     </div>
 
                     {/* Folder Info */}
-                    <div className="flex-1">
-                      <h4 className="text-white font-medium">{folder.name}</h4>
+                    <div className="flex-1 min-w-0">
+                      <h4 className="text-white font-medium">
+                        {folder.name}
+                        {pendingJobs.some(job => job.key === getUploadJobKey(folder.name, targetAlbum?.id)) && (
+                          <span className="ml-2 text-xs text-amber-300">wznowienie</span>
+                        )}
+                      </h4>
                       <p className="text-white/50 text-sm flex items-center gap-1">
                         <Image className="w-3 h-3" />
                         {folder.files.length} zdjęć
+                        {duplicatesByFolder[index]?.size > 0 && (
+                          <span className="text-white/40">
+                            {' • '}{duplicatesByFolder[index].size} już w albumie
+                          </span>
+                        )}
+                        {(folder.structure.light > 0 || folder.structure.max > 0) && (
+                          <>
+                            {' • '}Light {folder.structure.light} • Max {folder.structure.max}
+                            <button
+                              onClick={() => setExpandedFolder(expandedFolder === index ? null : index)}
+                              className="ml-2 text-xs text-white/70 underline hover:text-white"
+                            >
+                              {expandedFolder === index ? 'Ukryj pary' : 'Pokaż pary'}
+                            </button>
+                          </>
+                        )}
                       </p>
+
+                      {/* Originals only - Light versions can be made in the browser */}
+                      {canGenerateLight && folder.structure.light === 0 && (
+                        <label className="mt-1 flex items-center gap-2 text-xs text-white/70 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={folder.generateLight}
+                            onChange={() => toggleGenerateLight(index)}
+                            disabled={isUploading}
+                            className="w-3 h-3 accent-white"
+                          />
+                          Utwórz wersje Light w przeglądarce (oryginały trafią do Max)
+                        </label>
+                      )}
+
+                      {/* Light/max pairing problems */}
+                      {folder.structure.light > 0 && folder.structure.max === 0 && (
+                        <p className="text-amber-300 text-xs mt-1 flex items-start gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          Brak folderu max - album zostanie zapisany bez wersji Max
+                        </p>
+                      )}
+                      {folder.structure.max > 0 && folder.structure.light === 0 && !folder.generateLight && (
+                        <p className="text-amber-300 text-xs mt-1 flex items-start gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          Brak folderu light - pliki Max trafią do galerii
+                        </p>
+                      )}
+                      {folder.structure.isLightMax && folder.structure.unmatchedLight.length > 0 && (
+                        <p className="text-amber-300 text-xs mt-1 flex items-start gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          Light bez pary Max ({folder.structure.unmatchedLight.length}): {listNames(folder.structure.unmatchedLight)} - zostaną pominięte
+                        </p>
+                      )}
+                      {folder.structure.isLightMax && folder.structure.unmatchedMax.length > 0 && (
+                        <p className="text-amber-300 text-xs mt-1 flex items-start gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          Max bez pary Light ({folder.structure.unmatchedMax.length}): {listNames(folder.structure.unmatchedMax)} - zostaną pominięte
+                        </p>
+                      )}
+                      {folder.structure.isLightMax && folder.structure.other > 0 && (
+                        <p className="text-amber-300 text-xs mt-1 flex items-start gap-1">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          {folder.structure.other} plików poza folderami light/max zostanie pominiętych
+                        </p>
+                      )}
+
+                      {/* Pairing preview */}
+                      {expandedFolder === index && (
+                        <div className="mt-2 max-h-40 overflow-y-auto rounded-lg bg-black/20 text-xs">
+                          {folder.structure.pairs.map(pair => (
+                            <div key={pair.filename} className="flex items-center gap-2 px-2 py-1">
+                              <span className="flex-1 truncate text-white/70">{pair.filename}</span>
+                              <span className={`w-12 flex items-center gap-1 ${pair.hasLight ? 'text-green-400' : 'text-amber-300'}`}>
+                                {pair.hasLight ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                                Light
+                              </span>
+                              <span className={`w-12 flex items-center gap-1 ${pair.hasMax ? 'text-green-400' : 'text-amber-300'}`}>
+                                {pair.hasMax ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                                Max
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
 
                     {/* Remove Button */}
@@ -412,6 +646,49 @@ const UploadZone: React.FC<UploadZoneProps> = ({
                 ))}
               </div>
 
+              {/* Light version settings */}
+              {uploadedFolders.some(folder => folder.generateLight) && (
+                <div className="mt-4 glass-subtle p-4 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+                  <label className="flex flex-col gap-1 text-white/60 text-xs">
+                    Dłuższy bok
+                    <select
+                      value={lightOptions.longEdge}
+                      onChange={(e) => setLightOptions(prev => ({ ...prev, longEdge: Number(e.target.value) }))}
+                      disabled={isUploading}
+                      className="px-2 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none"
+                    >
+                      {LONG_EDGE_OPTIONS.map(size => (
+                        <option key={size} value={size} className="bg-gray-900">{size} px</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 text-white/60 text-xs">
+                    Jakość: {Math.round(lightOptions.quality * 100)}%
+                    <input
+                      type="range"
+                      min={60}
+                      max={95}
+                      value={Math.round(lightOptions.quality * 100)}
+                      onChange={(e) => setLightOptions(prev => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                      disabled={isUploading}
+                      className="accent-white mt-2"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-white/60 text-xs">
+                    Format
+                    <select
+                      value={lightOptions.format}
+                      onChange={(e) => setLightOptions(prev => ({ ...prev, format: e.target.value as LightVersionOptions['format'] }))}
+                      disabled={isUploading}
+                      className="px-2 py-1.5 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:outline-none"
+                    >
+                      <option value="image/jpeg" className="bg-gray-900">JPEG</option>
+                      <option value="image/webp" className="bg-gray-900">WebP</option>
+                    </select>
+                  </label>
+                </div>
+              )}
+
               {/* Upload Button */}
               <motion.button
                 onClick={handleUpload}
@@ -423,7 +700,9 @@ const UploadZone: React.FC<UploadZoneProps> = ({
                 {isUploading ? (
                   <>
                     <Loader2 className="w-5 h-5 animate-spin" />
-                    Przesyłanie... {uploadProgress}%
+                    {lightProgress
+                      ? `Tworzenie wersji Light... ${lightProgress.done}/${lightProgress.total}`
+                      : `Przesyłanie... ${uploadProgress}%`}
                   </>
                 ) : uploadStatus === 'success' ? (
                   <>
@@ -438,7 +717,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({
                 ) : (
                   <>
                     <Upload className="w-5 h-5" />
-                    Prześlij albumy
+                    {targetAlbum ? 'Dodaj zdjęcia' : 'Prześlij albumy'}
                   </>
                 )}
               </motion.button>
@@ -455,6 +734,10 @@ const UploadZone: React.FC<UploadZoneProps> = ({
                 </div>
               )}
 
+              {uploadError && uploadStatus === 'error' && (
+                <p className="text-center text-red-400 text-sm mt-3">{uploadError}</p>
+              )}
+
               {/* Info Note */}
               <p className="text-center text-white/40 text-xs mt-4">
                 Zdjęcia zostaną przesłane na serwer FTP
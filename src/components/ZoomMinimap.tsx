@@ -0,0 +1,74 @@
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+
+interface ZoomMinimapProps {
+  src: string;
+  aspectRatio: number; // width / height of the photo
+  visibleArea: { left: number; top: number; right: number; bottom: number }; // fractions of the photo
+  zoomPercent: number; // relative to the photo's own pixels
+  onNavigate: (point: { x: number; y: number }) => void; // fractions of the photo to centre on
+  className?: string;
+}
+
+const MINIMAP_WIDTH = 160;
+
+/**
+ * Whole photo with a frame over the zoomed-in part; clicking or dragging on it moves the frame
+ */
+const ZoomMinimap: React.FC<ZoomMinimapProps> = ({
+  src,
+  aspectRatio,
+  visibleArea,
+  zoomPercent,
+  onNavigate,
+  className = '',
+}) => {
+  const isDragging = useRef(false);
+
+  const navigateTo = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    });
+  };
+
+  return (
+    <motion.div
+      className={`z-20 p-1.5 bg-black/60 backdrop-blur-md rounded-lg border border-white/10 ${className}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 10 }}
+      transition={{ duration: 0.2 }}
+    >
+      <div
+        className="relative overflow-hidden rounded cursor-crosshair touch-none"
+        style={{ width: MINIMAP_WIDTH, height: MINIMAP_WIDTH / aspectRatio }}
+        onPointerDown={event => {
+          event.stopPropagation();
+          event.currentTarget.setPointerCapture(event.pointerId);
+          isDragging.current = true;
+          navigateTo(event);
+        }}
+        onPointerMove={event => isDragging.current && navigateTo(event)}
+        onPointerUp={() => { isDragging.current = false; }}
+        onMouseDown={event => event.stopPropagation()}
+        onClick={event => event.stopPropagation()}
+      >
+        <img src={src} alt="" className="w-full h-full object-cover" draggable={false} />
+        <div
+          className="absolute border-2 border-white rounded-sm shadow-[0_0_0_999px_rgba(0,0,0,0.45)] pointer-events-none"
+          style={{
+            left: `${visibleArea.left * 100}%`,
+            top: `${visibleArea.top * 100}%`,
+            width: `${(visibleArea.right - visibleArea.left) * 100}%`,
+            height: `${(visibleArea.bottom - visibleArea.top) * 100}%`,
+          }}
+        />
+      </div>
+      <div className="mt-1 text-center text-[11px] text-white/60 tabular-nums">{zoomPercent}%</div>
+    </motion.div>
+  );
+};
+
+export default ZoomMinimap;
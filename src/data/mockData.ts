@@ -40,6 +40,11 @@ export const mockAlbums: Album[] = [
     thumbnail: 'https://images.unsplash.com/photo-1519741497674-611481863552?w=400&q=60',
     photos: createMockPhotos('album-1', 12),
     createdAt: new Date('2024-03-15'),
+    eventDate: '2024-03-09',
+    location: 'Kraków',
+    clientName: 'Anna i Piotr',
+    tags: ['wesele'],
+    sortOrder: 1,
   },
   {
     id: 'album-2',
@@ -47,6 +52,11 @@ export const mockAlbums: Album[] = [
     thumbnail: 'https://images.unsplash.com/photo-1531746020798-e6953c6e8e04?w=400&q=60',
     photos: createMockPhotos('album-2', 8),
     createdAt: new Date('2024-03-10'),
+    eventDate: '2024-03-09',
+    location: 'Kraków',
+    clientName: 'Anna i Piotr',
+    tags: ['portret'],
+    sortOrder: 2,
   },
   {
     id: 'album-3',
@@ -0,0 +1,478 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  approveContributions,
+  deleteAlbum,
+  deleteAlbumAudio,
+  deletePhoto,
+  getAlbumPhotos,
+  getAlbumsIfChanged,
+  getImageUrl,
+  getSession,
+  getThumbnailUrl,
+  updateAlbum,
+  uploadAlbumAudio,
+} from '@/api/albums';
+import { mockAlbums } from '@/data/mockData';
+import { clearCachedAlbums, getCachedAlbums, saveCachedAlbums } from '@/utils/albumCache';
+import { isDemoMode } from '@/utils/demoMode';
+import { getPhotoCount, hasAllPhotos } from '@/utils/photoPages';
+import { sortPhotosByTakenAt } from '@/utils/photoMetadata';
+import type { Album, AlbumSummary, AlbumUpdate, Photo, PhotoSortMode } from '@/types';
+
+// ============================================
+// ALBUM STORE
+// ============================================
+
+// One copy of the album list for the whole app, shared by the gallery and the admin panel.
+// Stale-while-revalidate: the last list seen (memory, then IndexedDB) is shown at once and
+// refreshed in the background with If-None-Match, so an unchanged gallery costs a 304.
+// Admin changes are applied locally before the request and rolled back when it fails.
+// The list carries no photos: each album's pages are fetched on demand and kept for
+// as long as the album's photosVersion stays the same. Partly loaded albums viewed by
+// capture time get a second set of pages, fetched in that order by the server.
+
+export interface AlbumStoreState {
+  scope: string | null; // whose albums these are, see getAlbumScope()
+  albums: Album[];
+  photosByTakenAt: Record<string, Photo[]>; // album id -> pages fetched with sort=takenAt
+  hasData: boolean; // false until the cache or the server answered for this scope
+  isRevalidating: boolean;
+  error: unknown; // last failed refresh; stale albums stay available next to it
+}
+
+const EMPTY_STATE: AlbumStoreState = {
+  scope: null,
+  albums: [],
+  photosByTakenAt: {},
+  hasData: false,
+  isRevalidating: false,
+  error: null,
+};
+
+let state = EMPTY_STATE;
+let etag: string | null = null;
+let pendingRevalidation: Promise<void> | null = null;
+// Bumped by every local change, so a refresh started before it cannot undo it
+let mutationVersion = 0;
+// Cursor of the next photo page per album and sort, for the photos currently in the store
+const photoCursors = new Map<string, string | null>();
+const pendingPhotoPages = new Map<string, Promise<boolean>>();
+const listeners = new Set<() => void>();
+
+const photoPageKey = (albumId: string, sort: PhotoSortMode) => `${sort}:${albumId}`;
+
+function setState(changes: Partial<AlbumStoreState>): void {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const getSnapshot = () => state;
+
+/**
+ * Albums differ per role and share link, so each session kind gets its own cache entry
+ */
+function getAlbumScope(): string | null {
+  if (isDemoMode) return 'demo';
+  const session = getSession();
+  if (!session) return null;
+  return `${session.role}:${session.albumIds?.join(',') ?? 'all'}`;
+}
+
+/**
+ * Turn the server's relative image paths into full URLs (absolute ones are kept)
+ */
+const resolvePhotoUrls = (photo: Photo): Photo => ({
+  ...photo,
+  src: getImageUrl(photo.src),
+  thumbnail: photo.thumbnail ? getThumbnailUrl(photo.thumbnail) : undefined,
+  maxSrc: photo.maxSrc ? getImageUrl(photo.maxSrc) : undefined,
+  variants: photo.variants && Object.fromEntries(
+    Object.entries(photo.variants).map(([format, sizes]) => [
+      format,
+      Object.fromEntries(Object.entries(sizes).map(([size, url]) => [size, getImageUrl(url)])),
+    ])
+  ),
+});
+
+function resolveSummaryUrls<T extends AlbumSummary | Album>(album: T): T {
+  return {
+    ...album,
+    thumbnail: getThumbnailUrl(album.thumbnail),
+    audioTrack: album.audioTrack && { ...album.audioTrack, src: getImageUrl(album.audioTrack.src) },
+  };
+}
+
+function resolveAlbumUrls(album: Album): Album {
+  return { ...resolveSummaryUrls(album), photos: album.photos.map(resolvePhotoUrls) };
+}
+
+/**
+ * Fresh summaries keep the pages already loaded for albums whose photos did not change
+ */
+function mergeSummaries(summaries: AlbumSummary[]): Pick<AlbumStoreState, 'albums' | 'photosByTakenAt'> {
+  const loaded = new Map(state.albums.map(album => [album.id, album]));
+  const photosByTakenAt: Record<string, Photo[]> = {};
+  const albums = summaries.map(summary => {
+    const previous = loaded.get(summary.id);
+    if (previous && previous.photosVersion === summary.photosVersion) {
+      const sorted = state.photosByTakenAt[summary.id];
+      if (sorted) photosByTakenAt[summary.id] = sorted;
+      return { ...resolveSummaryUrls(summary), photos: previous.photos };
+    }
+    photoCursors.delete(photoPageKey(summary.id, 'album'));
+    photoCursors.delete(photoPageKey(summary.id, 'takenAt'));
+    return { ...resolveSummaryUrls(summary), photos: [] };
+  });
+  return { albums, photosByTakenAt };
+}
+
+/**
+ * Forget the capture-time pages of an album whose photos have just been replaced
+ */
+function dropTakenAtPages(albumId: string): void {
+  if (!state.photosByTakenAt[albumId]) return;
+  const photosByTakenAt = { ...state.photosByTakenAt };
+  delete photosByTakenAt[albumId];
+  photoCursors.delete(photoPageKey(albumId, 'takenAt'));
+  setState({ photosByTakenAt });
+}
+
+/**
+ * Remember the albums for the next visit. Partly loaded albums are stored without
+ * photos, since their page cursors do not survive a reload
+ */
+function persistAlbums(): void {
+  if (!state.scope || state.scope === 'demo') return;
+  saveCachedAlbums({
+    scope: state.scope,
+    albums: state.albums.map(album => (hasAllPhotos(album) ? album : { ...album, photos: [] })),
+    etag,
+  });
+}
+
+/**
+ * Apply a local change and persist it. The ETag is dropped, because the
+ * cached list no longer matches any server version
+ */
+function updateAlbums(update: (albums: Album[]) => Album[]): void {
+  mutationVersion += 1;
+  etag = null;
+  setState({ albums: update(state.albums) });
+  persistAlbums();
+}
+
+const replaceAlbum = (albums: Album[], album: Album): Album[] =>
+  albums.map(item => (item.id === album.id ? album : item));
+
+/**
+ * What the server will do with an AlbumUpdate, done locally in advance
+ */
+function applyAlbumUpdate(album: Album, changes: AlbumUpdate): Album {
+  const { coverPhotoId, photoOrder, sortOrder, tags, ...fields } = changes;
+  const next: Album = { ...album };
+
+  (Object.keys(fields) as (keyof typeof fields)[]).forEach(key => {
+    const value = fields[key];
+    if (value === undefined) return;
+    if (value === '' && key !== 'name') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  });
+  if (tags !== undefined) {
+    if (tags.length === 0) delete next.tags;
+    else next.tags = tags;
+  }
+  if (sortOrder !== undefined) {
+    if (sortOrder === null) delete next.sortOrder;
+    else next.sortOrder = sortOrder;
+  }
+  if (photoOrder) {
+    const position = new Map(photoOrder.map((id, index) => [id, index]));
+    next.photos = [...album.photos].sort(
+      (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+    );
+  }
+  if (coverPhotoId) {
+    const cover = album.photos.find(photo => photo.id === coverPhotoId);
+    if (cover) next.thumbnail = cover.thumbnail || cover.src;
+  }
+  return next;
+}
+
+/**
+ * Switch to the current session's albums, starting from the IndexedDB copy when there is one
+ */
+async function enterScope(scope: string): Promise<void> {
+  etag = null;
+  photoCursors.clear();
+  setState({ ...EMPTY_STATE, scope });
+  if (scope === 'demo') {
+    setState({ albums: mockAlbums, hasData: true });
+    return;
+  }
+  const cached = await getCachedAlbums(scope);
+  if (cached && state.scope === scope && !state.hasData) {
+    etag = cached.etag;
+    setState({ albums: cached.albums, hasData: true });
+  }
+}
+
+async function runRevalidation(): Promise<void> {
+  const scope = getAlbumScope();
+  if (!scope) return;
+  if (scope !== state.scope) await enterScope(scope);
+  if (scope === 'demo') return;
+
+  const version = mutationVersion;
+  setState({ isRevalidating: true });
+  try {
+    const result = await getAlbumsIfChanged(etag);
+    if (state.scope !== scope) return;
+    if (result && version === mutationVersion) {
+      etag = result.etag;
+      setState(mergeSummaries(result.albums));
+      persistAlbums();
+    }
+    setState({ hasData: true, error: null });
+  } catch (error) {
+    if (state.scope === scope) setState({ error });
+  } finally {
+    if (state.scope === scope) setState({ isRevalidating: false });
+  }
+}
+
+/**
+ * Refresh the albums of the current session. Concurrent calls share one request;
+ * failures end up in the store's error, never as a rejected promise
+ */
+export function revalidateAlbums(): Promise<void> {
+  if (!pendingRevalidation) {
+    pendingRevalidation = runRevalidation().finally(() => {
+      pendingRevalidation = null;
+    });
+  }
+  return pendingRevalidation;
+}
+
+/**
+ * Forget everything, including the IndexedDB copy (logout)
+ */
+export function resetAlbumStore(): void {
+  etag = null;
+  mutationVersion += 1;
+  photoCursors.clear();
+  setState(EMPTY_STATE);
+  clearCachedAlbums();
+}
+
+/**
+ * The album's photos loaded so far in the given order. Albums with every photo
+ * loaded are sorted in the browser rather than fetched again
+ */
+function getLoadedPhotos(album: Album, sort: PhotoSortMode): Photo[] {
+  if (sort === 'album') return album.photos;
+  return hasAllPhotos(album) ? sortPhotosByTakenAt(album.photos) : state.photosByTakenAt[album.id] ?? [];
+}
+
+/**
+ * Fetch the album's next photo page in the given order into the store;
+ * false when nothing could be added
+ */
+async function fetchNextPhotoPage(albumId: string, sort: PhotoSortMode): Promise<boolean> {
+  const album = state.albums.find(item => item.id === albumId);
+  if (!album || getLoadedPhotos(album, sort).length >= getPhotoCount(album)) return false;
+  const scope = state.scope;
+  const key = photoPageKey(albumId, sort);
+  const page = await getAlbumPhotos(albumId, photoCursors.get(key) ?? null, sort);
+
+  // Dropped when the session changed or the photos changed on the server meanwhile
+  const current = state.albums.find(item => item.id === albumId);
+  if (state.scope !== scope || !current || current.photosVersion !== album.photosVersion) return false;
+
+  const loaded = getLoadedPhotos(current, sort);
+  const known = new Set(loaded.map(photo => photo.id));
+  const added = page.photos.filter(photo => !known.has(photo.id)).map(resolvePhotoUrls);
+  const photos = [...loaded, ...added];
+  photoCursors.set(key, page.nextCursor);
+  const photoCount = page.nextCursor === null ? photos.length : page.total;
+  if (sort === 'album') {
+    setState({ albums: replaceAlbum(state.albums, { ...current, photos, photoCount }) });
+    if (page.nextCursor === null) persistAlbums();
+  } else {
+    setState({
+      albums: replaceAlbum(state.albums, { ...current, photoCount }),
+      photosByTakenAt: { ...state.photosByTakenAt, [albumId]: photos },
+    });
+  }
+  return added.length > 0;
+}
+
+/**
+ * Make sure at least count photos of the album are loaded in the given order (Infinity
+ * loads all of them) and resolve with them. A failed page ends up in the store's error
+ */
+export async function loadAlbumPhotos(
+  albumId: string,
+  count: number,
+  sort: PhotoSortMode = 'album'
+): Promise<Photo[]> {
+  return loadPhotosUntil(albumId, sort, photos => photos.length >= count);
+}
+
+/**
+ * Load pages until the photo is there (deep links into large albums)
+ */
+export async function findAlbumPhoto(
+  albumId: string,
+  photoId: string,
+  sort: PhotoSortMode = 'album'
+): Promise<Photo | undefined> {
+  const photos = await loadPhotosUntil(albumId, sort, loaded => loaded.some(photo => photo.id === photoId));
+  return photos.find(photo => photo.id === photoId);
+}
+
+async function loadPhotosUntil(
+  albumId: string,
+  sort: PhotoSortMode,
+  isEnough: (photos: Photo[]) => boolean
+): Promise<Photo[]> {
+  const currentPhotos = () => {
+    const album = state.albums.find(item => item.id === albumId);
+    return album ? getLoadedPhotos(album, sort) : [];
+  };
+  const key = photoPageKey(albumId, sort);
+  try {
+    while (!isEnough(currentPhotos())) {
+      let request = pendingPhotoPages.get(key);
+      if (!request) {
+        request = fetchNextPhotoPage(albumId, sort).finally(() => pendingPhotoPages.delete(key));
+        pendingPhotoPages.set(key, request);
+      }
+      if (!(await request)) break;
+    }
+  } catch (error) {
+    setState({ error });
+  }
+  return currentPhotos();
+}
+
+/**
+ * Insert or replace an album the server has just returned (after an upload)
+ */
+export function putAlbum(album: Album): void {
+  const resolved = resolveAlbumUrls(album);
+  dropTakenAtPages(album.id);
+  updateAlbums(albums =>
+    albums.some(item => item.id === album.id) ? replaceAlbum(albums, resolved) : [...albums, resolved]
+  );
+}
+
+/**
+ * Update an album (owner only); the list changes at once and settles on the server's answer
+ */
+export async function saveAlbum(id: string, changes: AlbumUpdate): Promise<Album> {
+  const previous = state.albums.find(album => album.id === id);
+  if (previous) updateAlbums(albums => replaceAlbum(albums, applyAlbumUpdate(previous, changes)));
+  try {
+    const saved = resolveAlbumUrls(await updateAlbum(id, changes));
+    dropTakenAtPages(id);
+    updateAlbums(albums => replaceAlbum(albums, saved));
+    return saved;
+  } catch (error) {
+    if (previous) updateAlbums(albums => replaceAlbum(albums, previous));
+    throw error;
+  }
+}
+
+/**
+ * Upload or remove an album's slideshow soundtrack. Not optimistic: the list changes
+ * once the server has the file
+ */
+export async function setAlbumAudio(
+  albumId: string,
+  file: File | null,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const saved = file ? await uploadAlbumAudio(albumId, file, onProgress) : await deleteAlbumAudio(albumId);
+  putAlbum(saved);
+}
+
+/**
+ * Move guest photos into an album (the guest album when none is given), which may be new
+ */
+export async function acceptContributions(ids: string[], albumId?: string): Promise<Album> {
+  const { album } = await approveContributions(ids, albumId);
+  putAlbum(album);
+  return album;
+}
+
+/**
+ * Delete an album, putting it back in its place when the server refuses
+ */
+export async function removeAlbum(id: string): Promise<void> {
+  const index = state.albums.findIndex(album => album.id === id);
+  const previous = state.albums[index];
+  updateAlbums(albums => albums.filter(album => album.id !== id));
+  try {
+    await deleteAlbum(id);
+  } catch (error) {
+    if (previous) {
+      updateAlbums(albums => [...albums.slice(0, index), previous, ...albums.slice(index)]);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a photo, putting it back when the server refuses
+ */
+export async function removePhoto(albumId: string, photoId: string): Promise<void> {
+  const previous = state.albums.find(album => album.id === albumId);
+  if (previous) {
+    const photos = previous.photos.filter(photo => photo.id !== photoId);
+    const deleted = previous.photos.find(photo => photo.id === photoId);
+    // Same rule as the server: a deleted cover is replaced by the first photo
+    const wasCover = deleted && previous.thumbnail === (deleted.thumbnail || deleted.src);
+    updateAlbums(albums => replaceAlbum(albums, {
+      ...previous,
+      photos,
+      photoCount: previous.photoCount === undefined ? undefined : getPhotoCount(previous) - 1,
+      thumbnail: wasCover ? photos[0]?.thumbnail || '' : previous.thumbnail,
+    }));
+    // Their page cursors count the deleted photo, so they are fetched again
+    dropTakenAtPages(albumId);
+  }
+  try {
+    await deletePhoto(albumId, photoId);
+  } catch (error) {
+    if (previous) updateAlbums(albums => replaceAlbum(albums, previous));
+    throw error;
+  }
+}
+
+/**
+ * Albums of the current session. Data left over from another session is never
+ * returned, and the list is refreshed whenever the tab becomes visible again
+ */
+export function useAlbumStore(): AlbumStoreState & { isLoading: boolean } {
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+  const current = snapshot.scope !== null && snapshot.scope === getAlbumScope();
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && state.hasData) revalidateAlbums();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const visible = current ? snapshot : EMPTY_STATE;
+  return { ...visible, isLoading: !visible.hasData && !visible.error };
+}
@@ -7,14 +7,190 @@ export interface Photo {
   title?: string;
   width?: number;
   height?: number;
+  // Filled in at upload from the file and its EXIF; older photos may have none of it
+  originalFilename?: string;
+  uploadedAt?: string;
+  takenAt?: string; // ISO 8601, offset only when the camera recorded it
+  camera?: string;
+  lens?: string;
+  exposure?: PhotoExposure;
+  orientation?: number; // EXIF orientation, 1-8
+  fileSize?: {
+    light: number;
+    max?: number;
+  };
+  variants?: PhotoVariants; // missing for photos uploaded before variants existed
+  placeholder?: string; // tiny blurred preview as a data URI, likewise missing on older photos
+  maxSrc?: string; // full-size Max file, sent to owners only
+}
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg';
+
+// Server-made copies of the gallery file: format -> long edge in px -> URL
+export type PhotoVariants = Partial<Record<ImageFormat, Record<string, string>>>;
+
+export interface PhotoExposure {
+  aperture?: number;
+  exposureTime?: number; // seconds
+  iso?: number;
+  focalLength?: number; // mm
+}
+
+export type PhotoSortMode = 'album' | 'takenAt';
+
+export type SlideshowTransition = 'kenBurns' | 'crossfade' | 'slide';
+
+export interface SlideshowSettings {
+  interval: number; // seconds a photo stays on screen once loaded
+  transition: SlideshowTransition;
+  scope: 'album' | 'all'; // what loops: the current album or the whole gallery
 }
 
 export interface Album {
   id: string;
   name: string;
   thumbnail: string;
-  photos: Photo[];
+  photos: Photo[]; // only the pages loaded so far when photoCount is larger
+  photoCount?: number; // all photos on the server; missing when photos holds them all
+  photosVersion?: string; // changes with any change to the album's photos
   createdAt?: Date;
+  accessCode?: string; // owner-only
+  downloadSizes?: Record<DownloadVariant, number>; // owner-only, bytes
+  eventDate?: string; // YYYY-MM-DD
+  description?: string;
+  location?: string;
+  clientName?: string;
+  tags?: string[];
+  sortOrder?: number; // manual position, lower comes first
+  audioTrack?: AlbumAudioTrack; // played during the slideshow
+}
+
+export interface AlbumAudioTrack {
+  src: string;
+  name: string; // file name as uploaded
+}
+
+// Album lists come without photos, those are fetched per album in pages
+export type AlbumSummary = Omit<Album, 'photos'> & { photoCount: number; photosVersion: string };
+
+export interface PhotoPage {
+  photos: Photo[];
+  nextCursor: string | null; // null after the last page
+  total: number;
+}
+
+export type AlbumDetails = Pick<Album, 'eventDate' | 'description' | 'location' | 'clientName' | 'tags' | 'sortOrder'>;
+
+// Light = web-sized files, Max = full-size originals
+export type DownloadVariant = 'light' | 'max' | 'both';
+
+export interface AlbumUpdate {
+  name?: string;
+  accessCode?: string;
+  coverPhotoId?: string;
+  photoOrder?: string[]; // photo ids in display order
+  // Empty strings, an empty tag list and a null position remove the field
+  eventDate?: string;
+  description?: string;
+  location?: string;
+  clientName?: string;
+  tags?: string[];
+  sortOrder?: number | null;
+}
+
+export interface PhotoRef {
+  albumId: string;
+  photoId: string;
+}
+
+// Issued by the server once per browser; the key is the viewer id with the server's signature
+export interface ViewerKey {
+  viewerId: string;
+  key: string;
+}
+
+// A viewer's favourites and named proofing lists, e.g. "Do druku"
+export interface ViewerSelections {
+  viewerName: string; // asked for before the first pick, so the photographer knows whose picks they are
+  favorites: PhotoRef[];
+  lists: ProofingList[];
+  updatedAt?: string | null;
+}
+
+export interface ProofingList {
+  id: string;
+  name: string;
+  photos: PhotoRef[];
+}
+
+// Owner view of one client's picks, with the file names to look up in the originals
+export interface ClientSelections {
+  viewerId: string;
+  viewerName: string;
+  favorites: SelectedPhoto[];
+  lists: (Omit<ProofingList, 'photos'> & { photos: SelectedPhoto[] })[];
+  updatedAt: string | null;
+}
+
+export interface SelectedPhoto extends PhotoRef {
+  albumName: string;
+  fileName: string;
+}
+
+// A viewer's comment on a photo; hidden ones are left out of the gallery
+export interface PhotoComment extends PhotoRef {
+  id: string;
+  authorName: string;
+  text: string;
+  hidden: boolean;
+  createdAt: string;
+}
+
+export interface PhotoReaction {
+  emoji: string;
+  count: number;
+  reacted: boolean; // given by this viewer
+}
+
+// Comments and reaction counts of one photo; reactions list every emoji, also unused ones
+export interface PhotoFeedback {
+  comments: PhotoComment[];
+  reactions: PhotoReaction[];
+}
+
+// Owner view of a comment, with the photo it was left on
+export interface ModeratedComment extends PhotoComment {
+  albumName: string;
+  fileName: string;
+  thumbnail: string;
+}
+
+// A photo found by GET /api/search/photos, with what the search palette shows for it
+export interface PhotoSearchHit {
+  albumId: string;
+  albumName: string;
+  photoId: string;
+  title: string; // empty when the photo has none
+  fileName: string;
+  thumbnail: string;
+}
+
+// A guest's photo waiting for the owner's approval
+export interface Contribution {
+  id: string;
+  src: string; // API paths, not public files - see getContributionImage
+  thumbnail: string;
+  originalFilename: string;
+  contributorName: string; // may be empty, the name is optional for guests
+  width?: number;
+  height?: number;
+  submittedAt: string;
+}
+
+// A file picked for upload with its path inside the album folder, e.g. "light/IMG_01.jpg"
+export interface UploadFileEntry {
+  file: File;
+  path: string;
 }
 
 export interface UploadedFile {
@@ -28,3 +204,58 @@ export interface SliderItem {
   image: string;
   title?: string;
 }
+
+export type UserRole = 'owner' | 'guest' | null;
+
+export interface Session {
+  token: string;
+  role: Exclude<UserRole, null>;
+  expiresAt: string;
+  albumIds?: string[]; // set when the session only opens some albums
+}
+
+export interface ShareLink {
+  id: string;
+  key: string;
+  label: string;
+  albumIds: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+// What a finished upload may be used for: owner uploads into albums, or guest photos
+// waiting for approval
+export type UploadSessionKind = 'album' | 'contribution';
+
+// Server-side state of one resumable file upload
+export interface UploadSession {
+  id: string;
+  name: string;
+  size: number;
+  offset: number;
+  complete: boolean;
+}
+
+// Album upload kept in IndexedDB, so it can continue after a page reload
+export interface UploadJob {
+  key: string; // see getUploadJobKey()
+  albumName: string;
+  albumId?: string; // target album; for a new album set once it is created, before any files are committed
+  files: UploadJobFile[];
+  updatedAt: string;
+}
+
+// A file already stored in an album, used to skip duplicates on upload
+export interface AlbumFile {
+  name: string;
+  size: number;
+}
+
+export interface UploadJobFile {
+  fingerprint: string;
+  path: string;
+  size: number;
+  uploadId?: string;
+  committed: boolean;
+}
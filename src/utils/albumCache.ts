@@ -0,0 +1,79 @@
+import type { Album } from '@/types';
+
+const DB_NAME = 'lena-cache';
+const DB_VERSION = 1;
+const ALBUMS_STORE = 'albums';
+
+/**
+ * Last album list seen for a session scope, with the ETag it came with
+ */
+export interface CachedAlbums {
+  scope: string;
+  albums: Album[];
+  etag: string | null;
+  savedAt: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ALBUMS_STORE, { keyPath: 'scope' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(ALBUMS_STORE, mode).objectStore(ALBUMS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Cached albums for this scope, if any (private browsing may have no IndexedDB at all)
+ */
+export async function getCachedAlbums(scope: string): Promise<CachedAlbums | undefined> {
+  try {
+    return await runTransaction<CachedAlbums | undefined>('readonly', store => store.get(scope));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remember the albums for the next visit - a failure only costs the instant start
+ */
+export async function saveCachedAlbums(entry: Omit<CachedAlbums, 'savedAt'>): Promise<void> {
+  try {
+    await runTransaction('readwrite', store => store.put({ ...entry, savedAt: new Date().toISOString() }));
+  } catch {
+    // Nothing to fall back to; the next visit simply starts from the server
+  }
+}
+
+/**
+ * Drop every cached scope (logout, so the next person on this device sees nothing)
+ */
+export async function clearCachedAlbums(): Promise<void> {
+  try {
+    await runTransaction('readwrite', store => store.clear());
+  } catch {
+    // Without IndexedDB nothing was cached in the first place
+  }
+}
@@ -0,0 +1,74 @@
+import type { Album } from '@/types';
+
+export interface AlbumGroup {
+  eventDate: string | null;
+  label: string;
+  items: { album: Album; index: number }[]; // index in the sorted album list
+}
+
+const compareSortOrder = (a: Album, b: Album): number => {
+  if (a.sortOrder === undefined || b.sortOrder === undefined) {
+    if (a.sortOrder === b.sortOrder) return 0;
+    return a.sortOrder === undefined ? 1 : -1;
+  }
+  return a.sortOrder - b.sortOrder;
+};
+
+/**
+ * Newest events first, albums without a date at the end.
+ * Within one event the manual position decides, then the server order.
+ */
+export function sortAlbums(albums: Album[]): Album[] {
+  return albums
+    .map((album, index) => ({ album, index }))
+    .sort((a, b) => {
+      const dateA = a.album.eventDate ?? '';
+      const dateB = b.album.eventDate ?? '';
+      if (dateA !== dateB) {
+        if (!dateA || !dateB) return dateA ? -1 : 1;
+        return dateB.localeCompare(dateA);
+      }
+      return compareSortOrder(a.album, b.album) || a.index - b.index;
+    })
+    .map(item => item.album);
+}
+
+/**
+ * Event date as "14 czerwca 2025". YYYY-MM-DD is read as a local date,
+ * not UTC midnight, so the day never shifts
+ */
+export function formatEventDate(eventDate: string): string {
+  const [year, month, day] = eventDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (Number.isNaN(date.getTime())) return eventDate;
+  return date.toLocaleDateString('pl-PL', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Consecutive albums sharing an event date; expects the list from sortAlbums
+ */
+export function groupAlbumsByEventDate(albums: Album[]): AlbumGroup[] {
+  const groups: AlbumGroup[] = [];
+  albums.forEach((album, index) => {
+    const eventDate = album.eventDate ?? null;
+    const last = groups[groups.length - 1];
+    if (last && last.eventDate === eventDate) {
+      last.items.push({ album, index });
+    } else {
+      groups.push({
+        eventDate,
+        label: eventDate ? formatEventDate(eventDate) : 'Bez daty',
+        items: [{ album, index }],
+      });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Tags typed as "wesele, plener, rodzina"
+ */
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(tag => tag.trim()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
@@ -0,0 +1,35 @@
+const DEMO_STORAGE_KEY = 'gallery_demo';
+
+/**
+ * Demo mode shows the sample albums from mockData instead of talking to the API.
+ * It is never a fallback: only VITE_DEMO_MODE=true or opening any page with ?demo turns it on
+ * (?demo=0 turns it off again). The flag is kept for the tab, because in-app
+ * navigation drops the query string.
+ */
+function resolveDemoMode(): boolean {
+  if (import.meta.env.VITE_DEMO_MODE === 'true') return true;
+  if (typeof window === 'undefined') return false;
+
+  const flag = new URLSearchParams(window.location.search).get('demo');
+  if (flag !== null) {
+    if (flag === '0' || flag === 'false') {
+      sessionStorage.removeItem(DEMO_STORAGE_KEY);
+    } else {
+      sessionStorage.setItem(DEMO_STORAGE_KEY, '1');
+    }
+  }
+  return sessionStorage.getItem(DEMO_STORAGE_KEY) === '1';
+}
+
+export const isDemoMode = resolveDemoMode();
+
+// Builds made with VITE_DEMO_MODE are demo-only, so there is nothing to leave
+export const canExitDemoMode = import.meta.env.VITE_DEMO_MODE !== 'true';
+
+/**
+ * Leave a URL-enabled demo and reload without the flag
+ */
+export function exitDemoMode(): void {
+  sessionStorage.removeItem(DEMO_STORAGE_KEY);
+  window.location.assign(window.location.pathname);
+}
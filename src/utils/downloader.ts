@@ -1,28 +1,24 @@
 import { saveAs } from 'file-saver';
-import type { Album } from '@/types';
-import { getAlbumDownloadUrl, downloadMultipleAlbumsFromBackend } from '@/api/albums';
+import type { Album, DownloadVariant, PhotoRef } from '@/types';
+import { downloadAlbumFromBackend, downloadMultipleAlbumsFromBackend, downloadPhotosFromBackend } from '@/api/albums';
 
 /**
  * Downloads a single album as ZIP from backend
  */
-export async function downloadAlbum(album: Album): Promise<void> {
-  const downloadUrl = getAlbumDownloadUrl(album.id);
-  
-  // Trigger download via hidden link
-  const link = document.createElement('a');
-  link.href = downloadUrl;
-  link.download = `Lena ${album.name}.zip`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+export async function downloadAlbum(album: Album, variant: DownloadVariant = 'both'): Promise<void> {
+  const blob = await downloadAlbumFromBackend(album.id, variant);
+  saveAs(blob, `Lena ${album.name}.zip`);
 }
 
 /**
  * Downloads multiple albums as a single ZIP from backend
  */
-export async function downloadMultipleAlbums(albums: Album[]): Promise<void> {
+export async function downloadMultipleAlbums(
+  albums: Album[],
+  variant: DownloadVariant = 'both'
+): Promise<void> {
   const albumIds = albums.map(a => a.id);
-  const blob = await downloadMultipleAlbumsFromBackend(albumIds);
+  const blob = await downloadMultipleAlbumsFromBackend(albumIds, variant);
   
   const filename = albums.length === 1 
     ? `Lena ${albums[0].name}.zip`
@@ -31,6 +27,33 @@ export async function downloadMultipleAlbums(albums: Album[]): Promise<void> {
   saveAs(blob, filename);
 }
 
+/**
+ * Downloads selected photos (possibly from several albums) as a single ZIP
+ */
+export async function downloadPhotos(
+  photos: PhotoRef[],
+  albums: Album[],
+  variant: DownloadVariant = 'both'
+): Promise<void> {
+  const blob = await downloadPhotosFromBackend(photos, variant);
+  
+  const albumIds = new Set(photos.map(p => p.albumId));
+  const album = albumIds.size === 1 ? albums.find(a => albumIds.has(a.id)) : undefined;
+  const filename = album
+    ? `Lena ${album.name} - wybrane.zip`
+    : 'Lena wybrane zdjęcia.zip';
+  
+  saveAs(blob, filename);
+}
+
+/**
+ * Sums the estimated ZIP size of the given albums for one variant (null when unknown)
+ */
+export function estimateDownloadSize(albums: Album[], variant: DownloadVariant): number | null {
+  if (albums.length === 0 || albums.some(a => !a.downloadSizes)) return null;
+  return albums.reduce((total, album) => total + (album.downloadSizes?.[variant] ?? 0), 0);
+}
+
 /**
  * Formats file size for display
  */
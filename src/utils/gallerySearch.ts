@@ -0,0 +1,154 @@
+import { formatEventDate } from '@/utils/albumOrder';
+import type { Album, PhotoSearchHit } from '@/types';
+
+export interface SearchResult {
+  key: string;
+  albumId: string;
+  photoId?: string; // set for photos, albums open on their first photo
+  title: string;
+  subtitle: string;
+  thumbnail?: string;
+}
+
+interface SearchField {
+  text: string; // normalized
+  weight: number;
+}
+
+interface SearchEntry {
+  result: SearchResult;
+  fields: SearchField[];
+  isAlbum: boolean;
+}
+
+const MAX_RESULTS = 50;
+
+/**
+ * Lower case without Polish diacritics, so "slub" finds "Ślub"; ł has no decomposed form
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ł/g, 'l');
+}
+
+/**
+ * How well one query word matches a text, 0 for no match. Plain substrings rank highest,
+ * especially at a word start; otherwise the letters may come with gaps ("wsl" finds
+ * "wesele"), as long as they stay close together
+ */
+export function fuzzyScore(token: string, text: string): number {
+  const index = text.indexOf(token);
+  if (index !== -1) {
+    const atWordStart = index === 0 || /[\s\-_.,/()]/.test(text[index - 1]);
+    return 100 + (atWordStart ? 50 : 0) + (token.length === text.length ? 50 : 0) - Math.min(index, 30);
+  }
+  let score = 0;
+  let first = -1;
+  let previous = -2;
+  let matched = 0;
+  for (let i = 0; i < text.length && matched < token.length; i++) {
+    if (text[i] !== token[matched]) continue;
+    if (first === -1) first = i;
+    score += previous === i - 1 ? 5 : 1;
+    previous = i;
+    matched++;
+  }
+  if (matched < token.length || previous - first + 1 > token.length * 3) return 0;
+  return score;
+}
+
+// Event dates can be found as "2025-06-14", "14 czerwca 2025" or just "czerwiec"
+const eventDateTexts = (eventDate: string): string[] => {
+  const [year, month] = eventDate.split('-').map(Number);
+  const monthName = new Date(year, month - 1, 1).toLocaleDateString('pl-PL', { month: 'long' });
+  return [eventDate, formatEventDate(eventDate), monthName];
+};
+
+const toFields = (texts: (string | undefined)[], weight: number): SearchField[] =>
+  texts.filter((text): text is string => Boolean(text)).map(text => ({ text: normalizeSearchText(text), weight }));
+
+/**
+ * Albums by name, tags, event date, place, client and description; photos by file name and
+ * title, as found by the server (albums only carry the photo pages loaded so far)
+ */
+export function buildSearchIndex(albums: Album[], photos: PhotoSearchHit[] = []): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+  albums.forEach(album => {
+    const dateLabel = album.eventDate ? formatEventDate(album.eventDate) : '';
+    entries.push({
+      isAlbum: true,
+      result: {
+        key: album.id,
+        albumId: album.id,
+        title: album.name,
+        subtitle: [dateLabel, album.location, ...(album.tags ?? [])].filter(Boolean).join(' • ') || 'Album',
+        thumbnail: album.thumbnail || undefined,
+      },
+      fields: [
+        ...toFields([album.name], 3),
+        ...toFields(album.tags ?? [], 2),
+        ...toFields(album.eventDate ? eventDateTexts(album.eventDate) : [], 2),
+        ...toFields([album.location, album.clientName, album.description], 1),
+      ],
+    });
+  });
+  photos.forEach(photo => {
+    entries.push({
+      isAlbum: false,
+      result: {
+        key: `${photo.albumId}/${photo.photoId}`,
+        albumId: photo.albumId,
+        photoId: photo.photoId,
+        title: photo.title || photo.fileName,
+        subtitle: photo.title ? `${photo.albumName} • ${photo.fileName}` : photo.albumName,
+        thumbnail: photo.thumbnail,
+      },
+      fields: toFields([photo.fileName, photo.title], 2),
+    });
+  });
+  return entries;
+}
+
+/**
+ * Search hits for photos already in memory - the demo albums come with all of theirs
+ */
+export function toPhotoSearchHits(albums: Album[]): PhotoSearchHit[] {
+  return albums.flatMap(album =>
+    album.photos.map(photo => ({
+      albumId: album.id,
+      albumName: album.name,
+      photoId: photo.id,
+      title: photo.title || '',
+      fileName: photo.originalFilename || photo.src.split('/').pop() || '',
+      thumbnail: photo.thumbnail || photo.src,
+    }))
+  );
+}
+
+/**
+ * Every word of the query has to match some field; the best field per word counts.
+ * An empty query lists the albums in their gallery order
+ */
+export function searchGallery(index: SearchEntry[], query: string): SearchResult[] {
+  const tokens = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) {
+    return index.filter(entry => entry.isAlbum).slice(0, MAX_RESULTS).map(entry => entry.result);
+  }
+  const scored: { entry: SearchEntry; score: number }[] = [];
+  index.forEach(entry => {
+    let total = 0;
+    for (const token of tokens) {
+      const best = Math.max(0, ...entry.fields.map(field => fuzzyScore(token, field.text) * field.weight));
+      if (best === 0) return;
+      total += best;
+    }
+    scored.push({ entry, score: total });
+  });
+  return scored
+    .sort((a, b) => b.score - a.score || Number(b.entry.isAlbum) - Number(a.entry.isAlbum))
+    .slice(0, MAX_RESULTS)
+    .map(item => item.entry.result);
+}
@@ -0,0 +1,36 @@
+import type { ImageFormat, Photo } from '@/types';
+
+// Variants are keyed by their long edge; srcset needs widths, which follow from the
+// photo's proportions (square is assumed when a photo has no dimensions)
+function getWidthScale(photo: Photo): number {
+  if (!photo.width || !photo.height) return 1;
+  return photo.width / Math.max(photo.width, photo.height);
+}
+
+function getSortedSizes(photo: Photo, format: ImageFormat): [number, string][] {
+  return Object.entries(photo.variants?.[format] ?? {})
+    .map(([size, url]): [number, string] => [Number(size), url])
+    .filter(([size]) => Number.isFinite(size))
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * srcset of one format, or undefined when the photo has no copies in it. The JPEG set
+ * ends with the original file, so screens bigger than the largest copy still get it
+ */
+export function getPhotoSrcSet(photo: Photo, format: ImageFormat): string | undefined {
+  const scale = getWidthScale(photo);
+  const candidates = getSortedSizes(photo, format).map(([size, url]) => `${url} ${Math.round(size * scale)}w`);
+  if (candidates.length === 0) return undefined;
+  if (format === 'jpeg' && photo.width) candidates.push(`${photo.src} ${photo.width}w`);
+  return candidates.join(', ');
+}
+
+/**
+ * One URL for places without srcset (blurred backdrops): the smallest JPEG copy with
+ * at least the given long edge, or the original when there is none
+ */
+export function getPhotoVariantUrl(photo: Photo, minLongEdge: number): string {
+  const match = getSortedSizes(photo, 'jpeg').find(([size]) => size >= minLongEdge);
+  return match ? match[1] : photo.src;
+}
@@ -0,0 +1,92 @@
+// Zoom and pan of a photo inside its viewer. The photo keeps its fitted layout box and is
+// moved with translate(x, y) scale(zoom) around that box's centre, so every measurement
+// here is in CSS px of the fitted layout, untouched by the transform.
+
+export interface ZoomView {
+  zoom: number; // 1 is fitted to the screen
+  x: number;
+  y: number;
+}
+
+export interface ZoomGeometry {
+  viewport: { width: number; height: number }; // the area the photo may cover
+  box: { left: number; top: number; width: number; height: number }; // fitted photo, relative to the viewport
+}
+
+export const FIT_VIEW: ZoomView = { zoom: 1, x: 0, y: 0 };
+export const MAX_ZOOM = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Keeps a zoomed photo covering the viewport; along an axis where it is smaller it stays where it was fitted
+ */
+export function clampView(view: ZoomView, geometry: ZoomGeometry): ZoomView {
+  const zoom = clamp(view.zoom, 1, MAX_ZOOM);
+  const clampAxis = (offset: number, viewportSize: number, boxStart: number, boxSize: number) => {
+    const scaled = boxSize * zoom;
+    if (scaled <= viewportSize) return 0;
+    const centre = boxStart + boxSize / 2;
+    return clamp(offset, viewportSize - centre - scaled / 2, scaled / 2 - centre);
+  };
+  return {
+    zoom,
+    x: clampAxis(view.x, geometry.viewport.width, geometry.box.left, geometry.box.width),
+    y: clampAxis(view.y, geometry.viewport.height, geometry.box.top, geometry.box.height),
+  };
+}
+
+/**
+ * New zoom with the point under the cursor (viewport coordinates) staying under it
+ */
+export function zoomAtPoint(
+  view: ZoomView,
+  zoom: number,
+  point: { x: number; y: number },
+  geometry: ZoomGeometry
+): ZoomView {
+  const nextZoom = clamp(zoom, 1, MAX_ZOOM);
+  const fromCentre = {
+    x: point.x - (geometry.box.left + geometry.box.width / 2),
+    y: point.y - (geometry.box.top + geometry.box.height / 2),
+  };
+  const ratio = nextZoom / view.zoom;
+  return clampView({
+    zoom: nextZoom,
+    x: fromCentre.x - (fromCentre.x - view.x) * ratio,
+    y: fromCentre.y - (fromCentre.y - view.y) * ratio,
+  }, geometry);
+}
+
+/**
+ * Part of the photo on screen, as fractions of its width and height (for the minimap)
+ */
+export function getVisibleArea(view: ZoomView, geometry: ZoomGeometry) {
+  const { viewport, box } = geometry;
+  const width = box.width * view.zoom;
+  const height = box.height * view.zoom;
+  const left = box.left + box.width / 2 + view.x - width / 2;
+  const top = box.top + box.height / 2 + view.y - height / 2;
+  const start = (edge: number, size: number) => clamp(-edge / size, 0, 1);
+  const end = (edge: number, size: number, viewportSize: number) => clamp((viewportSize - edge) / size, 0, 1);
+  return {
+    left: start(left, width),
+    top: start(top, height),
+    right: end(left, width, viewport.width),
+    bottom: end(top, height, viewport.height),
+  };
+}
+
+/**
+ * View with the given point of the photo (fractions of its width and height) in the middle of the viewport
+ */
+export function centreOnPoint(view: ZoomView, point: { x: number; y: number }, geometry: ZoomGeometry): ZoomView {
+  const { viewport, box } = geometry;
+  const width = box.width * view.zoom;
+  const height = box.height * view.zoom;
+  return clampView({
+    zoom: view.zoom,
+    x: viewport.width / 2 - (box.left + box.width / 2) + width / 2 - point.x * width,
+    y: viewport.height / 2 - (box.top + box.height / 2) + height / 2 - point.y * height,
+  }, geometry);
+}
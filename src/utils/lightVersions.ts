@@ -0,0 +1,87 @@
+import type { UploadFileEntry } from '@/types';
+import type { LightVersionRequest, LightVersionResponse } from '@/workers/lightVersion.worker';
+import { getUploadFilename } from '@/utils/uploadStructure';
+
+export interface LightVersionOptions {
+  longEdge: number; // px
+  quality: number; // 0-1
+  format: LightVersionRequest['format'];
+}
+
+export const DEFAULT_LIGHT_OPTIONS: LightVersionOptions = {
+  longEdge: 2048,
+  quality: 0.82,
+  format: 'image/jpeg',
+};
+
+// Decoding a 50 MP original takes a few hundred MB, so keep the pool small
+const MAX_WORKERS = 2;
+
+/**
+ * Whether this browser can resize images off the main thread
+ */
+export function isLightGenerationSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    'convertToBlob' in OffscreenCanvas.prototype &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+function runInWorker(worker: Worker, request: LightVersionRequest): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<LightVersionResponse>) => {
+      if ('blob' in event.data) resolve(event.data.blob);
+      else reject(new Error(event.data.error));
+    };
+    worker.onerror = () => reject(new Error('Błąd procesu przetwarzania zdjęć'));
+    worker.postMessage(request);
+  });
+}
+
+const stripExtension = (filename: string) => filename.replace(/\.[^.]+$/, '');
+
+/**
+ * Turn plain originals into light/max pairs: every original goes to `max/`,
+ * its resized copy to `light/` under the same name (the extension follows the format)
+ */
+export async function createLightVersions(
+  files: UploadFileEntry[],
+  options: LightVersionOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<UploadFileEntry[]> {
+  const workerCount = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1, files.length));
+  const workers = Array.from(
+    { length: workerCount },
+    () => new Worker(new URL('../workers/lightVersion.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const pairs: UploadFileEntry[][] = new Array(files.length);
+  let next = 0;
+  let done = 0;
+
+  try {
+    await Promise.all(workers.map(async (worker) => {
+      while (next < files.length) {
+        const index = next++;
+        const { file, path } = files[index];
+        const filename = getUploadFilename(path);
+        const blob = await runInWorker(worker, { file, ...options });
+        const lightName = `${stripExtension(filename)}.${blob.type === 'image/webp' ? 'webp' : 'jpg'}`;
+        pairs[index] = [
+          {
+            // Same lastModified as the original keeps the resume fingerprint stable
+            file: new File([blob], lightName, { type: blob.type, lastModified: file.lastModified }),
+            path: `light/${lightName}`,
+          },
+          { file, path: `max/${filename}` },
+        ];
+        onProgress?.(++done, files.length);
+      }
+    }));
+  } finally {
+    workers.forEach(worker => worker.terminate());
+  }
+
+  return pairs.flat();
+}
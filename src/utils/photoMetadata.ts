@@ -0,0 +1,92 @@
+import { hasAllPhotos } from '@/utils/photoPages';
+import type { Album, Photo, PhotoExposure, PhotoSortMode } from '@/types';
+
+const PHOTO_SORT_KEY = 'gallery_photo_sort';
+
+/**
+ * Sort mode chosen by the viewer, kept between visits
+ */
+export function getStoredPhotoSort(): PhotoSortMode {
+  return localStorage.getItem(PHOTO_SORT_KEY) === 'takenAt' ? 'takenAt' : 'album';
+}
+
+export function storePhotoSort(mode: PhotoSortMode): void {
+  localStorage.setItem(PHOTO_SORT_KEY, mode);
+}
+
+/**
+ * Capture time in ms; undefined when the photo has no EXIF date
+ */
+function getTakenTime(photo: Photo): number | undefined {
+  if (!photo.takenAt) return undefined;
+  const time = Date.parse(photo.takenAt);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Orders photos by capture time. Photos without a date keep their album order at the end
+ */
+export function sortPhotosByTakenAt(photos: Photo[]): Photo[] {
+  return photos
+    .map((photo, index) => ({ photo, index, time: getTakenTime(photo) }))
+    .sort((a, b) => {
+      if (a.time === undefined || b.time === undefined) {
+        if (a.time !== b.time) return a.time === undefined ? 1 : -1;
+        return a.index - b.index;
+      }
+      return a.time - b.time || a.index - b.index;
+    })
+    .map(item => item.photo);
+}
+
+/**
+ * Applies the sort mode to every album; the album order itself is untouched. Partly loaded
+ * albums show the pages the server sent in capture-time order (see the album store)
+ */
+export function sortAlbumPhotos(
+  albums: Album[],
+  mode: PhotoSortMode,
+  photosByTakenAt: Record<string, Photo[]> = {}
+): Album[] {
+  if (mode === 'album') return albums;
+  return albums.map(album => ({
+    ...album,
+    photos: hasAllPhotos(album) ? sortPhotosByTakenAt(album.photos) : photosByTakenAt[album.id] ?? [],
+  }));
+}
+
+export function formatTakenAt(takenAt: string): string {
+  const date = new Date(takenAt);
+  if (Number.isNaN(date.getTime())) return takenAt;
+  return date.toLocaleString('pl-PL', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Shutter speed the way cameras show it: 1/250 s, 0.5 s, 2 s
+ */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) return `${parseFloat(seconds.toFixed(1))} s`;
+  const denominator = Math.round(1 / seconds);
+  // Values like 0.3 s do not read well as a fraction
+  return Math.abs(1 / denominator - seconds) < seconds * 0.05
+    ? `1/${denominator} s`
+    : `${parseFloat(seconds.toFixed(2))} s`;
+}
+
+/**
+ * One-line summary, e.g. "f/2.8 • 1/250 s • ISO 400 • 50 mm"
+ */
+export function formatExposure(exposure: PhotoExposure): string {
+  const parts: string[] = [];
+  if (exposure.aperture) parts.push(`f/${exposure.aperture}`);
+  if (exposure.exposureTime) parts.push(formatExposureTime(exposure.exposureTime));
+  if (exposure.iso) parts.push(`ISO ${exposure.iso}`);
+  if (exposure.focalLength) parts.push(`${exposure.focalLength} mm`);
+  return parts.join(' • ');
+}
@@ -0,0 +1,53 @@
+import type { Album, Photo } from '@/types';
+
+// Albums from the list endpoint hold only the photo pages loaded so far. Positions
+// across albums (cinema mode counters, scrubbing) are counted from photoCount, so
+// they stay right while later pages are still on the server.
+
+export const PHOTO_PREFETCH_MARGIN = 10; // load the next page this many photos before the end
+
+export function getPhotoCount(album: Album): number {
+  return album.photoCount ?? album.photos.length;
+}
+
+export function hasAllPhotos(album: Album): boolean {
+  return album.photos.length >= getPhotoCount(album);
+}
+
+export function getTotalPhotoCount(albums: Album[]): number {
+  return albums.reduce((sum, album) => sum + getPhotoCount(album), 0);
+}
+
+/**
+ * Position of a photo among the photos of all albums
+ */
+export function getFlatPhotoIndex(albums: Album[], albumIndex: number, photoIndex: number): number {
+  let index = photoIndex;
+  for (let a = 0; a < albumIndex; a++) index += getPhotoCount(albums[a]);
+  return index;
+}
+
+/**
+ * Album and photo index for a position among the photos of all albums, or null past the end
+ */
+export function locateFlatPhotoIndex(
+  albums: Album[],
+  flatIndex: number
+): { albumIndex: number; photoIndex: number } | null {
+  if (flatIndex < 0) return null;
+  let remaining = flatIndex;
+  for (let albumIndex = 0; albumIndex < albums.length; albumIndex++) {
+    const count = getPhotoCount(albums[albumIndex]);
+    if (remaining < count) return { albumIndex, photoIndex: remaining };
+    remaining -= count;
+  }
+  return null;
+}
+
+/**
+ * Photo at a position among the photos of all albums, if its page is loaded
+ */
+export function getPhotoAtFlatIndex(albums: Album[], flatIndex: number): Photo | undefined {
+  const target = locateFlatPhotoIndex(albums, flatIndex);
+  return target ? albums[target.albumIndex].photos[target.photoIndex] : undefined;
+}
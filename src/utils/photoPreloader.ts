@@ -0,0 +1,152 @@
+import { useEffect, useRef } from 'react';
+import { getPhotoSrcSet } from '@/utils/imageVariants';
+import type { Photo } from '@/types';
+
+export const PRELOAD_DISTANCE = 3; // photos fetched ahead and behind the current one
+
+// Network Information API, Chromium only
+interface NetworkInformation {
+  saveData?: boolean;
+}
+
+/**
+ * Data Saver is on: nothing is fetched before it is shown
+ */
+function prefersSavingData(): boolean {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  return connection?.saveData === true;
+}
+
+/**
+ * A position and its neighbours in preload order: current, next, previous, second next...
+ * The current photo leads so that stepping onto a neighbour does not cancel its request.
+ * Positions without a loaded photo are skipped; with wrap the ends join, as in the sliders
+ */
+export function getPreloadWindow<T>(
+  count: number,
+  index: number,
+  getItem: (index: number) => T | undefined,
+  options?: { wrap?: boolean; distance?: number }
+): T[] {
+  const current = getItem(index);
+  const items: T[] = current !== undefined ? [current] : [];
+  const visited = new Set([index]); // with wrap in a short album both directions meet
+  const distance = options?.distance ?? PRELOAD_DISTANCE;
+  for (let step = 1; step <= distance; step++) {
+    for (const target of [index + step, index - step]) {
+      const position = options?.wrap ? ((target % count) + count) % count : target;
+      if (position < 0 || position >= count || visited.has(position)) continue;
+      visited.add(position);
+      const item = getItem(position);
+      if (item !== undefined) items.push(item);
+    }
+  }
+  return items;
+}
+
+interface PendingImage {
+  picture: HTMLPictureElement;
+  image: HTMLImageElement;
+}
+
+/**
+ * Builds the same picture PhotoImage renders, off-document, so the browser picks the
+ * same format and size and the later render comes from the cache
+ */
+function startLoading(photo: Photo, sizes: string, onDone: () => void): PendingImage {
+  const picture = document.createElement('picture');
+  (['avif', 'webp'] as const).forEach(format => {
+    const srcSet = getPhotoSrcSet(photo, format);
+    if (!srcSet) return;
+    const source = document.createElement('source');
+    source.type = `image/${format}`;
+    source.srcset = srcSet;
+    source.sizes = sizes;
+    picture.appendChild(source);
+  });
+  const image = document.createElement('img');
+  image.setAttribute('fetchpriority', 'low');
+  image.onload = onDone;
+  image.onerror = onDone;
+  // sizes before srcset, so the first pick already knows the rendered width
+  image.sizes = sizes;
+  image.srcset = getPhotoSrcSet(photo, 'jpeg') ?? '';
+  picture.appendChild(image);
+  image.src = photo.src;
+  return { picture, image };
+}
+
+/**
+ * Emptying the sources makes the browser drop a request still in flight
+ */
+function cancelLoading({ picture, image }: PendingImage): void {
+  image.onload = null;
+  image.onerror = null;
+  picture.querySelectorAll('source').forEach(source => source.remove());
+  image.removeAttribute('srcset');
+  image.removeAttribute('src');
+}
+
+export interface PhotoPreloader {
+  /** Wanted photos in priority order; requests for photos no longer wanted are cancelled */
+  preload(photos: Photo[], sizes: string): void;
+  dispose(): void;
+}
+
+export function createPhotoPreloader(): PhotoPreloader {
+  const pending = new Map<string, PendingImage>();
+  const loaded = new Set<string>();
+
+  const preload = (photos: Photo[], sizes: string) => {
+    const wanted = prefersSavingData() ? [] : photos;
+    const wantedKeys = new Set(wanted.map(photo => `${photo.id}|${sizes}`));
+
+    pending.forEach((request, key) => {
+      if (wantedKeys.has(key)) return;
+      cancelLoading(request);
+      pending.delete(key);
+    });
+
+    wanted.forEach(photo => {
+      const key = `${photo.id}|${sizes}`;
+      if (loaded.has(key) || pending.has(key)) return;
+      pending.set(key, startLoading(photo, sizes, () => {
+        pending.delete(key);
+        loaded.add(key);
+      }));
+    });
+  };
+
+  const dispose = () => {
+    pending.forEach(cancelLoading);
+    pending.clear();
+    loaded.clear();
+  };
+
+  return { preload, dispose };
+}
+
+/**
+ * Keeps the given photos preloading for as long as the component shows them
+ */
+export function usePhotoPreloader(photos: Photo[], sizes: string): void {
+  const preloaderRef = useRef<PhotoPreloader | null>(null);
+
+  useEffect(() => {
+    const preloader = createPhotoPreloader();
+    preloaderRef.current = preloader;
+    return () => {
+      preloader.dispose();
+      preloaderRef.current = null;
+    };
+  }, []);
+
+  // Callers build a new array every render; only a different set of photos is a change
+  const photoKey = photos.map(photo => photo.id).join(',');
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  useEffect(() => {
+    preloaderRef.current?.preload(photosRef.current, sizes);
+  }, [photoKey, sizes]);
+}
@@ -0,0 +1,13 @@
+/**
+ * Path of the gallery with an album selected
+ */
+export function albumPath(albumId: string): string {
+  return `/album/${encodeURIComponent(albumId)}`;
+}
+
+/**
+ * Path of a single photo opened in cinema mode
+ */
+export function photoPath(albumId: string, photoId: string): string {
+  return `${albumPath(albumId)}/photo/${encodeURIComponent(photoId)}`;
+}
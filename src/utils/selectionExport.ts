@@ -0,0 +1,36 @@
+import { saveAs } from 'file-saver';
+import type { ClientSelections, SelectedPhoto } from '@/types';
+
+export const FAVORITES_LIST_NAME = 'Ulubione';
+
+/**
+ * One line per file name, ready to paste into a file manager search or a lab order
+ */
+export function formatFileNames(photos: SelectedPhoto[]): string {
+  return photos.map(photo => photo.fileName).join('\n');
+}
+
+const csvField = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Client, list, album and file name for every pick; favourites count as one more list
+ */
+export function buildSelectionsCsv(clients: ClientSelections[]): string {
+  const rows = [['Klient', 'Lista', 'Album', 'Plik']];
+  clients.forEach(client => {
+    const lists = [{ name: FAVORITES_LIST_NAME, photos: client.favorites }, ...client.lists];
+    lists.forEach(list => {
+      list.photos.forEach(photo => rows.push([client.viewerName, list.name, photo.albumName, photo.fileName]));
+    });
+  });
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n');
+}
+
+/**
+ * Saves the picks as CSV; the byte order mark makes Excel read the Polish letters right
+ */
+export function downloadSelectionsCsv(clients: ClientSelections[], filename: string): void {
+  const blob = new Blob(['\ufeff', buildSelectionsCsv(clients)], { type: 'text/csv;charset=utf-8' });
+  saveAs(blob, filename);
+}
@@ -0,0 +1,90 @@
+import { useEffect } from 'react';
+import { getFlatPhotoIndex, getPhotoCount, getTotalPhotoCount } from '@/utils/photoPages';
+import type { Album, SlideshowSettings } from '@/types';
+
+const SLIDESHOW_SETTINGS_KEY = 'gallery_slideshow';
+
+export const SLIDESHOW_INTERVALS = [3, 5, 8, 12, 20]; // seconds
+
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  interval: 5,
+  transition: 'crossfade',
+  scope: 'album',
+};
+
+/**
+ * Slideshow settings chosen on this device (a TV at the venue keeps its own), kept between visits
+ */
+export function getStoredSlideshowSettings(): SlideshowSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SLIDESHOW_SETTINGS_KEY) || '{}');
+    return {
+      interval: SLIDESHOW_INTERVALS.includes(stored.interval) ? stored.interval : DEFAULT_SLIDESHOW_SETTINGS.interval,
+      transition: ['kenBurns', 'crossfade', 'slide'].includes(stored.transition)
+        ? stored.transition
+        : DEFAULT_SLIDESHOW_SETTINGS.transition,
+      scope: stored.scope === 'all' ? 'all' : 'album',
+    };
+  } catch {
+    return DEFAULT_SLIDESHOW_SETTINGS;
+  }
+}
+
+export function storeSlideshowSettings(settings: SlideshowSettings): void {
+  localStorage.setItem(SLIDESHOW_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Position of the slide after the given photo among the photos of all albums. After the
+ * last photo the album starts over, or with scope 'all' the whole gallery does
+ */
+export function getNextSlideIndex(
+  albums: Album[],
+  albumIndex: number,
+  photoIndex: number,
+  scope: SlideshowSettings['scope']
+): number {
+  if (scope === 'album') {
+    const count = getPhotoCount(albums[albumIndex]);
+    return getFlatPhotoIndex(albums, albumIndex, (photoIndex + 1) % count);
+  }
+  return (getFlatPhotoIndex(albums, albumIndex, photoIndex) + 1) % getTotalPhotoCount(albums);
+}
+
+/**
+ * Keeps the screen on while active. Browsers drop the lock whenever the tab is hidden,
+ * so it is requested again when the tab comes back
+ */
+export function useWakeLock(active: boolean): void {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (cancelled) {
+          lock.release().catch(() => {});
+          return;
+        }
+        sentinel?.release().catch(() => {});
+        sentinel = lock;
+      } catch {
+        // Refused (battery saver, hidden tab): the screen may dim as usual
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => {});
+    };
+  }, [active]);
+}
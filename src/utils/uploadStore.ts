@@ -0,0 +1,100 @@
+import type { UploadFileEntry, UploadJob } from '@/types';
+
+const DB_NAME = 'lena-uploads';
+const DB_VERSION = 2;
+const JOBS_STORE = 'jobs';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        // Version 1 keyed jobs by album name only; those jobs are dropped on upgrade
+        if (database.objectStoreNames.contains(JOBS_STORE)) {
+          database.deleteObjectStore(JOBS_STORE);
+        }
+        database.createObjectStore(JOBS_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(JOBS_STORE, mode).objectStore(JOBS_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Jobs creating a new album are keyed by its name, jobs adding photos by the album id
+ */
+export function getUploadJobKey(albumName: string, albumId?: string): string {
+  return albumId ? `album:${albumId}` : `new:${albumName}`;
+}
+
+/**
+ * Identifies a local file across page reloads (the File object itself is lost)
+ */
+export function getFileFingerprint({ file, path }: UploadFileEntry): string {
+  return [path, file.size, file.lastModified].join(':');
+}
+
+/**
+ * All unfinished album uploads, newest first
+ */
+export async function getUploadJobs(): Promise<UploadJob[]> {
+  try {
+    const jobs = await runTransaction<UploadJob[]>('readonly', store => store.getAll());
+    return jobs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Unfinished upload with this key, if any
+ */
+export async function getUploadJob(key: string): Promise<UploadJob | undefined> {
+  try {
+    return await runTransaction<UploadJob | undefined>('readonly', store => store.get(key));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Persist upload progress - a failure only costs the ability to resume
+ */
+export async function saveUploadJob(job: UploadJob): Promise<void> {
+  try {
+    await runTransaction('readwrite', store => store.put({ ...job, updatedAt: new Date().toISOString() }));
+  } catch (error) {
+    console.warn('Nie udało się zapisać stanu uploadu:', error);
+  }
+}
+
+/**
+ * Forget a finished or abandoned upload
+ */
+export async function deleteUploadJob(key: string): Promise<void> {
+  try {
+    await runTransaction('readwrite', store => store.delete(key));
+  } catch (error) {
+    console.warn('Nie udało się usunąć stanu uploadu:', error);
+  }
+}
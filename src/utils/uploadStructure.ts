@@ -0,0 +1,147 @@
+import type { AlbumFile, UploadFileEntry } from '@/types';
+
+export type UploadFolderType = 'light' | 'max' | 'other';
+
+export interface LightMaxPair {
+  filename: string;
+  hasLight: boolean;
+  hasMax: boolean;
+}
+
+export interface UploadStructure {
+  isLightMax: boolean;
+  light: number;
+  max: number;
+  other: number;
+  pairs: LightMaxPair[];
+  unmatchedLight: string[];
+  unmatchedMax: string[];
+}
+
+/**
+ * Which variant a file belongs to - the innermost `light` or `max` folder on its path
+ * wins, same as parse_upload_path() on the server
+ */
+export function getUploadFolderType(path: string): UploadFolderType {
+  const folders = path.split(/[\\/]/).filter(Boolean).slice(0, -1);
+  for (let i = folders.length - 1; i >= 0; i--) {
+    const folder = folders[i].toLowerCase();
+    if (folder === 'light' || folder === 'max') return folder;
+  }
+  return 'other';
+}
+
+export function getUploadFilename(path: string): string {
+  return path.split(/[\\/]/).filter(Boolean).pop() || path;
+}
+
+// Light and max twins share a name; the extension may differ (WebP light, JPEG max)
+const getPairingKey = (path: string): string => getUploadFilename(path).replace(/\.[^.]+$/, '');
+
+/**
+ * Pair light and max files by name, the way ZIP downloads match them later
+ */
+export function analyzeUploadStructure(files: Pick<UploadFileEntry, 'path'>[]): UploadStructure {
+  const pairs = new Map<string, LightMaxPair>();
+  let other = 0;
+
+  for (const { path } of files) {
+    const type = getUploadFolderType(path);
+    if (type === 'other') {
+      other++;
+      continue;
+    }
+    const key = getPairingKey(path);
+    const pair = pairs.get(key) ?? { filename: getUploadFilename(path), hasLight: false, hasMax: false };
+    if (type === 'light') pair.hasLight = true;
+    else pair.hasMax = true;
+    pairs.set(key, pair);
+  }
+
+  const sortedPairs = Array.from(pairs.values()).sort((a, b) =>
+    a.filename.localeCompare(b.filename, undefined, { numeric: true })
+  );
+  const light = sortedPairs.filter(pair => pair.hasLight).length;
+  const max = sortedPairs.filter(pair => pair.hasMax).length;
+
+  return {
+    isLightMax: light > 0 && max > 0,
+    light,
+    max,
+    other,
+    pairs: sortedPairs,
+    unmatchedLight: sortedPairs.filter(pair => pair.hasLight && !pair.hasMax).map(pair => pair.filename),
+    unmatchedMax: sortedPairs.filter(pair => pair.hasMax && !pair.hasLight).map(pair => pair.filename),
+  };
+}
+
+/**
+ * Order files so each light file sits next to its max twin - structured albums
+ * reject any upload request that does not carry both variants
+ */
+export function sortForLightMaxPairing<T extends { path: string }>(files: T[]): T[] {
+  return [...files].sort((a, b) =>
+    getPairingKey(a.path).localeCompare(getPairingKey(b.path), undefined, { numeric: true }) ||
+    getUploadFolderType(a.path).localeCompare(getUploadFolderType(b.path))
+  );
+}
+
+/**
+ * The files a light/max upload can attach: whole pairs only, so Light files without
+ * their Max twin, Max files without their Light one and files outside both folders
+ * are left out. Uploads without the structure pass through untouched
+ */
+export function selectPairedFiles<T extends { path: string }>(files: T[]): T[] {
+  const structure = analyzeUploadStructure(files);
+  if (!structure.isLightMax) return files;
+  const pairedKeys = new Set(
+    structure.pairs.filter(pair => pair.hasLight && pair.hasMax).map(pair => getPairingKey(pair.filename))
+  );
+  return files.filter(({ path }) => getUploadFolderType(path) !== 'other' && pairedKeys.has(getPairingKey(path)));
+}
+
+/**
+ * Split files into upload requests of about batchSize files without ever separating a
+ * light file from its max twin - the server reads the Light photo's details from the
+ * Max file sent with it
+ */
+export function batchForLightMaxPairing<T extends { path: string }>(files: T[], batchSize: number): T[][] {
+  const groups: T[][] = [];
+  let previousKey: string | null = null;
+  for (const entry of sortForLightMaxPairing(files)) {
+    const key = getPairingKey(entry.path);
+    if (key === previousKey) groups[groups.length - 1].push(entry);
+    else groups.push([entry]);
+    previousKey = key;
+  }
+
+  const batches: T[][] = [];
+  for (const group of groups) {
+    const current = batches[batches.length - 1];
+    if (current && current.length + group.length <= batchSize) current.push(...group);
+    else batches.push([...group]);
+  }
+  return batches;
+}
+
+/**
+ * The name a file gets on the server - mirrors sanitize_filename() in the PHP backend
+ */
+export function getStoredFilename(path: string): string {
+  const filename = getUploadFilename(path);
+  const dot = filename.lastIndexOf('.');
+  const extension = dot > 0 ? filename.slice(dot + 1) : '';
+  const base = (dot > 0 ? filename.slice(0, dot) : filename)
+    .replace(/[<>:"\\/|?*]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim() || 'photo';
+  return extension ? `${base}.${extension}` : base;
+}
+
+/**
+ * Files that are already in the album, matched by stored name and size
+ */
+export function findDuplicateFiles(files: UploadFileEntry[], existing: AlbumFile[]): Set<UploadFileEntry> {
+  const stored = new Set(existing.map(file => `${file.name}:${file.size}`));
+  return new Set(files.filter(({ file, path }) => stored.has(`${getStoredFilename(path)}:${file.size}`)));
+}
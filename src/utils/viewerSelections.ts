@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getViewerSelections, saveViewerSelections } from '@/api/albums';
+import { isDemoMode } from '@/utils/demoMode';
+import type { PhotoRef, ProofingList, ViewerSelections } from '@/types';
+
+export const MAX_PROOFING_LISTS = 20; // as in the backend config
+
+const EMPTY_SELECTIONS: ViewerSelections = { viewerName: '', favorites: [], lists: [] };
+
+export const isSamePhoto = (a: PhotoRef, b: PhotoRef): boolean =>
+  a.albumId === b.albumId && a.photoId === b.photoId;
+
+const togglePhoto = (photos: PhotoRef[], photo: PhotoRef): PhotoRef[] =>
+  photos.some(item => isSamePhoto(item, photo))
+    ? photos.filter(item => !isSamePhoto(item, photo))
+    : [...photos, { albumId: photo.albumId, photoId: photo.photoId }];
+
+export interface ViewerSelectionActions {
+  selections: ViewerSelections;
+  toggleFavorite: (photo: PhotoRef) => void;
+  toggleInList: (listId: string, photo: PhotoRef) => void;
+  createList: (name: string, photo: PhotoRef) => void;
+  removeList: (listId: string) => void;
+}
+
+/**
+ * Favourites and proofing lists of this viewer. Changes show at once and are saved in the
+ * background one after another, so the last save always carries the latest state. The
+ * viewer is asked for their name before the first pick; the demo keeps picks in memory only
+ */
+export function useViewerSelections(enabled: boolean): ViewerSelectionActions {
+  const [selections, setSelections] = useState<ViewerSelections>(EMPTY_SELECTIONS);
+  const selectionsRef = useRef(selections);
+  // Saves replace everything stored, so nothing is picked before the stored picks are in
+  const isLoadedRef = useRef(isDemoMode);
+  const saveQueue = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    if (!enabled || isDemoMode) return;
+    let cancelled = false;
+    getViewerSelections()
+      .then(loaded => {
+        if (cancelled) return;
+        isLoadedRef.current = true;
+        selectionsRef.current = loaded;
+        setSelections(loaded);
+      })
+      .catch(() => {
+        // Picking stays off; the album list shows the same connection or session problem
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const update = useCallback((change: (current: ViewerSelections) => ViewerSelections) => {
+    if (!isLoadedRef.current) return;
+    let viewerName = selectionsRef.current.viewerName;
+    if (!viewerName) {
+      viewerName = prompt('Jak masz na imię? Fotograf zobaczy je przy Twoich wyborach.')?.trim() ?? '';
+      if (!viewerName) return;
+    }
+    const next = { ...change(selectionsRef.current), viewerName };
+    selectionsRef.current = next;
+    setSelections(next);
+    if (isDemoMode) return;
+    saveQueue.current = saveQueue.current
+      .then(async () => {
+        await saveViewerSelections(next);
+      })
+      .catch(err => {
+        alert(err instanceof Error ? err.message : 'Nie udało się zapisać wyboru');
+      });
+  }, []);
+
+  const toggleFavorite = useCallback((photo: PhotoRef) => {
+    update(current => ({ ...current, favorites: togglePhoto(current.favorites, photo) }));
+  }, [update]);
+
+  const toggleInList = useCallback((listId: string, photo: PhotoRef) => {
+    update(current => ({
+      ...current,
+      lists: current.lists.map(list => (list.id === listId ? { ...list, photos: togglePhoto(list.photos, photo) } : list)),
+    }));
+  }, [update]);
+
+  const createList = useCallback((name: string, photo: PhotoRef) => {
+    const list: ProofingList = { id: crypto.randomUUID(), name, photos: [{ albumId: photo.albumId, photoId: photo.photoId }] };
+    update(current => ({ ...current, lists: [...current.lists, list] }));
+  }, [update]);
+
+  const removeList = useCallback((listId: string) => {
+    update(current => ({ ...current, lists: current.lists.filter(list => list.id !== listId) }));
+  }, [update]);
+
+  return { selections, toggleFavorite, toggleInList, createList, removeList };
+}
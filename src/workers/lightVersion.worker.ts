@@ -0,0 +1,54 @@
+// Web Worker: turns a full-size original into a Light version (resized, re-encoded)
+
+export interface LightVersionRequest {
+  file: Blob;
+  longEdge: number;
+  quality: number;
+  format: 'image/jpeg' | 'image/webp';
+}
+
+export type LightVersionResponse = { blob: Blob } | { error: string };
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('OffscreenCanvas 2D niedostępny');
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+async function createLightVersion({ file, longEdge, quality, format }: LightVersionRequest): Promise<Blob> {
+  // 'from-image' applies the EXIF orientation, so portrait shots stay upright
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, longEdge / Math.max(bitmap.width, bitmap.height));
+  const targetWidth = Math.max(1, Math.round(bitmap.width * scale));
+  const targetHeight = Math.max(1, Math.round(bitmap.height * scale));
+
+  // Halve step by step - a single big downscale leaves visible aliasing
+  let source: CanvasImageSource = bitmap;
+  let width = bitmap.width;
+  let height = bitmap.height;
+  while (width / 2 >= targetWidth && height / 2 >= targetHeight) {
+    width = Math.round(width / 2);
+    height = Math.round(height / 2);
+    source = drawScaled(source, width, height);
+  }
+  const canvas = drawScaled(source, targetWidth, targetHeight);
+  bitmap.close();
+
+  const blob = await canvas.convertToBlob({ type: format, quality });
+  // Browsers without a WebP encoder silently return PNG
+  return blob.type === format ? blob : canvas.convertToBlob({ type: 'image/jpeg', quality });
+}
+
+self.onmessage = async (event: MessageEvent<LightVersionRequest>) => {
+  let response: LightVersionResponse;
+  try {
+    response = { blob: await createLightVersion(event.data) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Nie udało się przetworzyć zdjęcia' };
+  }
+  self.postMessage(response);
+};